@@ -0,0 +1,212 @@
+import { useEffect, useId, useState, type KeyboardEvent } from "react";
+import { Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { SearchSuggestionDTO, SearchSuggestResponseDTO } from "@/types";
+
+/**
+ * Minimum number of characters before suggestions are requested
+ * (matches the /api/search/suggest validation)
+ */
+const MIN_QUERY_LENGTH = 2;
+
+/**
+ * Delay after the last keystroke before requesting suggestions
+ */
+const DEBOUNCE_MS = 200;
+
+const TYPE_LABELS: Record<SearchSuggestionDTO["type"], string> = {
+  item: "Item",
+  container: "Container",
+  category: "Category",
+};
+
+/**
+ * Page a suggestion opens when selected
+ */
+function getSuggestionHref(suggestion: SearchSuggestionDTO): string {
+  switch (suggestion.type) {
+    case "item":
+      return `/items/${suggestion.id}`;
+    case "container":
+      return `/containers/${suggestion.id}`;
+    case "category":
+      return "/categories";
+  }
+}
+
+interface GlobalSearchProps {
+  className?: string;
+  onNavigate?: () => void;
+}
+
+/**
+ * Global search box with typo-tolerant autocomplete
+ * Selecting a suggestion (click or Enter) jumps straight to it;
+ * Enter without a highlighted suggestion opens the best match
+ */
+export function GlobalSearch({ className, onNavigate }: GlobalSearchProps) {
+  const listboxId = useId();
+  const [query, setQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<SearchSuggestionDTO[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const trimmedQuery = query.trim();
+
+  useEffect(() => {
+    if (trimmedQuery.length < MIN_QUERY_LENGTH) {
+      setSuggestions([]);
+      setIsLoading(false);
+      return;
+    }
+
+    // Abort stale requests so slower responses never overwrite newer ones
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      setIsLoading(true);
+
+      try {
+        const params = new URLSearchParams({ q: trimmedQuery });
+        const response = await fetch(`/api/search/suggest?${params}`, {
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          throw new Error(`Suggest request failed with status ${response.status}`);
+        }
+
+        const body: SearchSuggestResponseDTO = await response.json();
+        setSuggestions(body.data);
+        setActiveIndex(-1);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("Search suggestions error:", error);
+        setSuggestions([]);
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [trimmedQuery]);
+
+  const navigateTo = (suggestion: SearchSuggestionDTO) => {
+    setIsOpen(false);
+    setQuery("");
+    onNavigate?.();
+    window.location.href = getSuggestionHref(suggestion);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case "ArrowDown":
+        event.preventDefault();
+        setIsOpen(true);
+        setActiveIndex((index) => (suggestions.length === 0 ? -1 : (index + 1) % suggestions.length));
+        break;
+      case "ArrowUp":
+        event.preventDefault();
+        setActiveIndex((index) =>
+          suggestions.length === 0 ? -1 : (index - 1 + suggestions.length) % suggestions.length
+        );
+        break;
+      case "Enter": {
+        const suggestion = suggestions[activeIndex] ?? suggestions[0];
+        if (suggestion) {
+          event.preventDefault();
+          navigateTo(suggestion);
+        }
+        break;
+      }
+      case "Escape":
+        setIsOpen(false);
+        setActiveIndex(-1);
+        break;
+    }
+  };
+
+  const showDropdown = isOpen && trimmedQuery.length >= MIN_QUERY_LENGTH;
+
+  return (
+    <div className={cn("relative", className)}>
+      <Search
+        className="pointer-events-none absolute left-2.5 top-1/2 size-4 -translate-y-1/2 text-muted-foreground"
+        aria-hidden="true"
+      />
+      <Input
+        type="search"
+        value={query}
+        placeholder="Search items, containers..."
+        className="pl-8"
+        role="combobox"
+        aria-label="Search"
+        aria-autocomplete="list"
+        aria-expanded={showDropdown}
+        aria-controls={listboxId}
+        aria-activedescendant={activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined}
+        onChange={(event) => {
+          setQuery(event.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+      />
+
+      {showDropdown && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          className="absolute z-50 mt-1 w-full min-w-64 overflow-hidden rounded-md border bg-popover text-popover-foreground shadow-md"
+        >
+          {suggestions.length === 0 ? (
+            <li className="px-3 py-2 text-sm text-muted-foreground">
+              {isLoading ? "Searching..." : "No matches"}
+            </li>
+          ) : (
+            suggestions.map((suggestion, index) => (
+              <li
+                key={`${suggestion.type}-${suggestion.id}`}
+                id={`${listboxId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+              >
+                <a
+                  href={getSuggestionHref(suggestion)}
+                  tabIndex={-1}
+                  className={cn(
+                    "flex items-center justify-between gap-3 px-3 py-2 text-sm transition-colors hover:bg-accent",
+                    index === activeIndex && "bg-accent"
+                  )}
+                  // Keep focus in the input so blur does not close the list before the click
+                  onMouseDown={(event) => event.preventDefault()}
+                  onClick={(event) => {
+                    event.preventDefault();
+                    navigateTo(suggestion);
+                  }}
+                >
+                  <span className="min-w-0">
+                    <span className="block truncate font-medium">{suggestion.name}</span>
+                    {suggestion.container && (
+                      <span className="block truncate text-xs text-muted-foreground">
+                        in {suggestion.container.name}
+                      </span>
+                    )}
+                  </span>
+                  <span className="shrink-0 text-xs text-muted-foreground">{TYPE_LABELS[suggestion.type]}</span>
+                </a>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import { GlobalSearch } from "@/components/GlobalSearch";
 
 export function Navbar() {
   const [isLoggingOut, setIsLoggingOut] = useState(false);
@@ -38,6 +39,7 @@ export function Navbar() {
     { href: "/items", label: "Items" },
     { href: "/containers", label: "Containers" },
     { href: "/categories", label: "Categories" },
+    { href: "/scan", label: "Scan" },
   ];
 
   return (
@@ -67,6 +69,7 @@ export function Navbar() {
 
           {/* Desktop Actions */}
           <div className="hidden md:flex items-center gap-4">
+            <GlobalSearch className="w-64" />
             <Button
               variant="outline"
               size="sm"
@@ -122,6 +125,10 @@ export function Navbar() {
         {/* Mobile Menu */}
         {isMobileMenuOpen && (
           <div className="md:hidden py-4 space-y-1 border-t">
+            <GlobalSearch
+              className="px-3 pb-3"
+              onNavigate={() => setIsMobileMenuOpen(false)}
+            />
             {navLinks.map((link) => (
               <a
                 key={link.href}
@@ -0,0 +1,78 @@
+import { CalendarClock } from "lucide-react"
+import { Badge } from "./ui/badge"
+import { cn } from "@/lib/utils"
+import type { CheckedOutItemDTO } from "@/types"
+
+interface OverdueLoansProps {
+  loans: CheckedOutItemDTO[]
+  totalOverdue: number
+}
+
+/**
+ * Formats a YYYY-MM-DD due date without shifting it to the local timezone
+ */
+function formatDueDate(dueDate: string) {
+  return new Date(`${dueDate}T00:00:00Z`).toLocaleDateString(undefined, {
+    day: "numeric",
+    month: "short",
+    timeZone: "UTC",
+  })
+}
+
+/**
+ * Dashboard panel highlighting lent-out items past their due date
+ * Renders nothing when no item is overdue
+ */
+export function OverdueLoans({ loans, totalOverdue }: OverdueLoansProps) {
+  if (loans.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="rounded-lg border border-orange-500/50 bg-card p-4 shadow-sm dark:border-orange-500/30">
+      <div className="mb-3 flex items-center justify-between gap-4">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-orange-600 dark:text-orange-400">
+          <CalendarClock className="size-5" aria-hidden="true" />
+          Overdue Items
+        </h2>
+        {totalOverdue > loans.length && (
+          <a
+            href="/items?filter=overdue"
+            className="text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+          >
+            View all {totalOverdue}
+          </a>
+        )}
+      </div>
+
+      <ul className="divide-y">
+        {loans.map(({ item, container, loan, daysOverdue }) => (
+          <li key={loan.id}>
+            <a
+              href={`/items/${item.id}`}
+              className={cn(
+                "flex items-center justify-between gap-4 rounded-md px-2 py-2 transition-colors",
+                "hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              )}
+            >
+              <div className="min-w-0">
+                <div className="truncate font-medium">{item.name}</div>
+                <div className="truncate text-sm text-muted-foreground">
+                  {loan.borrower ? `With ${loan.borrower}` : "Borrower unknown"} · from {container.name}
+                </div>
+              </div>
+              <div className="shrink-0 text-right">
+                <Badge variant="destructive" className="text-xs">
+                  {daysOverdue === 1 ? "1 day late" : `${daysOverdue} days late`}
+                </Badge>
+                {loan.dueDate && (
+                  <div className="mt-1 text-xs text-muted-foreground">Due {formatDueDate(loan.dueDate)}</div>
+                )}
+              </div>
+            </a>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import jsQR from "jsqr";
+import { CameraOff, ScanLine } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+/**
+ * Minimum time between two decode attempts
+ */
+const SCAN_INTERVAL_MS = 150;
+
+/**
+ * Frames are scaled down to this width before decoding (faster on phones)
+ */
+const MAX_FRAME_WIDTH = 640;
+
+/**
+ * In-app paths a scanned QR code may open: short links from printed labels
+ * and direct links to containers and items
+ */
+const SCAN_TARGET_PATTERNS = [
+  /^\/[ci]\/[A-Za-z0-9-]+$/,
+  /^\/(containers|items)\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+];
+
+type ScannerStatus = "starting" | "scanning" | "denied" | "unsupported" | "error";
+
+/**
+ * Returns the in-app path encoded in a QR code, or null for foreign codes
+ * Only the path is used, so labels printed on another host still open here
+ */
+function getScanTarget(text: string): string | null {
+  try {
+    const { pathname } = new URL(text.trim(), window.location.origin);
+    return SCAN_TARGET_PATTERNS.some((pattern) => pattern.test(pathname)) ? pathname : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Camera QR code scanner
+ * Decodes frames in the browser and navigates to the scanned container or item
+ */
+export function QrScanner() {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [status, setStatus] = useState<ScannerStatus>("starting");
+  const [unknownCode, setUnknownCode] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  const retry = useCallback(() => {
+    setStatus("starting");
+    setAttempt((current) => current + 1);
+  }, []);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setStatus("unsupported");
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let frameId = 0;
+    let lastScanAt = 0;
+    let stopped = false;
+
+    const scanFrame = (timestamp: number) => {
+      if (stopped) return;
+      frameId = requestAnimationFrame(scanFrame);
+
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (!video || !canvas || video.readyState < video.HAVE_ENOUGH_DATA) return;
+      if (timestamp - lastScanAt < SCAN_INTERVAL_MS) return;
+      lastScanAt = timestamp;
+
+      const scale = Math.min(1, MAX_FRAME_WIDTH / video.videoWidth);
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+
+      const context = canvas.getContext("2d", { willReadFrequently: true });
+      if (!context) return;
+
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const frame = context.getImageData(0, 0, canvas.width, canvas.height);
+      const code = jsQR(frame.data, frame.width, frame.height, { inversionAttempts: "dontInvert" });
+      if (!code?.data) return;
+
+      const target = getScanTarget(code.data);
+      if (target) {
+        stopped = true;
+        window.location.assign(target);
+      } else {
+        setUnknownCode(code.data);
+      }
+    };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: { ideal: "environment" } },
+          audio: false,
+        });
+
+        if (stopped || !videoRef.current) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        setStatus("scanning");
+        frameId = requestAnimationFrame(scanFrame);
+      } catch (error) {
+        if (stopped) return;
+        console.error("Camera error:", error);
+        setStatus(error instanceof DOMException && error.name === "NotAllowedError" ? "denied" : "error");
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frameId);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [attempt]);
+
+  const isCameraUnavailable = status === "denied" || status === "unsupported" || status === "error";
+
+  return (
+    <div className="mx-auto flex max-w-md flex-col items-center gap-4">
+      <div className="relative aspect-square w-full overflow-hidden rounded-lg border bg-muted">
+        <video ref={videoRef} className="size-full object-cover" muted playsInline aria-label="Camera preview" />
+        {status === "scanning" && (
+          <div
+            className="pointer-events-none absolute inset-[15%] rounded-lg border-2 border-primary/80"
+            aria-hidden="true"
+          />
+        )}
+        {isCameraUnavailable && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <CameraOff className="size-12 text-muted-foreground" aria-hidden="true" />
+          </div>
+        )}
+      </div>
+      <canvas ref={canvasRef} className="hidden" />
+
+      <div className="text-center" role="status" aria-live="polite">
+        {status === "starting" && <p className="text-muted-foreground">Starting camera...</p>}
+        {status === "scanning" && !unknownCode && (
+          <p className="flex items-center gap-2 text-muted-foreground">
+            <ScanLine className="size-4" aria-hidden="true" />
+            Point the camera at a container or item label
+          </p>
+        )}
+        {status === "scanning" && unknownCode && (
+          <p className="text-destructive">This QR code is not a label from your storage system.</p>
+        )}
+        {status === "denied" && (
+          <p className="text-destructive">Camera access was denied. Allow camera access in your browser settings.</p>
+        )}
+        {status === "unsupported" && <p className="text-destructive">This browser does not support camera access.</p>}
+        {status === "error" && <p className="text-destructive">The camera could not be started.</p>}
+      </div>
+
+      {(status === "denied" || status === "error") && (
+        <Button variant="outline" onClick={retry}>
+          Try again
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -44,6 +44,11 @@ export function RecentItemCard({ item }: RecentItemCardProps) {
           <Badge variant="default" className="text-xs">
             {item.category}
           </Badge>
+          {item.tags.map((tag) => (
+            <Badge key={tag.id} variant="secondary" className="text-xs">
+              #{tag.name}
+            </Badge>
+          ))}
           <Badge variant="outline" className="text-xs">
             {item.container}
           </Badge>
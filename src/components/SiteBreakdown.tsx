@@ -0,0 +1,49 @@
+import { MapPin } from "lucide-react"
+import type { SiteStatsDTO } from "@/types"
+
+interface SiteBreakdownProps {
+  sites: SiteStatsDTO[]
+}
+
+/**
+ * Dashboard panel breaking the totals down per site
+ * Containers without a room are grouped under "No site"
+ * Renders nothing when there are no containers yet
+ */
+export function SiteBreakdown({ sites }: SiteBreakdownProps) {
+  if (sites.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="rounded-lg border bg-card p-4 shadow-sm">
+      <h2 className="mb-3 flex items-center gap-2 text-lg font-semibold">
+        <MapPin className="size-5" aria-hidden="true" />
+        By Site
+      </h2>
+
+      <table className="w-full text-sm">
+        <thead className="text-left text-muted-foreground">
+          <tr>
+            <th scope="col" className="py-2 pr-4 font-medium">Site</th>
+            <th scope="col" className="py-2 pr-4 text-right font-medium">Containers</th>
+            <th scope="col" className="py-2 pr-4 text-right font-medium">Items</th>
+            <th scope="col" className="py-2 text-right font-medium">Out</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {sites.map(({ site, totalContainers, totalItems, itemsOut }) => (
+            <tr key={site?.id ?? "no-site"}>
+              <td className="py-2 pr-4 font-medium">
+                {site ? site.name : <span className="text-muted-foreground">No site</span>}
+              </td>
+              <td className="py-2 pr-4 text-right tabular-nums">{totalContainers}</td>
+              <td className="py-2 pr-4 text-right tabular-nums">{totalItems}</td>
+              <td className="py-2 text-right tabular-nums">{itemsOut}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
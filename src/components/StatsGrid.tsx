@@ -1,4 +1,4 @@
-import { Package, Box, Tag, AlertCircle } from "lucide-react"
+import { Package, Box, Tag, AlertCircle, CalendarClock } from "lucide-react"
 import { StatCard } from "./StatCard"
 import { StatsSkeleton } from "./ui/StatsSkeleton"
 
@@ -7,6 +7,7 @@ interface StatsGridProps {
   totalContainers: number
   totalCategories: number
   itemsOut: number
+  overdueItems: number
   isLoading?: boolean
 }
 
@@ -15,6 +16,7 @@ export function StatsGrid({
   totalContainers,
   totalCategories,
   itemsOut,
+  overdueItems,
   isLoading = false,
 }: StatsGridProps) {
   if (isLoading) {
@@ -59,10 +61,18 @@ export function StatsGrid({
       href: "/items?filter=out",
       variant: "warning" as const,
     },
+    {
+      id: "items-overdue",
+      icon: CalendarClock,
+      label: "Overdue",
+      count: safeCount(overdueItems),
+      href: "/items?filter=overdue",
+      variant: "warning" as const,
+    },
   ]
 
   return (
-    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-5">
       {stats.map((stat) => (
         <StatCard
           key={stat.id}
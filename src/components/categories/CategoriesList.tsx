@@ -6,10 +6,12 @@ import { useCategories } from '@/hooks/useCategories';
 import CategoryRow from './CategoryRow';
 import CategoryEditRow from './CategoryEditRow';
 import CategoryCreateForm from './CategoryCreateForm';
-import type { CategoryListItemDTO } from '@/types';
+import CategoryMergeDialog from './CategoryMergeDialog';
+import DeleteConfirmationModal from './DeleteConfirmationModal';
+import type { CategoryOption } from './CategorySelect';
+import type { CategoryListItemDTO, DeleteCategoryCommand } from '@/types';
 
 // These will be implemented in later steps
-// import DeleteConfirmationModal from './DeleteConfirmationModal';
 // import EmptyState from './EmptyState';
 
 interface CategoriesListProps {
@@ -21,6 +23,16 @@ interface DeleteModalState {
   category: CategoryListItemDTO | null;
 }
 
+/**
+ * Flattens the category tree in display order, with the depth of each category
+ */
+function flattenCategories(
+  categories: CategoryListItemDTO[],
+  depth = 0
+): { category: CategoryListItemDTO; depth: number }[] {
+  return categories.flatMap((category) => [{ category, depth }, ...flattenCategories(category.children, depth + 1)]);
+}
+
 /**
  * Main component for the Categories List/Management page
  * Orchestrates all category operations and child component rendering
@@ -32,6 +44,7 @@ export default function CategoriesList({ initialCategories }: CategoriesListProp
     isOpen: false,
     category: null,
   });
+  const [mergingCategory, setMergingCategory] = useState<CategoryListItemDTO | null>(null);
 
   const {
     categories,
@@ -40,6 +53,7 @@ export default function CategoriesList({ initialCategories }: CategoriesListProp
     createCategory,
     updateCategory,
     deleteCategory,
+    mergeCategory,
   } = useCategories(initialCategories);
 
   /**
@@ -53,9 +67,9 @@ export default function CategoriesList({ initialCategories }: CategoriesListProp
   /**
    * Handler for create form save
    */
-  const handleCreateSave = async (name: string) => {
+  const handleCreateSave = async (name: string, parentId: string | null) => {
     try {
-      await createCategory({ name: name.trim() });
+      await createCategory({ name: name.trim(), parentId });
       setCreateFormVisible(false);
       toast.success('Category created successfully');
     } catch (err) {
@@ -83,9 +97,9 @@ export default function CategoriesList({ initialCategories }: CategoriesListProp
   /**
    * Handler for edit form save
    */
-  const handleEditSave = async (categoryId: string, newName: string) => {
+  const handleEditSave = async (categoryId: string, newName: string, parentId: string | null) => {
     try {
-      await updateCategory(categoryId, { name: newName.trim() });
+      await updateCategory(categoryId, { name: newName.trim(), parentId });
       setEditingCategoryId(null);
       toast.success('Category updated successfully');
     } catch (err) {
@@ -109,6 +123,36 @@ export default function CategoriesList({ initialCategories }: CategoriesListProp
     setEditingCategoryId(null);
   };
 
+  /**
+   * Handler for merge button click
+   */
+  const handleMergeClick = (category: CategoryListItemDTO) => {
+    setMergingCategory(category);
+    setEditingCategoryId(null); // Ensure edit mode is closed
+  };
+
+  /**
+   * Handler for merge confirmation
+   */
+  const handleMergeConfirm = async (categoryId: string, targetId: string) => {
+    try {
+      const result = await mergeCategory(categoryId, { targetId });
+      setMergingCategory(null);
+      const itemText = result.movedItemCount === 1 ? '1 item' : `${result.movedItemCount} items`;
+      toast.success(`Categories merged, ${itemText} moved`);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to merge category';
+      toast.error(errorMessage);
+    }
+  };
+
+  /**
+   * Handler for merge dialog cancel
+   */
+  const handleMergeCancel = () => {
+    setMergingCategory(null);
+  };
+
   /**
    * Handler for delete button click
    */
@@ -122,11 +166,16 @@ export default function CategoriesList({ initialCategories }: CategoriesListProp
   /**
    * Handler for delete confirmation
    */
-  const handleDeleteConfirm = async (categoryId: string) => {
+  const handleDeleteConfirm = async (categoryId: string, reassignTo?: DeleteCategoryCommand['reassignTo']) => {
     try {
-      await deleteCategory(categoryId);
+      const result = await deleteCategory(categoryId, { reassignTo });
       setDeleteModalState({ isOpen: false, category: null });
-      toast.success('Category deleted successfully');
+      if (result.movedItemCount > 0) {
+        const itemText = result.movedItemCount === 1 ? '1 item' : `${result.movedItemCount} items`;
+        toast.success(`Category deleted, ${itemText} moved`);
+      } else {
+        toast.success('Category deleted successfully');
+      }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to delete category';
       toast.error(errorMessage);
@@ -148,11 +197,58 @@ export default function CategoriesList({ initialCategories }: CategoriesListProp
     setCreateFormVisible(true);
   };
 
+  const flatCategories = flattenCategories(categories);
+
   // Get existing category names for validation (excluding current editing category)
+  // Names are unique across all levels of the tree
   const getExistingNames = (excludeCategoryId?: string) => {
-    return categories
-      .filter(cat => cat.id !== excludeCategoryId)
-      .map(cat => cat.name);
+    return flatCategories
+      .filter(({ category }) => category.id !== excludeCategoryId)
+      .map(({ category }) => category.name);
+  };
+
+  // Get category options for parent, merge and delete targets (excluding the subtree of the given category)
+  const getCategoryOptions = (movedCategory?: CategoryListItemDTO): CategoryOption[] => {
+    const excludedIds = new Set(
+      movedCategory ? flattenCategories([movedCategory]).map(({ category }) => category.id) : []
+    );
+
+    return flatCategories
+      .filter(({ category }) => !excludedIds.has(category.id))
+      .map(({ category, depth }) => ({ id: category.id, name: category.name, depth }));
+  };
+
+  /**
+   * Renders categories with their subcategories nested below them
+   */
+  const renderCategories = (nodes: CategoryListItemDTO[]) => {
+    return nodes.map((category) => {
+      const isEditing = editingCategoryId === category.id;
+
+      return (
+        <div key={category.id} className="space-y-2">
+          {isEditing ? (
+            <CategoryEditRow
+              category={category}
+              onSave={handleEditSave}
+              onCancel={handleEditCancel}
+              existingNames={getExistingNames(category.id)}
+              parentOptions={getCategoryOptions(category)}
+            />
+          ) : (
+            <CategoryRow
+              category={category}
+              onEdit={handleEditClick}
+              onMerge={handleMergeClick}
+              onDelete={handleDeleteClick}
+            />
+          )}
+          {category.children.length > 0 && (
+            <div className="ml-6 space-y-2 border-l pl-4">{renderCategories(category.children)}</div>
+          )}
+        </div>
+      );
+    });
   };
 
   return (
@@ -181,6 +277,7 @@ export default function CategoriesList({ initialCategories }: CategoriesListProp
           onSave={handleCreateSave}
           onCancel={handleCreateCancel}
           existingNames={getExistingNames()}
+          parentOptions={getCategoryOptions()}
         />
       )}
 
@@ -200,59 +297,27 @@ export default function CategoriesList({ initialCategories }: CategoriesListProp
           </Button>
         </div>
       ) : (
-        <div className="space-y-2">
-          {categories.map((category) => {
-            const isEditing = editingCategoryId === category.id;
-            
-            if (isEditing) {
-              return (
-                <CategoryEditRow
-                  key={category.id}
-                  category={category}
-                  onSave={handleEditSave}
-                  onCancel={handleEditCancel}
-                  existingNames={getExistingNames(category.id)}
-                />
-              );
-            }
-            
-            return (
-              <CategoryRow
-                key={category.id}
-                category={category}
-                onEdit={handleEditClick}
-                onDelete={handleDeleteClick}
-              />
-            );
-          })}
-        </div>
+        <div className="space-y-2">{renderCategories(categories)}</div>
       )}
 
-      {/* Delete Modal - Will be implemented in next steps */}
+      {/* Merge Dialog */}
+      {mergingCategory && (
+        <CategoryMergeDialog
+          category={mergingCategory}
+          targetOptions={getCategoryOptions(mergingCategory)}
+          onConfirm={handleMergeConfirm}
+          onCancel={handleMergeCancel}
+        />
+      )}
+
+      {/* Delete Confirmation Modal */}
       {deleteModalState.isOpen && deleteModalState.category && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-          <div className="bg-card p-6 rounded-lg max-w-md">
-            <h2 className="text-xl font-bold mb-4">Delete Category</h2>
-            <p className="mb-4">
-              Delete confirmation modal will be implemented in the next step
-            </p>
-            <p className="text-sm text-muted-foreground mb-4">
-              Category: {deleteModalState.category.name} ({deleteModalState.category.itemCount} items)
-            </p>
-            <div className="flex gap-2 justify-end">
-              <Button onClick={handleDeleteCancel} variant="outline">
-                Cancel
-              </Button>
-              <Button
-                onClick={() => handleDeleteConfirm(deleteModalState.category!.id)}
-                variant="destructive"
-                disabled={deleteModalState.category.itemCount > 0}
-              >
-                Delete
-              </Button>
-            </div>
-          </div>
-        </div>
+        <DeleteConfirmationModal
+          category={deleteModalState.category}
+          targetOptions={getCategoryOptions(deleteModalState.category)}
+          onConfirm={handleDeleteConfirm}
+          onCancel={handleDeleteCancel}
+        />
       )}
     </div>
   );
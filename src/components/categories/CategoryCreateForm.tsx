@@ -3,11 +3,14 @@ import { Check, X, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useCategoryForm } from '@/hooks/useCategoryForm';
+import CategorySelect from './CategorySelect';
+import type { CategoryOption } from './CategorySelect';
 
 interface CategoryCreateFormProps {
-  onSave: (name: string) => Promise<void>;
+  onSave: (name: string, parentId: string | null) => Promise<void>;
   onCancel: () => void;
   existingNames: string[];
+  parentOptions: CategoryOption[];
 }
 
 /**
@@ -17,9 +20,11 @@ interface CategoryCreateFormProps {
 export default function CategoryCreateForm({ 
   onSave, 
   onCancel, 
-  existingNames 
+  existingNames,
+  parentOptions,
 }: CategoryCreateFormProps) {
   const [isSaving, setIsSaving] = useState(false);
+  const [parentId, setParentId] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   const { formState, setName, validate, handleBlur, reset } = useCategoryForm('', existingNames);
@@ -39,8 +44,9 @@ export default function CategoryCreateForm({
 
     setIsSaving(true);
     try {
-      await onSave(formState.name);
+      await onSave(formState.name, parentId);
       reset(); // Reset form after successful save
+      setParentId(null);
     } catch (err) {
       // Error is handled by parent component
       console.error('Save failed:', err);
@@ -104,6 +110,19 @@ export default function CategoryCreateForm({
           )}
         </div>
 
+        {/* Parent Category */}
+        {parentOptions.length > 0 && (
+          <CategorySelect
+            id="create-parent"
+            value={parentId}
+            options={parentOptions}
+            onChange={setParentId}
+            emptyLabel="No parent (top level)"
+            ariaLabel="Parent category"
+            disabled={isSaving}
+          />
+        )}
+
         {/* Action Buttons */}
         <div className="flex items-center gap-2">
           <Button
@@ -3,13 +3,16 @@ import { Check, X, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useCategoryForm } from '@/hooks/useCategoryForm';
+import CategorySelect from './CategorySelect';
+import type { CategoryOption } from './CategorySelect';
 import type { CategoryListItemDTO } from '@/types';
 
 interface CategoryEditRowProps {
   category: CategoryListItemDTO;
-  onSave: (categoryId: string, newName: string) => Promise<void>;
+  onSave: (categoryId: string, newName: string, parentId: string | null) => Promise<void>;
   onCancel: () => void;
   existingNames: string[];
+  parentOptions: CategoryOption[];
 }
 
 /**
@@ -20,9 +23,11 @@ export default function CategoryEditRow({
   category, 
   onSave, 
   onCancel, 
-  existingNames 
+  existingNames,
+  parentOptions,
 }: CategoryEditRowProps) {
   const [isSaving, setIsSaving] = useState(false);
+  const [parentId, setParentId] = useState<string | null>(category.parentId);
   const inputRef = useRef<HTMLInputElement>(null);
 
   // Filter out current category name from existing names for validation
@@ -51,7 +56,7 @@ export default function CategoryEditRow({
 
     setIsSaving(true);
     try {
-      await onSave(category.id, formState.name);
+      await onSave(category.id, formState.name, parentId);
     } catch (err) {
       // Error is handled by parent component
       console.error('Save failed:', err);
@@ -74,7 +79,9 @@ export default function CategoryEditRow({
   };
 
   const hasErrors = formState.errors.length > 0;
-  const canSave = formState.isValid && !isSaving && formState.isDirty;
+  const isParentChanged = parentId !== category.parentId;
+  // An untouched name is not validated yet, so a parent change alone can be saved
+  const canSave = !isSaving && (formState.isDirty ? formState.isValid : isParentChanged);
 
   return (
     <div className="bg-accent/30 border-2 border-primary/20 rounded-md p-4">
@@ -107,6 +114,17 @@ export default function CategoryEditRow({
           )}
         </div>
 
+        {/* Parent Category */}
+        <CategorySelect
+          id={`edit-parent-${category.id}`}
+          value={parentId}
+          options={parentOptions}
+          onChange={setParentId}
+          emptyLabel="No parent (top level)"
+          ariaLabel="Parent category"
+          disabled={isSaving}
+        />
+
         {/* Action Buttons */}
         <div className="flex items-center gap-2">
           <Button
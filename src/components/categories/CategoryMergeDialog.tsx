@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import CategorySelect from './CategorySelect';
+import type { CategoryOption } from './CategorySelect';
+import type { CategoryListItemDTO } from '@/types';
+
+interface CategoryMergeDialogProps {
+  category: CategoryListItemDTO;
+  targetOptions: CategoryOption[];
+  onConfirm: (categoryId: string, targetId: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Dialog for merging a category into another one
+ * Lets the user pick the target and explains what will be moved
+ */
+export default function CategoryMergeDialog({
+  category,
+  targetOptions,
+  onConfirm,
+  onCancel,
+}: CategoryMergeDialogProps) {
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+
+  const itemCountText = category.itemCount === 1 ? '1 item' : `${category.itemCount} items`;
+  const subcategoryCount = category.children.length;
+  const subcategoryText = subcategoryCount === 1 ? '1 subcategory' : `${subcategoryCount} subcategories`;
+
+  /**
+   * Handle merge confirmation
+   */
+  const handleConfirm = async () => {
+    if (!targetId) {
+      return;
+    }
+
+    setIsMerging(true);
+    try {
+      await onConfirm(category.id, targetId);
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card p-6 rounded-lg max-w-md w-full space-y-4">
+        <h2 className="text-xl font-bold">Merge Category</h2>
+        <p className="text-sm text-muted-foreground">
+          {itemCountText}
+          {subcategoryCount > 0 && ` and ${subcategoryText}`} of {category.name} will be moved to the selected category,
+          then {category.name} will be deleted.
+        </p>
+
+        {targetOptions.length > 0 ? (
+          <CategorySelect
+            id="merge-target"
+            value={targetId}
+            options={targetOptions}
+            onChange={setTargetId}
+            emptyLabel="Select a category"
+            ariaLabel="Target category"
+            disabled={isMerging}
+          />
+        ) : (
+          <p className="text-sm">There is no other category to merge into.</p>
+        )}
+
+        <div className="flex gap-2 justify-end">
+          <Button onClick={onCancel} variant="outline" disabled={isMerging}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!targetId || isMerging}>
+            {isMerging ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Merging...
+              </>
+            ) : (
+              'Merge'
+            )}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
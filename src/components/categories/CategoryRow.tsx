@@ -1,4 +1,4 @@
-import { Edit, Trash2 } from 'lucide-react';
+import { Edit, Merge, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import type { CategoryListItemDTO } from '@/types';
@@ -6,15 +6,18 @@ import type { CategoryListItemDTO } from '@/types';
 interface CategoryRowProps {
   category: CategoryListItemDTO;
   onEdit: (categoryId: string) => void;
+  onMerge: (category: CategoryListItemDTO) => void;
   onDelete: (category: CategoryListItemDTO) => void;
 }
 
 /**
  * Display mode component for a single category
- * Shows category name, item count, and action buttons
+ * Shows category name, item counts (direct and including subcategories), and action buttons
  */
-export default function CategoryRow({ category, onEdit, onDelete }: CategoryRowProps) {
+export default function CategoryRow({ category, onEdit, onMerge, onDelete }: CategoryRowProps) {
   const itemCountText = category.itemCount === 1 ? '1 item' : `${category.itemCount} items`;
+  const subcategoryCount = category.children.length;
+  const subcategoryText = subcategoryCount === 1 ? '1 subcategory' : `${subcategoryCount} subcategories`;
 
   return (
     <div className="bg-card border rounded-md p-4 flex items-center justify-between hover:bg-accent/50 transition-colors group">
@@ -25,6 +28,16 @@ export default function CategoryRow({ category, onEdit, onDelete }: CategoryRowP
           <Badge variant="secondary" className="text-xs">
             {itemCountText}
           </Badge>
+          {subcategoryCount > 0 && (
+            <>
+              <Badge variant="outline" className="text-xs">
+                {subcategoryText}
+              </Badge>
+              <Badge variant="outline" className="text-xs">
+                {category.totalItemCount} in total
+              </Badge>
+            </>
+          )}
         </div>
       </div>
 
@@ -39,6 +52,15 @@ export default function CategoryRow({ category, onEdit, onDelete }: CategoryRowP
         >
           <Edit className="h-4 w-4" />
         </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onMerge(category)}
+          aria-label={`Merge ${category.name} into another category`}
+          className="h-9 w-9 opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100"
+        >
+          <Merge className="h-4 w-4" />
+        </Button>
         <Button
           variant="ghost"
           size="icon"
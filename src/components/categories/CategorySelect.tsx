@@ -0,0 +1,48 @@
+export interface CategoryOption {
+  id: string;
+  name: string;
+  depth: number;
+}
+
+interface CategorySelectProps {
+  id: string;
+  value: string | null;
+  options: CategoryOption[];
+  onChange: (categoryId: string | null) => void;
+  emptyLabel: string;
+  ariaLabel: string;
+  disabled?: boolean;
+}
+
+/**
+ * Select for picking a category (e.g. a parent or a merge target)
+ * Lists categories in tree order, indented by depth; the empty option maps to null
+ */
+export default function CategorySelect({
+  id,
+  value,
+  options,
+  onChange,
+  emptyLabel,
+  ariaLabel,
+  disabled,
+}: CategorySelectProps) {
+  return (
+    <select
+      id={id}
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      disabled={disabled}
+      aria-label={ariaLabel}
+      className="border-input h-9 w-full rounded-md border bg-transparent px-3 text-sm"
+    >
+      <option value="">{emptyLabel}</option>
+      {options.map((option) => (
+        <option key={option.id} value={option.id}>
+          {'\u00A0\u00A0'.repeat(option.depth)}
+          {option.name}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import CategorySelect from './CategorySelect';
+import type { CategoryOption } from './CategorySelect';
+import type { CategoryListItemDTO, DeleteCategoryCommand } from '@/types';
+
+interface DeleteConfirmationModalProps {
+  category: CategoryListItemDTO;
+  targetOptions: CategoryOption[];
+  onConfirm: (categoryId: string, reassignTo?: DeleteCategoryCommand['reassignTo']) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Confirmation dialog for deleting a category
+ * Shows the item count and lets the user pick where the items go;
+ * categories with subcategories cannot be deleted
+ */
+export default function DeleteConfirmationModal({
+  category,
+  targetOptions,
+  onConfirm,
+  onCancel,
+}: DeleteConfirmationModalProps) {
+  const [reassignTo, setReassignTo] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const itemCountText = category.itemCount === 1 ? '1 item' : `${category.itemCount} items`;
+  const subcategoryCount = category.children.length;
+  const subcategoryText = subcategoryCount === 1 ? '1 subcategory' : `${subcategoryCount} subcategories`;
+  const hasItems = category.itemCount > 0;
+
+  // Offer the "Uncategorized" fallback unless such a category already exists
+  const hasUncategorized = targetOptions.some((option) => option.name.toLowerCase() === 'uncategorized');
+  const options: CategoryOption[] = hasUncategorized
+    ? targetOptions
+    : [{ id: 'uncategorized', name: 'Uncategorized (new)', depth: 0 }, ...targetOptions];
+
+  const canDelete = subcategoryCount === 0 && (!hasItems || reassignTo !== null) && !isDeleting;
+
+  /**
+   * Handle delete confirmation
+   */
+  const handleConfirm = async () => {
+    setIsDeleting(true);
+    try {
+      await onConfirm(category.id, hasItems ? (reassignTo ?? undefined) : undefined);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card p-6 rounded-lg max-w-md w-full space-y-4">
+        <h2 className="text-xl font-bold">Delete Category</h2>
+
+        {subcategoryCount > 0 ? (
+          <p className="text-sm">
+            {category.name} contains {subcategoryText}. Move or delete them before deleting this category.
+          </p>
+        ) : hasItems ? (
+          <>
+            <p className="text-sm">
+              {category.name} contains {itemCountText}. Choose the category to move{' '}
+              {category.itemCount === 1 ? 'it' : 'them'} to before deleting.
+            </p>
+            <CategorySelect
+              id="delete-reassign-to"
+              value={reassignTo}
+              options={options}
+              onChange={setReassignTo}
+              emptyLabel="Select a category"
+              ariaLabel="Move items to"
+              disabled={isDeleting}
+            />
+          </>
+        ) : (
+          <p className="text-sm">Delete {category.name}? It contains no items. This cannot be undone.</p>
+        )}
+
+        <div className="flex gap-2 justify-end">
+          <Button onClick={onCancel} variant="outline" disabled={isDeleting}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} variant="destructive" disabled={!canDelete}>
+            {isDeleting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Deleting...
+              </>
+            ) : hasItems ? (
+              'Move Items and Delete'
+            ) : (
+              'Delete'
+            )}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
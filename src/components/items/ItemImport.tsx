@@ -0,0 +1,310 @@
+import { useState } from 'react';
+import { CheckCircle2, FileUp, Loader2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { parseCsv, type CsvTable } from '@/lib/csv';
+import type { ErrorResponseDTO, ImportItemsCommand, ImportItemsReportDTO, ItemImportField } from '@/types';
+
+type ImportMapping = Record<ItemImportField, string>;
+
+interface ImportFieldOption {
+  field: ItemImportField;
+  label: string;
+  required: boolean;
+  aliases: string[];
+}
+
+/**
+ * Item fields offered for mapping, with header names guessed automatically
+ */
+const IMPORT_FIELDS: ImportFieldOption[] = [
+  { field: 'name', label: 'Name', required: true, aliases: ['name', 'item', 'item name', 'title'] },
+  { field: 'category', label: 'Category', required: true, aliases: ['category', 'category name', 'type'] },
+  {
+    field: 'container',
+    label: 'Container',
+    required: true,
+    aliases: ['container', 'container name', 'box', 'location'],
+  },
+  { field: 'description', label: 'Description', required: false, aliases: ['description', 'notes', 'note'] },
+  { field: 'quantity', label: 'Quantity', required: false, aliases: ['quantity', 'qty', 'count', 'amount'] },
+  { field: 'status', label: 'Status (in/out)', required: false, aliases: ['status', 'is in', 'in', 'is_in'] },
+  { field: 'barcode', label: 'Barcode', required: false, aliases: ['barcode', 'upc', 'ean', 'gtin'] },
+];
+
+const PREVIEW_ROWS = 5;
+
+/**
+ * Picks the first header matching one of the field's aliases
+ */
+function guessMapping(headers: string[]): ImportMapping {
+  const mapping = {} as ImportMapping;
+  for (const { field, aliases } of IMPORT_FIELDS) {
+    mapping[field] = headers.find((header) => aliases.includes(header.toLowerCase())) ?? '';
+  }
+  return mapping;
+}
+
+/**
+ * CSV import page: file selection, column mapping, dry run and import
+ * The import button is only enabled after a clean dry run of the current file and mapping
+ */
+export default function ItemImport() {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState('');
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>(guessMapping([]));
+  const [report, setReport] = useState<ImportItemsReportDTO | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  /**
+   * Read and parse the selected file
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setReport(null);
+
+    if (!file) {
+      return;
+    }
+
+    try {
+      const text = await file.text();
+      const parsed = parseCsv(text);
+      setFileName(file.name);
+      setCsv(text);
+      setTable(parsed);
+      setMapping(guessMapping(parsed.headers));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to read file';
+      toast.error(errorMessage);
+      setFileName(null);
+      setCsv('');
+      setTable(null);
+    }
+  };
+
+  /**
+   * Handle mapping change; any change requires a new dry run
+   */
+  const handleMappingChange = (field: ItemImportField, header: string) => {
+    setMapping((current) => ({ ...current, [field]: header }));
+    setReport(null);
+  };
+
+  /**
+   * Send the file to the import endpoint
+   */
+  const submit = async (dryRun: boolean) => {
+    const command: ImportItemsCommand = {
+      csv,
+      mapping: Object.fromEntries(Object.entries(mapping).filter(([, header]) => header !== '')),
+      dryRun,
+    };
+
+    const response = await fetch('/api/items/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(command),
+    });
+
+    // Handle authentication errors
+    if (response.status === 401) {
+      window.location.href = '/login?returnTo=/items/import';
+      return null;
+    }
+
+    if (!response.ok) {
+      const errorData: ErrorResponseDTO = await response.json();
+      const details = errorData.error.details;
+      if (details && details.length > 0) {
+        // Show the rejected rows like a failed dry run
+        setReport((current) => (current ? { ...current, errors: details } : current));
+      }
+      throw new Error(errorData.error.message);
+    }
+
+    const data: ImportItemsReportDTO = await response.json();
+    return data;
+  };
+
+  /**
+   * Handle "Check" button: dry run
+   */
+  const handleCheck = async () => {
+    setIsChecking(true);
+    try {
+      const data = await submit(true);
+      if (data) {
+        setReport(data);
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to check file';
+      toast.error(errorMessage);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  /**
+   * Handle "Import" button: all-or-nothing import
+   */
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const data = await submit(false);
+      if (data) {
+        setReport(data);
+        toast.success(`Imported ${data.importedItems} items`);
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to import items';
+      toast.error(errorMessage);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const isBusy = isChecking || isImporting;
+  const isMappingComplete = IMPORT_FIELDS.every(({ field, required }) => !required || mapping[field] !== '');
+  const canImport = report !== null && report.dryRun && report.errors.length === 0 && !isBusy;
+  const isImported = report !== null && !report.dryRun;
+
+  return (
+    <div className="container mx-auto p-6 max-w-4xl space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Import Items</h1>
+        <p className="text-muted-foreground">
+          Upload a CSV file with a header row. Missing categories and containers are created by name.
+        </p>
+      </div>
+
+      {/* File Selection */}
+      <div className="space-y-2">
+        <Label htmlFor="import-file">CSV file</Label>
+        <Input id="import-file" type="file" accept=".csv,text/csv" onChange={handleFileChange} disabled={isBusy} />
+        {table && (
+          <p className="text-sm text-muted-foreground">
+            {fileName}: {table.headers.length} columns, {table.rows.length} rows
+          </p>
+        )}
+      </div>
+
+      {table && (
+        <>
+          {/* Column Mapping */}
+          <div className="space-y-3">
+            <h2 className="text-lg font-semibold">Columns</h2>
+            <div className="grid gap-3 sm:grid-cols-2">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`mapping-${field}`}>
+                    {label}
+                    {required && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <select
+                    id={`mapping-${field}`}
+                    value={mapping[field]}
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                    disabled={isBusy}
+                    className="border-input h-9 w-full rounded-md border bg-transparent px-3 text-sm"
+                  >
+                    <option value="">{required ? 'Select a column' : 'Not imported'}</option>
+                    {table.headers.map((header, index) => (
+                      <option key={index} value={header}>
+                        {header}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="space-y-2">
+            <h2 className="text-lg font-semibold">Preview</h2>
+            <div className="overflow-x-auto rounded-md border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    {table.headers.map((header, index) => (
+                      <th key={index} className="px-3 py-2 text-left font-medium">
+                        {header}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {table.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                    <tr key={rowIndex} className="border-t">
+                      {row.map((value, index) => (
+                        <td key={index} className="px-3 py-2 truncate max-w-48">
+                          {value}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center gap-2">
+            <Button onClick={handleCheck} disabled={!isMappingComplete || isBusy} variant="outline">
+              {isChecking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileUp className="mr-2 h-4 w-4" />}
+              Check
+            </Button>
+            <Button onClick={handleImport} disabled={!canImport}>
+              {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Import {report?.dryRun ? report.validRows : ''} items
+            </Button>
+          </div>
+        </>
+      )}
+
+      {/* Report */}
+      {report && (
+        <div className="rounded-md border p-4 space-y-3">
+          {isImported ? (
+            <p className="flex items-center gap-2 font-medium">
+              <CheckCircle2 className="h-5 w-5 text-green-600" />
+              Imported {report.importedItems} items
+            </p>
+          ) : (
+            <p className="font-medium">
+              {report.validRows} of {report.totalRows} rows are valid
+              {report.errors.length > 0 && ', fix the errors below and check again'}
+            </p>
+          )}
+
+          {report.newCategories.length > 0 && (
+            <p className="text-sm">
+              {isImported ? 'Created' : 'New'} categories: {report.newCategories.join(', ')}
+            </p>
+          )}
+          {report.newContainers.length > 0 && (
+            <p className="text-sm">
+              {isImported ? 'Created' : 'New'} containers: {report.newContainers.join(', ')}
+            </p>
+          )}
+
+          {report.errors.length > 0 && (
+            <ul className="space-y-1 text-sm text-destructive" role="alert">
+              {report.errors.map((error, index) => (
+                <li key={index}>
+                  <span className="font-mono">{error.field}</span>: {error.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
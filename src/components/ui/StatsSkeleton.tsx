@@ -2,8 +2,8 @@ import { Skeleton } from "./skeleton";
 
 export function StatsSkeleton() {
   return (
-    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
-      {[1, 2, 3, 4].map((i) => (
+    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-5">
+      {[1, 2, 3, 4, 5].map((i) => (
         <div
           key={i}
           className="rounded-lg border bg-card p-6 shadow-sm"
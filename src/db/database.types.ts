@@ -20,11 +20,54 @@ export interface Database {
   };
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          action: string;
+          actor_id: string | null;
+          changes: Json;
+          created_at: string;
+          entity_id: string;
+          entity_type: string;
+          id: string;
+          user_id: string;
+        };
+        Insert: {
+          action: string;
+          actor_id?: string | null;
+          changes?: Json;
+          created_at?: string;
+          entity_id: string;
+          entity_type: string;
+          id?: string;
+          user_id: string;
+        };
+        Update: {
+          action?: string;
+          actor_id?: string | null;
+          changes?: Json;
+          created_at?: string;
+          entity_id?: string;
+          entity_type?: string;
+          id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       categories: {
         Row: {
           created_at: string;
           id: string;
           name: string;
+          parent_id: string | null;
+          search_vector: unknown | null;
           updated_at: string;
           user_id: string;
         };
@@ -32,6 +75,8 @@ export interface Database {
           created_at?: string;
           id?: string;
           name: string;
+          parent_id?: string | null;
+          search_vector?: never;
           updated_at?: string;
           user_id: string;
         };
@@ -39,10 +84,19 @@ export interface Database {
           created_at?: string;
           id?: string;
           name?: string;
+          parent_id?: string | null;
+          search_vector?: never;
           updated_at?: string;
           user_id?: string;
         };
         Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey";
+            columns: ["parent_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id"];
+          },
           {
             foreignKeyName: "categories_user_id_fkey";
             columns: ["user_id"];
@@ -58,6 +112,10 @@ export interface Database {
           description: string | null;
           id: string;
           name: string;
+          parent_id: string | null;
+          room_id: string | null;
+          search_vector: unknown | null;
+          short_code: string;
           updated_at: string;
           user_id: string;
         };
@@ -66,6 +124,10 @@ export interface Database {
           description?: string | null;
           id?: string;
           name: string;
+          parent_id?: string | null;
+          room_id?: string | null;
+          search_vector?: never;
+          short_code?: string;
           updated_at?: string;
           user_id: string;
         };
@@ -74,10 +136,28 @@ export interface Database {
           description?: string | null;
           id?: string;
           name?: string;
+          parent_id?: string | null;
+          room_id?: string | null;
+          search_vector?: never;
+          short_code?: string;
           updated_at?: string;
           user_id?: string;
         };
         Relationships: [
+          {
+            foreignKeyName: "containers_parent_id_fkey";
+            columns: ["parent_id"];
+            isOneToOne: false;
+            referencedRelation: "containers";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "containers_room_id_fkey";
+            columns: ["room_id"];
+            isOneToOne: false;
+            referencedRelation: "rooms";
+            referencedColumns: ["id"];
+          },
           {
             foreignKeyName: "containers_user_id_fkey";
             columns: ["user_id"];
@@ -128,8 +208,177 @@ export interface Database {
           },
         ];
       };
+      item_loans: {
+        Row: {
+          borrower: string | null;
+          checked_in_at: string | null;
+          checked_out_at: string;
+          created_at: string;
+          due_date: string | null;
+          id: string;
+          item_id: string;
+          note: string | null;
+          return_note: string | null;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          borrower?: string | null;
+          checked_in_at?: string | null;
+          checked_out_at?: string;
+          created_at?: string;
+          due_date?: string | null;
+          id?: string;
+          item_id: string;
+          note?: string | null;
+          return_note?: string | null;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          borrower?: string | null;
+          checked_in_at?: string | null;
+          checked_out_at?: string;
+          created_at?: string;
+          due_date?: string | null;
+          id?: string;
+          item_id?: string;
+          note?: string | null;
+          return_note?: string | null;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "item_loans_item_id_fkey";
+            columns: ["item_id"];
+            isOneToOne: false;
+            referencedRelation: "items";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "item_loans_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      item_movements: {
+        Row: {
+          created_at: string;
+          from_container_id: string | null;
+          from_container_name: string;
+          id: string;
+          item_id: string;
+          moved_at: string;
+          reason: string | null;
+          to_container_id: string | null;
+          to_container_name: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          from_container_id?: string | null;
+          from_container_name: string;
+          id?: string;
+          item_id: string;
+          moved_at?: string;
+          reason?: string | null;
+          to_container_id?: string | null;
+          to_container_name: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          from_container_id?: string | null;
+          from_container_name?: string;
+          id?: string;
+          item_id?: string;
+          moved_at?: string;
+          reason?: string | null;
+          to_container_id?: string | null;
+          to_container_name?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "item_movements_from_container_id_fkey";
+            columns: ["from_container_id"];
+            isOneToOne: false;
+            referencedRelation: "containers";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "item_movements_item_id_fkey";
+            columns: ["item_id"];
+            isOneToOne: false;
+            referencedRelation: "items";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "item_movements_to_container_id_fkey";
+            columns: ["to_container_id"];
+            isOneToOne: false;
+            referencedRelation: "containers";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "item_movements_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      item_tags: {
+        Row: {
+          created_at: string;
+          item_id: string;
+          tag_id: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          item_id: string;
+          tag_id: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          item_id?: string;
+          tag_id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "item_tags_item_id_fkey";
+            columns: ["item_id"];
+            isOneToOne: false;
+            referencedRelation: "items";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "item_tags_tag_id_fkey";
+            columns: ["tag_id"];
+            isOneToOne: false;
+            referencedRelation: "tags";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "item_tags_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       items: {
         Row: {
+          barcode: string | null;
           category_id: string;
           container_id: string;
           created_at: string;
@@ -138,10 +387,13 @@ export interface Database {
           is_in: boolean;
           name: string;
           quantity: number | null;
+          search_vector: unknown | null;
+          short_code: string;
           updated_at: string;
           user_id: string;
         };
         Insert: {
+          barcode?: string | null;
           category_id: string;
           container_id: string;
           created_at?: string;
@@ -150,10 +402,13 @@ export interface Database {
           is_in?: boolean;
           name: string;
           quantity?: number | null;
+          search_vector?: never;
+          short_code?: string;
           updated_at?: string;
           user_id: string;
         };
         Update: {
+          barcode?: string | null;
           category_id?: string;
           container_id?: string;
           created_at?: string;
@@ -162,6 +417,8 @@ export interface Database {
           is_in?: boolean;
           name?: string;
           quantity?: number | null;
+          search_vector?: never;
+          short_code?: string;
           updated_at?: string;
           user_id?: string;
         };
@@ -207,9 +464,310 @@ export interface Database {
         };
         Relationships: [];
       };
+      rooms: {
+        Row: {
+          created_at: string;
+          id: string;
+          name: string;
+          site_id: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          name: string;
+          site_id: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          name?: string;
+          site_id?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "rooms_site_id_fkey";
+            columns: ["site_id"];
+            isOneToOne: false;
+            referencedRelation: "sites";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "rooms_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      sites: {
+        Row: {
+          created_at: string;
+          id: string;
+          name: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          name: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          name?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "sites_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      tags: {
+        Row: {
+          created_at: string;
+          id: string;
+          name: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          name: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          name?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "tags_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
     };
     Views: Record<never, never>;
-    Functions: Record<never, never>;
+    Functions: {
+      checkin_item: {
+        Args: { p_item_id: string; p_note?: string | null };
+        Returns: {
+          borrower: string | null;
+          checked_in_at: string | null;
+          checked_out_at: string;
+          created_at: string;
+          due_date: string | null;
+          id: string;
+          item_id: string;
+          note: string | null;
+          return_note: string | null;
+          updated_at: string;
+          user_id: string;
+        };
+      };
+      checkout_item: {
+        Args: {
+          p_borrower?: string | null;
+          p_due_date?: string | null;
+          p_item_id: string;
+          p_note?: string | null;
+        };
+        Returns: {
+          borrower: string | null;
+          checked_in_at: string | null;
+          checked_out_at: string;
+          created_at: string;
+          due_date: string | null;
+          id: string;
+          item_id: string;
+          note: string | null;
+          return_note: string | null;
+          updated_at: string;
+          user_id: string;
+        };
+      };
+      create_item: {
+        Args: { p_item: Json; p_tag_ids?: string[] };
+        Returns: {
+          barcode: string | null;
+          category_id: string;
+          container_id: string;
+          created_at: string;
+          description: string | null;
+          id: string;
+          is_in: boolean;
+          name: string;
+          quantity: number | null;
+          search_vector: unknown | null;
+          short_code: string;
+          updated_at: string;
+          user_id: string;
+        };
+        SetofOptions: {
+          from: "*";
+          to: "items";
+          isOneToOne: true;
+          isSetofReturn: false;
+        };
+      };
+      delete_category: {
+        Args: {
+          p_category_id: string;
+          p_reassign_to?: string | null;
+          p_use_fallback?: boolean;
+        };
+        Returns: {
+          moved_item_count: number;
+          target_id: string | null;
+        }[];
+      };
+      filter_items: {
+        Args: {
+          p_match_all_tags?: boolean;
+          p_room_ids?: string[] | null;
+          p_search?: string | null;
+          p_site_ids?: string[] | null;
+          p_tag_ids?: string[] | null;
+        };
+        Returns: {
+          barcode: string | null;
+          category_id: string;
+          container_id: string;
+          created_at: string;
+          description: string | null;
+          id: string;
+          is_in: boolean;
+          name: string;
+          quantity: number | null;
+          search_vector: unknown | null;
+          short_code: string;
+          updated_at: string;
+          user_id: string;
+        }[];
+        SetofOptions: {
+          from: "*";
+          to: "items";
+          isOneToOne: false;
+          isSetofReturn: true;
+        };
+      };
+      generate_short_code: {
+        Args: Record<PropertyKey, never>;
+        Returns: string;
+      };
+      get_container_summaries: {
+        Args: { p_container_ids: string[] };
+        Returns: {
+          container_id: string;
+          item_count: number;
+          path_ids: string[];
+          path_names: string[];
+          room_id: string | null;
+          room_name: string | null;
+          site_id: string | null;
+          site_name: string | null;
+          total_item_count: number;
+        }[];
+      };
+      get_site_stats: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          items_out: number;
+          site_id: string | null;
+          site_name: string | null;
+          total_containers: number;
+          total_items: number;
+        }[];
+      };
+      import_items: {
+        Args: { p_rows: Json };
+        Returns: number;
+      };
+      list_image_storage_paths: {
+        Args: Record<PropertyKey, never>;
+        Returns: string[];
+      };
+      merge_categories: {
+        Args: { p_source_id: string; p_target_id: string };
+        Returns: number;
+      };
+      reorder_images: {
+        Args: {
+          p_entity_id: string;
+          p_entity_type: Database["public"]["Enums"]["entity_type_enum"];
+          p_image_ids: string[];
+        };
+        Returns: {
+          created_at: string;
+          display_order: number;
+          entity_id: string;
+          entity_type: Database["public"]["Enums"]["entity_type_enum"];
+          id: string;
+          storage_path: string;
+          updated_at: string;
+          user_id: string;
+        }[];
+      };
+      restore_inventory: {
+        Args: { p_inventory: Json };
+        Returns: Json;
+      };
+      search_inventory: {
+        Args: { p_query: string; p_limit?: number };
+        Returns: {
+          entity_id: string;
+          entity_type: string;
+          name: string;
+          name_highlight: string;
+          rank: number;
+          snippet: string | null;
+        }[];
+      };
+      suggest_inventory: {
+        Args: { p_query: string; p_limit?: number };
+        Returns: {
+          container_id: string | null;
+          container_name: string | null;
+          entity_id: string;
+          entity_type: string;
+          name: string;
+          score: number;
+        }[];
+      };
+      update_item: {
+        Args: {
+          p_changes: Json;
+          p_item_id: string;
+          p_move_reason?: string | null;
+          p_tag_ids?: string[] | null;
+        };
+        Returns: undefined;
+      };
+    };
     Enums: {
       entity_type_enum: "item" | "container";
     };
@@ -4,7 +4,10 @@ import type {
   CategoryListResponseDTO,
   CreateCategoryCommand,
   UpdateCategoryCommand,
-  DeleteResponseDTO,
+  DeleteCategoryCommand,
+  DeleteCategoryResponseDTO,
+  MergeCategoryCommand,
+  MergeCategoryResponseDTO,
   ErrorResponseDTO,
 } from '@/types';
 
@@ -15,7 +18,8 @@ interface UseCategoriesReturn {
   fetchCategories: () => Promise<void>;
   createCategory: (command: CreateCategoryCommand) => Promise<CategoryListItemDTO>;
   updateCategory: (id: string, command: UpdateCategoryCommand) => Promise<CategoryListItemDTO>;
-  deleteCategory: (id: string) => Promise<void>;
+  deleteCategory: (id: string, command?: DeleteCategoryCommand) => Promise<DeleteCategoryResponseDTO>;
+  mergeCategory: (id: string, command: MergeCategoryCommand) => Promise<MergeCategoryResponseDTO>;
   refreshCategories: () => Promise<void>;
 }
 
@@ -32,12 +36,12 @@ export function useCategories(initialCategories?: CategoryListItemDTO[]): UseCat
   const [error, setError] = useState<string | null>(null);
 
   /**
-   * Sort categories alphabetically by name (case-insensitive)
+   * Sort categories and their subcategories alphabetically by name (case-insensitive)
    */
-  const sortCategories = (cats: CategoryListItemDTO[]) => {
-    return cats.sort((a, b) => 
-      a.name.localeCompare(b.name, undefined, { sensitivity: 'base' })
-    );
+  const sortCategories = (cats: CategoryListItemDTO[]): CategoryListItemDTO[] => {
+    return cats
+      .map((cat) => ({ ...cat, children: sortCategories(cat.children) }))
+      .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
   };
 
   /**
@@ -173,13 +177,18 @@ export function useCategories(initialCategories?: CategoryListItemDTO[]): UseCat
   };
 
   /**
-   * Delete a category
+   * Delete a category, optionally moving its items to another category
    */
-  const deleteCategory = async (id: string): Promise<void> => {
+  const deleteCategory = async (
+    id: string,
+    command: DeleteCategoryCommand = {}
+  ): Promise<DeleteCategoryResponseDTO> => {
     setError(null);
 
     try {
-      const response = await fetch(`/api/categories/${id}`, {
+      const query = command.reassignTo ? `?${new URLSearchParams({ reassignTo: command.reassignTo })}` : '';
+
+      const response = await fetch(`/api/categories/${id}${query}`, {
         method: 'DELETE',
         headers: { 'Content-Type': 'application/json' }
       });
@@ -192,11 +201,15 @@ export function useCategories(initialCategories?: CategoryListItemDTO[]): UseCat
 
       if (!response.ok) {
         const errorData: ErrorResponseDTO = await response.json();
-        throw new Error(errorData.error.message);
+        throw new Error(errorData.error.details?.[0]?.message ?? errorData.error.message);
       }
 
+      const result: DeleteCategoryResponseDTO = await response.json();
+
       // Refresh categories list after successful deletion
       await refreshCategories();
+
+      return result;
     } catch (err) {
       const errorMessage = err instanceof TypeError 
         ? 'Network error. Please check your connection and try again.'
@@ -209,6 +222,51 @@ export function useCategories(initialCategories?: CategoryListItemDTO[]): UseCat
     }
   };
 
+  /**
+   * Merge a category into another one
+   */
+  const mergeCategory = async (
+    id: string,
+    command: MergeCategoryCommand
+  ): Promise<MergeCategoryResponseDTO> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/categories/${id}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(command)
+      });
+
+      // Handle authentication errors
+      if (response.status === 401) {
+        window.location.href = '/login';
+        throw new Error('Unauthorized');
+      }
+
+      if (!response.ok) {
+        const errorData: ErrorResponseDTO = await response.json();
+        throw new Error(errorData.error.details?.[0]?.message ?? errorData.error.message);
+      }
+
+      const result: MergeCategoryResponseDTO = await response.json();
+      
+      // Refresh categories list after successful merge
+      await refreshCategories();
+      
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof TypeError 
+        ? 'Network error. Please check your connection and try again.'
+        : err instanceof Error 
+        ? err.message 
+        : 'An unexpected error occurred';
+      
+      console.error('Failed to merge category:', err);
+      throw new Error(errorMessage);
+    }
+  };
+
   /**
    * Refresh the categories list (alias for fetchCategories)
    */
@@ -231,6 +289,7 @@ export function useCategories(initialCategories?: CategoryListItemDTO[]): UseCat
     createCategory,
     updateCategory,
     deleteCategory,
+    mergeCategory,
     refreshCategories,
   };
 }
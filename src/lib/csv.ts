@@ -0,0 +1,176 @@
+/**
+ * Minimal CSV reader and writer (RFC 4180) shared by import and export
+ *
+ * Supports quoted fields with embedded delimiters, quotes ("") and line
+ * breaks, CRLF/LF line endings and a leading byte order mark.
+ */
+
+/**
+ * Leading characters that make spreadsheet applications evaluate a cell
+ * as a formula (CSV injection)
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Parsed CSV file: header row and data rows
+ */
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Guesses the delimiter from the header line
+ *
+ * Spreadsheets in many European locales export with semicolons, so the
+ * more frequent of "," and ";" outside quotes wins (comma on a tie)
+ *
+ * @param text - CSV text
+ * @returns Delimiter character
+ */
+export function detectCsvDelimiter(text: string): ',' | ';' {
+  let commas = 0;
+  let semicolons = 0;
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && char === ',') {
+      commas++;
+    } else if (!inQuotes && char === ';') {
+      semicolons++;
+    }
+  }
+
+  return semicolons > commas ? ';' : ',';
+}
+
+/**
+ * Splits CSV text into records of fields
+ *
+ * Blank lines are skipped. Fields are returned as written (not trimmed).
+ *
+ * @param text - CSV text
+ * @param delimiter - Field delimiter, detected from the header line if omitted
+ * @returns Records in file order
+ * @throws {Error} If a quoted field is not closed
+ */
+export function parseCsvRecords(text: string, delimiter: string = detectCsvDelimiter(text)): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRecord = () => {
+    record.push(field);
+    // Skip blank lines (a single empty field)
+    if (record.length > 1 || record[0] !== '') {
+      records.push(record);
+    }
+    record = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('CSV contains an unclosed quoted field');
+  }
+
+  if (field !== '' || record.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+/**
+ * Parses CSV text whose first record is the header row
+ *
+ * Header names are trimmed. Data rows are padded or cut to the header width.
+ * The single quote formatCsvRow puts before formula-like values is removed.
+ *
+ * @param text - CSV text
+ * @returns Headers and data rows
+ * @throws {Error} If the file is empty or a quoted field is not closed
+ */
+export function parseCsv(text: string): CsvTable {
+  const [headerRecord, ...dataRecords] = parseCsvRecords(text);
+
+  if (!headerRecord) {
+    throw new Error('CSV file is empty');
+  }
+
+  const headers = headerRecord.map((header) => header.trim());
+
+  return {
+    headers,
+    rows: dataRecords.map((record) =>
+      headers.map((_, index) => {
+        const field = record[index] ?? '';
+        return field.startsWith("'") && FORMULA_PREFIX.test(field.slice(1)) ? field.slice(1) : field;
+      })
+    ),
+  };
+}
+
+/**
+ * Byte order mark written at the start of exported files, so spreadsheet
+ * applications detect UTF-8
+ */
+export const CSV_BOM = '\uFEFF';
+
+/**
+ * Formats one CSV record, terminated by CRLF
+ *
+ * Fields containing the delimiter, quotes, line breaks or surrounding
+ * whitespace are quoted. null and undefined are written as empty fields.
+ * Text starting with =, +, -, @, tab or CR gets a leading single quote,
+ * so spreadsheet applications show it as text instead of running it as
+ * a formula (parseCsv removes the quote again).
+ *
+ * @param values - Field values in column order
+ * @param delimiter - Field delimiter
+ * @returns CSV line
+ */
+export function formatCsvRow(values: (string | number | boolean | null | undefined)[], delimiter = ','): string {
+  return (
+    values
+      .map((value) => {
+        const text = value === null || value === undefined ? '' : String(value);
+        const field = typeof value === 'string' && FORMULA_PREFIX.test(text) ? `'${text}` : text;
+        const needsQuotes = field.includes(delimiter) || /["\r\n]/.test(field) || field.trim() !== field;
+        return needsQuotes ? `"${field.replace(/"/g, '""')}"` : field;
+      })
+      .join(delimiter) + '\r\n'
+  );
+}
@@ -0,0 +1,115 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../db/database.types';
+import type {
+  ActivityAction,
+  ActivityChangeDTO,
+  ActivityEntityType,
+  ActivityEntryDTO,
+  ActivityListResponseDTO,
+  AuditLogEntry,
+} from '../../types';
+
+/**
+ * Filters for the activity feed
+ * from/to are inclusive days (YYYY-MM-DD, UTC)
+ */
+export interface ActivityFilters {
+  page: number;
+  limit: number;
+  entity?: ActivityEntityType;
+  entityId?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Returns the day after a YYYY-MM-DD date as YYYY-MM-DD
+ */
+function nextDay(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
+/**
+ * Maps an audit_log row to ActivityEntryDTO
+ */
+function toActivityDTO(entry: AuditLogEntry): ActivityEntryDTO {
+  return {
+    id: entry.id,
+    entityType: entry.entity_type as ActivityEntityType,
+    entityId: entry.entity_id,
+    action: entry.action as ActivityAction,
+    actorId: entry.actor_id,
+    changes: entry.changes as unknown as Record<string, ActivityChangeDTO>,
+    createdAt: entry.created_at,
+  };
+}
+
+/**
+ * Service layer for the activity feed
+ *
+ * Entries are written by the record_audit_log trigger on items, containers,
+ * categories and images; this service only reads them.
+ */
+export class ActivityService {
+  /**
+   * Lists audit log entries of the user's data, newest first
+   *
+   * Business Rules:
+   * - Scoped to the authenticated user
+   * - Optional filters on entity type, entity ID and date range
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param filters - Pagination, entity and date filters
+   * @returns Paginated entries as ActivityListResponseDTO
+   * @throws {Error} If database operation fails
+   */
+  static async listActivity(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    filters: ActivityFilters
+  ): Promise<ActivityListResponseDTO> {
+    const from = (filters.page - 1) * filters.limit;
+
+    let query = supabase.from('audit_log').select('*', { count: 'exact' }).eq('user_id', userId);
+
+    if (filters.entity) {
+      query = query.eq('entity_type', filters.entity);
+    }
+
+    if (filters.entityId) {
+      query = query.eq('entity_id', filters.entityId);
+    }
+
+    if (filters.from) {
+      query = query.gte('created_at', `${filters.from}T00:00:00Z`);
+    }
+
+    if (filters.to) {
+      query = query.lt('created_at', `${nextDay(filters.to)}T00:00:00Z`);
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: true }) // Stable ordering across pages
+      .range(from, from + filters.limit - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    const total = count ?? 0;
+
+    return {
+      data: data.map(toActivityDTO),
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit),
+      },
+    };
+  }
+}
@@ -0,0 +1,269 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Zip, ZipDeflate, ZipPassThrough, unzipSync } from 'fflate';
+import type { Database, Json } from '../../db/database.types';
+import type { RestoreBackupCommand, RestoreReportDTO } from '../../types';
+import { ALLOWED_IMAGE_TYPES } from '../validation/image.schema';
+import { MAX_BACKUP_EXTRACTED_BYTES, inventoryBackupSchema } from '../validation/backup.schema';
+import { ExportService, toByteStream } from './export.service';
+import { IMAGES_BUCKET, ImageService } from './image.service';
+import { readKeysetPages } from './query-helpers';
+
+/**
+ * Name of the JSON document (InventoryExportDTO) inside a backup archive
+ */
+const BACKUP_MANIFEST_FILE = 'inventory.json';
+
+/**
+ * Images read per query while writing the archive
+ */
+const BACKUP_PAGE_SIZE = 100;
+
+/**
+ * New IDs of restored entities, keyed by entity type and backup ID
+ */
+type RestoredIdMap = Record<'container' | 'item', Record<string, string>>;
+
+/**
+ * Archive path of an image file: the storage path without the user folder,
+ * so archives do not depend on the account they were created from
+ *
+ * Example: user/item/entity/image.jpg -> images/item/entity/image.jpg
+ */
+function toArchivePath(storagePath: string): string {
+  return `images/${storagePath.split('/').slice(1).join('/')}`;
+}
+
+/**
+ * Sums the decompressed sizes of inventory.json and the images as
+ * declared in the archive directory, without decompressing anything
+ * (decompression never writes past the declared size)
+ */
+function getExtractedSize(archive: Uint8Array): number {
+  let size = 0;
+
+  unzipSync(archive, {
+    filter: (file) => {
+      if (file.name === BACKUP_MANIFEST_FILE || file.name.startsWith('images/')) {
+        size += file.originalSize;
+      }
+      return false;
+    },
+  });
+
+  return size;
+}
+
+/**
+ * Decompresses a single entry of an archive
+ *
+ * @returns Entry contents, or undefined if the archive has no such entry
+ */
+function readArchiveEntry(archive: Uint8Array, name: string): Uint8Array | undefined {
+  return unzipSync(archive, { filter: (file) => file.name === name })[name];
+}
+
+/**
+ * Service layer for backup archives
+ *
+ * A backup is a zip archive with inventory.json (the JSON export without
+ * image URLs) and the original file of every image. Resized variants are
+ * not archived; they are generated again on restore.
+ */
+export class BackupService {
+  /**
+   * Streams a backup archive of all data of the user
+   *
+   * Business Rules:
+   * - inventory.json holds sites, rooms, categories, tags, containers,
+   *   items and image metadata (InventoryExportDTO)
+   * - Original image files are stored under images/ (uncompressed, they are
+   *   already compressed); files missing from storage are skipped
+   * - Loans, movements and the activity log are not included
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @returns Zip archive stream
+   * @throws {Error} If database operation fails before streaming starts
+   */
+  static async createBackup(supabase: SupabaseClient<Database>, userId: string): Promise<ReadableStream<Uint8Array>> {
+    const document = await ExportService.createInventoryDocument(supabase, userId, false);
+
+    const imagePages = readKeysetPages(BACKUP_PAGE_SIZE, (afterId) => {
+      const query = supabase.from('images').select('id, storage_path').eq('user_id', userId);
+
+      return (afterId ? query.gt('id', afterId) : query).order('id', { ascending: true }).limit(BACKUP_PAGE_SIZE);
+    });
+
+    async function* generateArchive(): AsyncGenerator<Uint8Array> {
+      // fflate calls back synchronously, so output is collected and handed on after every write
+      const output: Uint8Array[] = [];
+      let zipError: Error | null = null;
+      const zip = new Zip((error, data) => {
+        if (error) {
+          zipError = error;
+        } else {
+          output.push(data);
+        }
+      });
+
+      function* flush(): Generator<Uint8Array> {
+        if (zipError) {
+          throw zipError;
+        }
+        yield* output.splice(0);
+      }
+
+      // Step 1: Inventory document
+      const encoder = new TextEncoder();
+      const manifest = new ZipDeflate(BACKUP_MANIFEST_FILE, { level: 6 });
+      zip.add(manifest);
+      for await (const chunk of document) {
+        manifest.push(encoder.encode(chunk));
+        yield* flush();
+      }
+      manifest.push(new Uint8Array(0), true);
+      yield* flush();
+
+      // Step 2: Original image files
+      for await (const images of imagePages) {
+        for (const image of images) {
+          const { data, error } = await supabase.storage.from(IMAGES_BUCKET).download(image.storage_path);
+
+          if (error) {
+            console.error('Skipping image missing from storage:', {
+              path: image.storage_path,
+              error: error.message,
+            });
+            continue;
+          }
+
+          const file = new ZipPassThrough(toArchivePath(image.storage_path));
+          zip.add(file);
+          file.push(new Uint8Array(await data.arrayBuffer()), true);
+          yield* flush();
+        }
+      }
+
+      zip.end();
+      yield* flush();
+    }
+
+    return toByteStream(generateArchive());
+  }
+
+  /**
+   * Rebuilds the inventory of the user from a backup archive
+   *
+   * Business Rules:
+   * - The inventory must be empty (no sites, categories, tags or containers)
+   * - inventory.json and the images must not expand to more than 300MB
+   * - All entities get new IDs; references are remapped
+   * - Sites, rooms, categories, tags, containers and items (with their
+   *   tags) are restored in one transaction by the restore_inventory
+   *   database function
+   * - Images are then uploaded one by one (variants are generated again);
+   *   images that fail are reported and do not undo the restore
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param command - Uploaded archive
+   * @returns Number of restored entities and failed images
+   * @throws {ZodError} If inventory.json is invalid
+   * @throws {Error} If the file is not a backup archive, expands too much or the inventory is not empty (with descriptive message)
+   * @throws {Error} If database operation fails
+   */
+  static async restoreBackup(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    command: RestoreBackupCommand
+  ): Promise<RestoreReportDTO> {
+    // Step 1: Check the decompressed size before expanding any entry
+    const archive = new Uint8Array(await command.file.arrayBuffer());
+    let extractedSize: number;
+    try {
+      extractedSize = getExtractedSize(archive);
+    } catch {
+      throw new Error('File is not a valid backup archive');
+    }
+
+    if (extractedSize > MAX_BACKUP_EXTRACTED_BYTES) {
+      throw new Error('Backup archive must not expand to more than 300MB');
+    }
+
+    // Step 2: Decompress inventory.json only (images are decompressed one at a time)
+    let manifest: unknown;
+    try {
+      manifest = JSON.parse(new TextDecoder().decode(readArchiveEntry(archive, BACKUP_MANIFEST_FILE)));
+    } catch {
+      throw new Error('File is not a valid backup archive');
+    }
+
+    // Step 3: Validate entities and references (throws ZodError)
+    const backup = inventoryBackupSchema.parse(manifest);
+
+    // Step 4: Restore all entities except images in one transaction
+    const { data, error } = await supabase.rpc('restore_inventory', {
+      p_inventory: { ...backup, images: [] } as unknown as Json,
+    });
+
+    if (error) {
+      if (error.code === '55000') {
+        throw new Error('Inventory must be empty to restore a backup');
+      }
+
+      if (error.code === '22023') {
+        const entity = error.message?.includes('categories') ? 'categories' : 'containers';
+        throw new Error(`Backup contains ${entity} whose parent is missing or circular`);
+      }
+
+      throw error;
+    }
+
+    const restoredIds = data as unknown as RestoredIdMap;
+    const report: RestoreReportDTO = {
+      sites: backup.sites.length,
+      rooms: backup.rooms.length,
+      categories: backup.categories.length,
+      tags: backup.tags.length,
+      containers: backup.containers.length,
+      items: backup.items.length,
+      images: 0,
+      failedImages: [],
+    };
+
+    // Step 5: Upload images in display order, one at a time (variant generation is CPU heavy)
+    const images = [...backup.images].sort((a, b) => a.displayOrder - b.displayOrder);
+    const contentTypes = Object.fromEntries(
+      Object.entries(ALLOWED_IMAGE_TYPES).map(([contentType, extension]) => [extension, contentType])
+    );
+
+    for (const image of images) {
+      const archivePath = toArchivePath(image.storagePath);
+      const contentType = contentTypes[archivePath.split('.').pop() ?? ''];
+      const entityId = restoredIds[image.entityType][image.entityId];
+
+      try {
+        const bytes = readArchiveEntry(archive, archivePath);
+
+        if (!bytes || !contentType) {
+          throw new Error('Image file is missing from the backup');
+        }
+
+        const uploaded = await ImageService.uploadImage(supabase, userId, image.entityType, entityId, {
+          file: new File([bytes], archivePath.split('/').pop() ?? 'image', { type: contentType }),
+          displayOrder: image.displayOrder,
+        });
+
+        if (!uploaded) {
+          throw new Error(`Restored ${image.entityType} not found`);
+        }
+
+        report.images += 1;
+      } catch (imageError: any) {
+        report.failedImages.push({ id: image.id, message: imageError?.message || 'Unknown error' });
+      }
+    }
+
+    return report;
+  }
+}
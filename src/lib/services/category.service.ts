@@ -1,6 +1,139 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '../../db/database.types';
-import type { CreateCategoryCommand, UpdateCategoryCommand, CategoryListItemDTO } from '../../types';
+import type {
+  CreateCategoryCommand,
+  UpdateCategoryCommand,
+  DeleteCategoryCommand,
+  MergeCategoryCommand,
+  CategoryListItemDTO,
+} from '../../types';
+import { fetchAllPages } from './query-helpers';
+
+/**
+ * Maximum nesting depth of categories (mirrors enforce_category_hierarchy trigger)
+ */
+export const MAX_CATEGORY_DEPTH = 5;
+
+/**
+ * Category row with item count aggregation as returned by Supabase
+ */
+interface CategoryWithCount {
+  id: string;
+  name: string;
+  parent_id: string | null;
+  created_at: string;
+  updated_at: string;
+  items: { count: number }[];
+}
+
+/**
+ * Builds the category tree from flat rows
+ *
+ * Siblings keep the order of the rows; categories whose parent is not
+ * among the rows become roots. totalItemCount rolls up the item counts
+ * of all subcategories.
+ */
+function buildCategoryTree(rows: CategoryWithCount[]): CategoryListItemDTO[] {
+  const nodes = new Map<string, CategoryListItemDTO>(
+    rows.map((row) => [
+      row.id,
+      {
+        id: row.id,
+        name: row.name,
+        parentId: row.parent_id,
+        itemCount: row.items?.[0]?.count ?? 0, // Extract count from aggregation
+        totalItemCount: 0,
+        children: [],
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+      },
+    ])
+  );
+
+  const roots: CategoryListItemDTO[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const rollUp = (node: CategoryListItemDTO): number => {
+    node.totalItemCount = node.itemCount + node.children.reduce((sum, child) => sum + rollUp(child), 0);
+    return node.totalItemCount;
+  };
+  roots.forEach(rollUp);
+
+  return roots;
+}
+
+/**
+ * Finds a category anywhere in the tree
+ */
+function findCategoryNode(nodes: CategoryListItemDTO[], categoryId: string): CategoryListItemDTO | null {
+  for (const node of nodes) {
+    if (node.id === categoryId) {
+      return node;
+    }
+    const found = findCategoryNode(node.children, categoryId);
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Loads the parent of every category of the user
+ */
+async function fetchParentMap(supabase: SupabaseClient<Database>, userId: string): Promise<Map<string, string | null>> {
+  const rows = await fetchAllPages((from, to) =>
+    supabase
+      .from('categories')
+      .select('id, parent_id')
+      .eq('user_id', userId)
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+
+  return new Map(rows.map((row) => [row.id, row.parent_id]));
+}
+
+/**
+ * Translates enforce_category_hierarchy trigger errors into business errors
+ *
+ * Keeps race conditions (two concurrent moves) consistent with the checks
+ * done up front in validateParent.
+ */
+function toHierarchyError(error: { code?: string; message?: string }): Error | null {
+  if (error.message?.includes('nesting cannot exceed')) {
+    return new Error(`Category nesting cannot exceed ${MAX_CATEGORY_DEPTH} levels`);
+  }
+  if (error.message?.includes('inside itself') || error.message?.includes('categories_parent_not_self')) {
+    return new Error('Category cannot be placed inside itself or one of its subcategories');
+  }
+  if (error.code === '23503' && error.message?.includes('Parent category')) {
+    return new Error('Parent category does not exist or does not belong to user');
+  }
+  return null;
+}
+
+/**
+ * Translates a foreign key violation on deleting a category into the
+ * "Cannot delete" business error
+ *
+ * Covers items or subcategories added after the checks done up front in
+ * deleteCategory; the referencing table is named in the error details.
+ */
+function toContentsError(categoryName: string, error: { code?: string; details?: string }): Error | null {
+  if (error.code !== '23503') {
+    return null;
+  }
+  const contents = error.details?.includes('"categories"') ? 'subcategories' : 'items';
+  return new Error(`Cannot delete ${categoryName} because it contains ${contents}`);
+}
 
 /**
  * Service layer for category-related operations
@@ -15,14 +148,17 @@ export class CategoryService {
    * 
    * Business Rules:
    * - Category names must be unique per user (case-insensitive)
-   * - New categories always have itemCount of 0
+   * - Parent category is optional; it must belong to the user and
+   *   leave room within MAX_CATEGORY_DEPTH
+   * - New categories always have itemCount of 0 and no subcategories
    * - User ID is automatically associated from authentication context
    * 
    * @param supabase - Supabase client with user session
    * @param userId - ID of the authenticated user
-   * @param command - Category creation command with validated name
+   * @param command - Category creation command with validated name and parent
    * @returns Created category as CategoryListItemDTO
    * @throws {Error} If category name already exists (code: '23505')
+   * @throws {Error} If the parent category is invalid (with descriptive message)
    * @throws {Error} If database operation fails
    */
   static async createCategory(
@@ -30,48 +166,59 @@ export class CategoryService {
     userId: string,
     command: CreateCategoryCommand
   ): Promise<CategoryListItemDTO> {
-    // Insert category into database
+    // Step 1: Verify parent category (if any)
+    if (command.parentId) {
+      await this.validateParent(supabase, userId, command.parentId);
+    }
+
+    // Step 2: Insert category into database
     // RLS policy automatically enforces user_id = auth.uid()
     const { data, error } = await supabase
       .from('categories')
       .insert({
         user_id: userId,
         name: command.name, // Already trimmed by Zod transform
+        parent_id: command.parentId ?? null,
       })
       .select()
       .single();
 
     // Handle database errors - let route handler determine response code
     if (error) {
-      throw error;
+      throw toHierarchyError(error) ?? error;
     }
 
     // Transform database row to DTO
-    // New categories always have 0 items
+    // New categories always have 0 items and no subcategories
     return {
       id: data.id,
       name: data.name,
+      parentId: data.parent_id,
       itemCount: 0,
+      totalItemCount: 0,
+      children: [],
       createdAt: data.created_at,
       updatedAt: data.updated_at,
     };
   }
 
   /**
-   * Lists all categories for the authenticated user with item counts
+   * Lists all categories for the authenticated user as a tree with item counts
    * 
    * Business Rules:
    * - Returns all user's categories (no pagination in MVP)
-   * - Each category includes computed item count via aggregation
+   * - Top-level categories are returned; subcategories are nested in children
+   * - itemCount covers items directly in the category, totalItemCount
+   *   also includes items in all subcategories
    * - RLS policies automatically filter to user's categories
-   * - Supports sorting by name or creation date
+   * - Supports sorting by name or creation date (applied among siblings)
    * - Supports ascending or descending order
    * 
    * @param supabase - Supabase client with user session
    * @param userId - ID of the authenticated user
    * @param sort - Field to sort by ("name" | "created_at")
    * @param order - Sort direction ("asc" | "desc")
-   * @returns Array of categories with item counts as CategoryListItemDTO[]
+   * @returns Top-level categories with nested subcategories as CategoryListItemDTO[]
    * @throws {Error} If database operation fails
    */
   static async listCategories(
@@ -84,7 +231,7 @@ export class CategoryService {
     // Using Supabase's count() function for items
     const { data, error } = await supabase
       .from('categories')
-      .select('id, name, created_at, updated_at, items(count)')
+      .select('id, name, parent_id, created_at, updated_at, items(count)')
       .eq('user_id', userId) // Explicit filter (RLS also enforces this)
       .order(sort, { ascending: order === 'asc' });
 
@@ -93,33 +240,30 @@ export class CategoryService {
       throw error;
     }
 
-    // Transform database rows to DTOs
-    // Map snake_case to camelCase and extract item count
-    return data.map((category) => ({
-      id: category.id,
-      name: category.name,
-      itemCount: category.items?.[0]?.count ?? 0, // Extract count from aggregation
-      createdAt: category.created_at,
-      updatedAt: category.updated_at,
-    }));
+    // Transform database rows to a tree of DTOs
+    return buildCategoryTree(data);
   }
 
   /**
-   * Updates an existing category name
+   * Updates an existing category
    * 
    * Business Rules:
-   * - Only the category name can be updated
+   * - Name and parent category can be updated
    * - Category must exist and belong to the authenticated user
    * - New name must be unique per user (case-insensitive)
+   * - A new parent must belong to the user, must not be the category itself
+   *   or one of its subcategories, and must keep the tree within MAX_CATEGORY_DEPTH
+   * - Null parent moves the category to the top level
    * - RLS policies enforce user ownership
-   * - Returns updated category with current item count
+   * - Returns updated category with current item counts and subcategories
    * 
    * @param supabase - Supabase client with user session
    * @param userId - ID of the authenticated user
    * @param categoryId - ID of the category to update
-   * @param command - Category update command with validated name
+   * @param command - Category update command with validated fields
    * @returns Updated category as CategoryListItemDTO, or null if not found
    * @throws {Error} If new name conflicts with existing category (code: '23505')
+   * @throws {Error} If the parent category is invalid (with descriptive message)
    * @throws {Error} If database operation fails
    */
   static async updateCategory(
@@ -128,53 +272,66 @@ export class CategoryService {
     categoryId: string,
     command: UpdateCategoryCommand
   ): Promise<CategoryListItemDTO | null> {
-    // Update and fetch with item count in single query
+    // Step 1: Verify new parent category (if any)
+    if (command.parentId) {
+      await this.validateParent(supabase, userId, command.parentId, categoryId);
+    }
+
+    // Step 2: Apply partial update
     const { data, error } = await supabase
       .from('categories')
-      .update({ name: command.name })
+      .update({
+        ...(command.name !== undefined && { name: command.name }),
+        ...(command.parentId !== undefined && { parent_id: command.parentId }),
+      })
       .eq('id', categoryId)
       .eq('user_id', userId)
-      .select('id, name, created_at, updated_at, items(count)')
-      .single();
+      .select('id')
+      .maybeSingle();
 
     if (error) {
-      throw error;
+      throw toHierarchyError(error) ?? error;
     }
 
     if (!data) {
       return null;
     }
 
-    return {
-      id: data.id,
-      name: data.name,
-      itemCount: data.items?.[0]?.count ?? 0,
-      createdAt: data.created_at,
-      updatedAt: data.updated_at,
-    };
+    // Step 3: Return the category with its subtree and rolled-up counts
+    const tree = await this.listCategories(supabase, userId, 'name', 'asc');
+
+    return findCategoryNode(tree, data.id);
   }
 
   /**
-   * Deletes a category if it has no associated items
+   * Deletes a category, optionally moving its items to another category
    * 
    * Business Rules:
    * - Category must exist and belong to the authenticated user
-   * - Category must have zero associated items (enforces referential integrity)
+   * - Category must have zero subcategories (enforces referential integrity)
+   * - Without reassignTo, category must have zero associated items
+   * - With reassignTo, items move to that category (or to the "Uncategorized"
+   *   category, created if missing and there are items to move) and the
+   *   category is deleted in the same transaction (delete_category); the
+   *   target is validated even when there are no items
    * - RLS policies enforce user ownership at database level
    * - Returns category details on success, null if not found
    * 
    * @param supabase - Supabase client with user session
    * @param userId - ID of the authenticated user
    * @param categoryId - UUID of the category to delete
-   * @returns Object with category id and name if successful, null if not found
-   * @throws {Error} If category has associated items (with descriptive message)
+   * @param command - Optional destination of the items
+   * @returns Deleted category with the destination of its items, null if not found
+   * @throws {Error} If category has blocking items or subcategories (with descriptive message)
+   * @throws {Error} If the reassignment target is invalid (with descriptive message)
    * @throws {Error} If database operation fails
    */
   static async deleteCategory(
     supabase: SupabaseClient<Database>,
     userId: string,
-    categoryId: string
-  ): Promise<{ id: string; name: string } | null> {
+    categoryId: string,
+    command: DeleteCategoryCommand = {}
+  ): Promise<{ id: string; name: string; reassignedTo: string | null; movedItemCount: number } | null> {
     // Step 1: Fetch category and verify ownership
     const { data: category, error: fetchError } = await supabase
       .from('categories')
@@ -188,40 +345,269 @@ export class CategoryService {
       return null;
     }
 
-    // Step 2: Count associated items
-    const { count, error: countError } = await supabase
-      .from('items')
-      .select('id', { count: 'exact', head: true })
-      .eq('category_id', categoryId)
-      .eq('user_id', userId);
+    // Step 2: Count associated items and subcategories
+    const [itemsResult, childrenResult] = await Promise.all([
+      supabase
+        .from('items')
+        .select('id', { count: 'exact', head: true })
+        .eq('category_id', categoryId)
+        .eq('user_id', userId),
+      supabase
+        .from('categories')
+        .select('id', { count: 'exact', head: true })
+        .eq('parent_id', categoryId)
+        .eq('user_id', userId),
+    ]);
 
-    // Handle counting error
-    if (countError) {
-      throw countError;
+    // Handle counting errors
+    if (itemsResult.error) {
+      throw itemsResult.error;
+    }
+    if (childrenResult.error) {
+      throw childrenResult.error;
+    }
+
+    // Step 3: Check if category has contents (business rule enforcement)
+    const itemCount = itemsResult.count ?? 0;
+    const childCount = childrenResult.count ?? 0;
+
+    // Items only block the delete when they have no destination
+    const blockingItemCount = command.reassignTo ? 0 : itemCount;
+
+    if (blockingItemCount > 0 || childCount > 0) {
+      const contents = [
+        blockingItemCount > 0 && `${blockingItemCount} ${blockingItemCount === 1 ? 'item' : 'items'}`,
+        childCount > 0 && `${childCount} ${childCount === 1 ? 'subcategory' : 'subcategories'}`,
+      ].filter(Boolean);
+      throw new Error(`Cannot delete ${category.name} because it contains ${contents.join(' and ')}`);
     }
 
-    // Step 3: Check if category has items (business rule enforcement)
-    if (count && count > 0) {
-      const itemWord = count === 1 ? 'item' : 'items';
-      throw new Error(`Cannot delete ${category.name} because it contains ${count} ${itemWord}`);
+    if (command.reassignTo === categoryId) {
+      throw new Error('Items cannot be reassigned to the category being deleted');
     }
 
-    // Step 4: Delete category
+    // Step 4a: Move items and delete category in one transaction
+    // (also without items, so the target is still validated)
+    if (command.reassignTo) {
+      const useFallback = command.reassignTo === 'uncategorized';
+      const { data, error } = await supabase
+        .rpc('delete_category', {
+          p_category_id: categoryId,
+          p_reassign_to: useFallback ? null : command.reassignTo,
+          p_use_fallback: useFallback,
+        })
+        .single();
+
+      if (error) {
+        if (error.code === 'P0002') {
+          return null;
+        }
+
+        if (error.code === '23503' && error.message?.includes('Target category')) {
+          throw new Error('Target category does not exist or does not belong to user');
+        }
+
+        if (error.code === '22023') {
+          throw new Error('Items cannot be reassigned to the category being deleted');
+        }
+
+        if (error.code === '23505') {
+          throw new Error(`Cannot delete ${category.name} because the Uncategorized category changed meanwhile`);
+        }
+
+        throw toContentsError(category.name, error) ?? error;
+      }
+
+      return {
+        id: category.id,
+        name: category.name,
+        reassignedTo: data.target_id,
+        movedItemCount: data.moved_item_count,
+      };
+    }
+
+    // Step 4b: Delete category (no destination given, so no items to move)
     const { error: deleteError } = await supabase
       .from('categories')
       .delete()
       .eq('id', categoryId)
       .eq('user_id', userId);
 
-    // Handle deletion error
+    // Handle deletion error (items or subcategories added meanwhile)
     if (deleteError) {
-      throw deleteError;
+      throw toContentsError(category.name, deleteError) ?? deleteError;
     }
 
     // Return deleted category details
     return {
       id: category.id,
       name: category.name,
+      reassignedTo: null,
+      movedItemCount: 0,
     };
   }
+
+  /**
+   * Merges a category into another one (merge_categories)
+   *
+   * Business Rules:
+   * - Both categories must exist and belong to the authenticated user
+   * - All items of the source move to the target
+   * - Subcategories of the source become subcategories of the target and
+   *   must fit within MAX_CATEGORY_DEPTH there
+   * - The target cannot be the source itself or one of its subcategories
+   * - The source is deleted in the same transaction
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param categoryId - ID of the category to merge (source)
+   * @param command - Merge command with the target category ID
+   * @returns Number of moved items, or null if the source was not found
+   * @throws {Error} If the target category is invalid (with descriptive message)
+   * @throws {Error} If database operation fails
+   */
+  static async mergeCategory(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    categoryId: string,
+    command: MergeCategoryCommand
+  ): Promise<number | null> {
+    // Step 1: Verify source and target belong to the user
+    const { data: categories, error: fetchError } = await supabase
+      .from('categories')
+      .select('id')
+      .eq('user_id', userId)
+      .in('id', [categoryId, command.targetId]);
+
+    if (fetchError) {
+      throw fetchError;
+    }
+
+    if (!categories.some((category) => category.id === categoryId)) {
+      return null;
+    }
+
+    if (!categories.some((category) => category.id === command.targetId)) {
+      throw new Error('Target category does not exist or does not belong to user');
+    }
+
+    // Step 2: Move items and subcategories and delete the source in one transaction
+    const { data, error } = await supabase.rpc('merge_categories', {
+      p_source_id: categoryId,
+      p_target_id: command.targetId,
+    });
+
+    if (error) {
+      if (error.code === 'P0002') {
+        return null;
+      }
+
+      if (error.code === '23503') {
+        throw new Error('Target category does not exist or does not belong to user');
+      }
+
+      if (error.code === '22023') {
+        throw new Error(
+          categoryId === command.targetId
+            ? 'Category cannot be merged into itself'
+            : 'Category cannot be merged into one of its subcategories'
+        );
+      }
+
+      throw toHierarchyError(error) ?? error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Verifies that a category can be placed inside the given parent
+   *
+   * Business Rules:
+   * - Parent must exist and belong to the user
+   * - A category cannot be placed inside itself or one of its subcategories
+   * - The parent and the moved subtree must fit within MAX_CATEGORY_DEPTH
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param parentId - ID of the prospective parent category
+   * @param categoryId - ID of the category being moved (omit when creating)
+   * @throws {Error} If the parent is invalid (with descriptive message)
+   * @throws {Error} If database operation fails
+   */
+  static async validateParent(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    parentId: string,
+    categoryId?: string
+  ): Promise<void> {
+    if (parentId === categoryId) {
+      throw new Error('Category cannot be placed inside itself or one of its subcategories');
+    }
+
+    const parents = await fetchParentMap(supabase, userId);
+
+    if (!parents.has(parentId)) {
+      throw new Error('Parent category does not exist or does not belong to user');
+    }
+
+    // Walk up from the parent; the visited set guards against corrupt data
+    const ancestors = new Set<string>();
+    for (let id: string | null | undefined = parentId; id && !ancestors.has(id); id = parents.get(id)) {
+      ancestors.add(id);
+    }
+
+    if (categoryId && ancestors.has(categoryId)) {
+      throw new Error('Category cannot be placed inside itself or one of its subcategories');
+    }
+
+    // Height of the moved subtree (1 for a leaf or new category)
+    let subtreeHeight = 1;
+    if (categoryId) {
+      const children = new Map<string, string[]>();
+      for (const [id, parent] of parents) {
+        if (parent) {
+          children.set(parent, [...(children.get(parent) ?? []), id]);
+        }
+      }
+
+      const height = (id: string): number => 1 + Math.max(0, ...(children.get(id) ?? []).map(height));
+      subtreeHeight = height(categoryId);
+    }
+
+    if (ancestors.size + subtreeHeight > MAX_CATEGORY_DEPTH) {
+      throw new Error(`Category nesting cannot exceed ${MAX_CATEGORY_DEPTH} levels`);
+    }
+  }
+
+  /**
+   * Expands a category filter to include all subcategories
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param categoryIds - IDs of the filtered categories
+   * @returns IDs of the categories and all their subcategories
+   * @throws {Error} If database operation fails
+   */
+  static async resolveCategoryIds(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    categoryIds: string[]
+  ): Promise<string[]> {
+    const parents = await fetchParentMap(supabase, userId);
+
+    const resolved = new Set(categoryIds);
+    let added = true;
+    while (added) {
+      added = false;
+      for (const [id, parentId] of parents) {
+        if (parentId && resolved.has(parentId) && !resolved.has(id)) {
+          resolved.add(id);
+          added = true;
+        }
+      }
+    }
+
+    return [...resolved];
+  }
 }
@@ -0,0 +1,665 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../db/database.types';
+import type {
+  CreateContainerCommand,
+  UpdateContainerCommand,
+  ContainerListItemDTO,
+  ContainerDetailDTO,
+  ContainerListResponseDTO,
+  ContainerRefDTO,
+  LocationSegmentDTO,
+  RoomRefDTO,
+  SiteRefDTO,
+} from '../../types';
+import { ImageService } from './image.service';
+import { LocationService } from './location.service';
+
+/**
+ * Maximum nesting depth of containers (mirrors enforce_container_hierarchy trigger)
+ */
+export const MAX_CONTAINER_DEPTH = 5;
+
+/**
+ * Filtering, sorting and pagination options for listing containers
+ */
+export interface ContainerListFilters {
+  page: number;
+  limit: number;
+  parent?: string; // Container ID or "root"
+  siteIds?: string[];
+  roomIds?: string[];
+  sort: 'name' | 'created_at';
+  order: 'asc' | 'desc';
+}
+
+/**
+ * Position of a container in the hierarchy with its item counts
+ */
+export interface ContainerHierarchySummary {
+  path: ContainerRefDTO[];
+  site: SiteRefDTO | null;
+  room: RoomRefDTO | null;
+  itemCount: number;
+  totalItemCount: number;
+}
+
+/**
+ * Builds the full location path (site, room, containers) of a container
+ */
+function toLocationPath(summary: ContainerHierarchySummary): LocationSegmentDTO[] {
+  return [
+    ...(summary.site ? [{ type: 'site' as const, ...summary.site }] : []),
+    ...(summary.room ? [{ type: 'room' as const, ...summary.room }] : []),
+    ...summary.path.map((container) => ({ type: 'container' as const, ...container })),
+  ];
+}
+
+/**
+ * Translates enforce_container_hierarchy trigger errors into business errors
+ *
+ * Keeps race conditions (two concurrent moves) consistent with the checks
+ * done up front in validateParent.
+ */
+function toHierarchyError(error: { code?: string; message?: string }): Error | null {
+  if (error.message?.includes('nesting cannot exceed')) {
+    return new Error(`Container nesting cannot exceed ${MAX_CONTAINER_DEPTH} levels`);
+  }
+  if (error.message?.includes('inside itself') || error.message?.includes('containers_parent_not_self')) {
+    return new Error('Container cannot be placed inside itself or one of its descendants');
+  }
+  if (error.code === '23503') {
+    return new Error('Parent container does not exist or does not belong to user');
+  }
+  return null;
+}
+
+/**
+ * Service layer for container-related operations
+ *
+ * Handles business logic for container management including creation,
+ * retrieval, updates, and deletion while maintaining data integrity
+ * and enforcing business rules.
+ */
+export class ContainerService {
+  /**
+   * Retrieves breadcrumb paths and item counts for a set of containers
+   *
+   * Business Rules:
+   * - Path runs from the top-level container down to the container itself
+   * - Site and room are those of the top-level container (null if unassigned)
+   * - itemCount covers items directly inside the container
+   * - totalItemCount also includes items in all nested containers
+   *
+   * @param supabase - Supabase client with user session
+   * @param containerIds - IDs of the containers to summarize
+   * @returns Map of container ID to hierarchy summary
+   * @throws {Error} If database operation fails
+   */
+  static async getHierarchySummaries(
+    supabase: SupabaseClient<Database>,
+    containerIds: string[]
+  ): Promise<Map<string, ContainerHierarchySummary>> {
+    const summaries = new Map<string, ContainerHierarchySummary>();
+
+    if (containerIds.length === 0) {
+      return summaries;
+    }
+
+    const { data, error } = await supabase.rpc('get_container_summaries', {
+      p_container_ids: containerIds,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    for (const row of data) {
+      summaries.set(row.container_id, {
+        path: row.path_ids.map((id, index) => ({ id, name: row.path_names[index] })),
+        site: row.site_id ? { id: row.site_id, name: row.site_name ?? '' } : null,
+        room: row.room_id ? { id: row.room_id, name: row.room_name ?? '' } : null,
+        itemCount: row.item_count,
+        totalItemCount: row.total_item_count,
+      });
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Retrieves location paths (site, room, containers) for a set of containers
+   *
+   * Used to show where an item is, e.g. Home > Garage > Shelf 2 > Blue tub
+   *
+   * @param supabase - Supabase client with user session
+   * @param containerIds - IDs of the containers (duplicates are ignored)
+   * @returns Map of container ID to location path
+   * @throws {Error} If database operation fails
+   */
+  static async getLocationPaths(
+    supabase: SupabaseClient<Database>,
+    containerIds: string[]
+  ): Promise<Map<string, LocationSegmentDTO[]>> {
+    const summaries = await this.getHierarchySummaries(supabase, [...new Set(containerIds)]);
+
+    return new Map(
+      [...summaries].map(([containerId, summary]) => [containerId, toLocationPath(summary)])
+    );
+  }
+
+  /**
+   * Verifies that a container can be placed inside the given parent
+   *
+   * Business Rules:
+   * - Parent must exist and belong to the user
+   * - A container cannot be placed inside itself or one of its descendants
+   * - The parent must leave room for at least one more level; the full
+   *   subtree depth is verified by the enforce_container_hierarchy trigger
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param parentId - ID of the prospective parent container
+   * @param containerId - ID of the container being moved (omit when creating)
+   * @returns Breadcrumb path of the parent container
+   * @throws {Error} If the parent is invalid (with descriptive message)
+   * @throws {Error} If database operation fails
+   */
+  static async validateParent(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    parentId: string,
+    containerId?: string
+  ): Promise<ContainerRefDTO[]> {
+    if (parentId === containerId) {
+      throw new Error('Container cannot be placed inside itself or one of its descendants');
+    }
+
+    const { data: parent, error } = await supabase
+      .from('containers')
+      .select('id')
+      .eq('id', parentId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!parent) {
+      throw new Error('Parent container does not exist or does not belong to user');
+    }
+
+    const summaries = await this.getHierarchySummaries(supabase, [parent.id]);
+    const parentPath = summaries.get(parent.id)?.path ?? [];
+
+    if (containerId && parentPath.some((ancestor) => ancestor.id === containerId)) {
+      throw new Error('Container cannot be placed inside itself or one of its descendants');
+    }
+
+    if (parentPath.length >= MAX_CONTAINER_DEPTH) {
+      throw new Error(`Container nesting cannot exceed ${MAX_CONTAINER_DEPTH} levels`);
+    }
+
+    return parentPath;
+  }
+
+  /**
+   * Creates a new container for the authenticated user
+   *
+   * Business Rules:
+   * - New containers have no images, no items and no child containers
+   * - Parent container is optional; it must belong to the user and
+   *   leave room within MAX_CONTAINER_DEPTH
+   * - Room is optional and only set on top-level containers; nested
+   *   containers inherit the room of their parent
+   * - User ID is automatically associated from authentication context
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param command - Container creation command with validated fields
+   * @returns Created container as ContainerDetailDTO
+   * @throws {Error} If the parent container or room is invalid (with descriptive message)
+   * @throws {Error} If database operation fails
+   */
+  static async createContainer(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    command: CreateContainerCommand
+  ): Promise<ContainerDetailDTO> {
+    // Step 1: Verify parent container or room (if any)
+    if (command.parentId) {
+      if (command.roomId) {
+        throw new Error('Nested containers inherit the room of their parent container');
+      }
+      await this.validateParent(supabase, userId, command.parentId);
+    } else if (command.roomId) {
+      await LocationService.validateRoom(supabase, userId, command.roomId);
+    }
+
+    // Step 2: Insert container (nested containers get their room from the parent)
+    // RLS policy automatically enforces user_id = auth.uid()
+    const { data, error } = await supabase
+      .from('containers')
+      .insert({
+        user_id: userId,
+        name: command.name, // Already trimmed by Zod transform
+        description: command.description ?? null,
+        parent_id: command.parentId ?? null,
+        room_id: command.roomId ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw toHierarchyError(error) ?? error;
+    }
+
+    // Step 3: Resolve breadcrumb and location
+    const summaries = await this.getHierarchySummaries(supabase, [data.id]);
+    const hierarchy = summaries.get(data.id);
+    const path = hierarchy?.path ?? [{ id: data.id, name: data.name }];
+
+    // New containers always start empty
+    return {
+      id: data.id,
+      name: data.name,
+      shortCode: data.short_code,
+      description: data.description,
+      parent: data.parent_id ? (path[path.length - 2] ?? null) : null,
+      path,
+      site: hierarchy?.site ?? null,
+      room: hierarchy?.room ?? null,
+      images: [],
+      children: [],
+      items: [],
+      itemCount: 0,
+      totalItemCount: 0,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  }
+
+  /**
+   * Lists containers for the authenticated user with pagination
+   *
+   * Business Rules:
+   * - Each container includes its breadcrumb path and direct/total item counts
+   * - Thumbnail is the image with display_order = 1 (null if none)
+   * - Image count and thumbnail are fetched separately (polymorphic relationship)
+   * - Optional parent filter: a container ID lists its children, "root"
+   *   lists top-level containers, omitted lists all containers
+   * - Optional site/room filters match containers located there, including
+   *   nested containers (all filters combine with AND logic)
+   * - Supports sorting by name or creation date
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param filters - Filtering, sorting and pagination options
+   * @returns Paginated containers as ContainerListResponseDTO
+   * @throws {Error} If database operation fails
+   */
+  static async listContainers(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    filters: ContainerListFilters
+  ): Promise<ContainerListResponseDTO> {
+    const { page, limit, parent, sort, order } = filters;
+    const offset = (page - 1) * limit;
+
+    // Query containers with total count
+    let query = supabase
+      .from('containers')
+      .select('id, name, description, parent_id, created_at, updated_at', { count: 'exact' })
+      .eq('user_id', userId); // Explicit filter (RLS also enforces this)
+
+    // Filter by parent (uses idx_containers_user_parent)
+    if (parent === 'root') {
+      query = query.is('parent_id', null);
+    } else if (parent) {
+      query = query.eq('parent_id', parent);
+    }
+
+    // Filter by location (uses idx_containers_user_room)
+    if (filters.siteIds?.length || filters.roomIds?.length) {
+      const roomIds = await LocationService.resolveRoomIds(supabase, userId, filters.siteIds, filters.roomIds);
+      query = query.in('room_id', roomIds);
+    }
+
+    const { data, error, count } = await query
+      .order(sort, { ascending: order === 'asc' })
+      .order('id', { ascending: true }) // Stable ordering across pages
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    // Fetch thumbnails, image counts, paths and item counts in two queries
+    const containerIds = data.map((container) => container.id);
+    const [imageSummaries, hierarchySummaries] = await Promise.all([
+      ImageService.getImageSummaries(supabase, userId, 'container', containerIds),
+      this.getHierarchySummaries(supabase, containerIds),
+    ]);
+
+    const containers: ContainerListItemDTO[] = data.map((container) => {
+      const summary = imageSummaries.get(container.id);
+      const hierarchy = hierarchySummaries.get(container.id);
+
+      return {
+        id: container.id,
+        name: container.name,
+        description: container.description,
+        parentId: container.parent_id,
+        path: hierarchy?.path ?? [{ id: container.id, name: container.name }],
+        site: hierarchy?.site ?? null,
+        room: hierarchy?.room ?? null,
+        thumbnail: summary?.thumbnail ?? null,
+        imageCount: summary?.imageCount ?? 0,
+        itemCount: hierarchy?.itemCount ?? 0,
+        totalItemCount: hierarchy?.totalItemCount ?? 0,
+        createdAt: container.created_at,
+        updatedAt: container.updated_at,
+      };
+    });
+
+    const total = count ?? 0;
+
+    return {
+      data: containers,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Retrieves a single container with its images, child containers and items
+   *
+   * Business Rules:
+   * - Container must exist and belong to the authenticated user
+   * - Images are ordered by display order
+   * - Child containers and items are ordered by name and include thumbnails
+   * - Path and item counts follow getHierarchySummaries
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param containerId - ID of the container to retrieve
+   * @returns Container as ContainerDetailDTO, or null if not found
+   * @throws {Error} If database operation fails
+   */
+  static async getContainer(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    containerId: string
+  ): Promise<ContainerDetailDTO | null> {
+    const { data: container, error } = await supabase
+      .from('containers')
+      .select(`
+        id,
+        name,
+        short_code,
+        description,
+        parent_id,
+        created_at,
+        updated_at,
+        items(id, name, is_in, categories(name))
+      `)
+      .eq('id', containerId)
+      .eq('user_id', userId)
+      .order('name', { referencedTable: 'items', ascending: true })
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!container) {
+      return null;
+    }
+
+    // Child containers use the same table, so they are fetched separately
+    const { data: children, error: childrenError } = await supabase
+      .from('containers')
+      .select('id, name')
+      .eq('user_id', userId)
+      .eq('parent_id', container.id)
+      .order('name', { ascending: true });
+
+    if (childrenError) {
+      throw childrenError;
+    }
+
+    const childIds = children.map((child) => child.id);
+
+    // Images are fetched separately due to polymorphic relationship
+    const [images, itemImageSummaries, childImageSummaries, hierarchySummaries] = await Promise.all([
+      ImageService.listImages(supabase, userId, 'container', container.id),
+      ImageService.getImageSummaries(
+        supabase,
+        userId,
+        'item',
+        container.items.map((item) => item.id)
+      ),
+      ImageService.getImageSummaries(supabase, userId, 'container', childIds),
+      this.getHierarchySummaries(supabase, [container.id, ...childIds]),
+    ]);
+
+    const hierarchy = hierarchySummaries.get(container.id);
+    const path = hierarchy?.path ?? [{ id: container.id, name: container.name }];
+
+    return {
+      id: container.id,
+      name: container.name,
+      shortCode: container.short_code,
+      description: container.description,
+      parent: container.parent_id ? (path[path.length - 2] ?? null) : null,
+      path,
+      site: hierarchy?.site ?? null,
+      room: hierarchy?.room ?? null,
+      images,
+      children: children.map((child) => ({
+        id: child.id,
+        name: child.name,
+        thumbnail: childImageSummaries.get(child.id)?.thumbnail ?? null,
+        itemCount: hierarchySummaries.get(child.id)?.itemCount ?? 0,
+        totalItemCount: hierarchySummaries.get(child.id)?.totalItemCount ?? 0,
+      })),
+      items: container.items.map((item) => ({
+        id: item.id,
+        name: item.name,
+        thumbnail: itemImageSummaries.get(item.id)?.thumbnail ?? null,
+        category: item.categories?.name ?? '',
+        isIn: item.is_in,
+      })),
+      itemCount: container.items.length,
+      totalItemCount: hierarchy?.totalItemCount ?? container.items.length,
+      createdAt: container.created_at,
+      updatedAt: container.updated_at,
+    };
+  }
+
+  /**
+   * Updates an existing container
+   *
+   * Business Rules:
+   * - Name, description, parent container and room can be updated
+   * - Container must exist and belong to the authenticated user
+   * - A new parent must belong to the user, must not be the container itself
+   *   or one of its descendants, and must keep the tree within MAX_CONTAINER_DEPTH
+   * - Null parent moves the container to the top level (keeping its room)
+   * - Room can only be set on top-level containers; nested containers
+   *   inherit the room of their parent
+   * - Returns updated container with current images, children and items
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param containerId - ID of the container to update
+   * @param command - Container update command with validated fields
+   * @returns Updated container as ContainerDetailDTO, or null if not found
+   * @throws {Error} If the parent container or room is invalid (with descriptive message)
+   * @throws {Error} If database operation fails
+   */
+  static async updateContainer(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    containerId: string,
+    command: UpdateContainerCommand
+  ): Promise<ContainerDetailDTO | null> {
+    // Step 1: Verify new parent container (if any)
+    if (command.parentId) {
+      await this.validateParent(supabase, userId, command.parentId, containerId);
+    }
+
+    // Step 2: Verify room assignment (only allowed on top-level containers)
+    if (command.roomId !== undefined) {
+      if (command.parentId) {
+        throw new Error('Nested containers inherit the room of their parent container');
+      }
+
+      if (command.parentId === undefined) {
+        const { data: current, error: currentError } = await supabase
+          .from('containers')
+          .select('parent_id')
+          .eq('id', containerId)
+          .eq('user_id', userId)
+          .maybeSingle();
+
+        if (currentError) {
+          throw currentError;
+        }
+
+        if (current?.parent_id) {
+          throw new Error('Nested containers inherit the room of their parent container');
+        }
+      }
+
+      if (command.roomId) {
+        await LocationService.validateRoom(supabase, userId, command.roomId);
+      }
+    }
+
+    // Step 3: Apply partial update
+    const { data, error } = await supabase
+      .from('containers')
+      .update({
+        ...(command.name !== undefined && { name: command.name }),
+        ...(command.description !== undefined && { description: command.description }),
+        ...(command.parentId !== undefined && { parent_id: command.parentId }),
+        ...(command.roomId !== undefined && { room_id: command.roomId }),
+      })
+      .eq('id', containerId)
+      .eq('user_id', userId)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      throw toHierarchyError(error) ?? error;
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    return this.getContainer(supabase, userId, data.id);
+  }
+
+  /**
+   * Deletes a container if it has no associated items or child containers
+   *
+   * Business Rules:
+   * - Container must exist and belong to the authenticated user
+   * - Container must have zero associated items and zero child containers
+   *   (enforces referential integrity)
+   * - RLS policies enforce user ownership at database level
+   * - Image rows are removed by the delete_container_images trigger
+   * - Image files (original and variants) are removed from storage afterwards
+   * - Returns container details on success, null if not found
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param containerId - UUID of the container to delete
+   * @returns Object with container id and name if successful, null if not found
+   * @throws {Error} If container has associated items or child containers (with descriptive message)
+   * @throws {Error} If database operation fails
+   */
+  static async deleteContainer(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    containerId: string
+  ): Promise<{ id: string; name: string } | null> {
+    // Step 1: Fetch container and verify ownership
+    const { data: container, error: fetchError } = await supabase
+      .from('containers')
+      .select('id, name')
+      .eq('id', containerId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw fetchError;
+    }
+
+    // Return null if container not found or doesn't belong to user
+    if (!container) {
+      return null;
+    }
+
+    // Step 2: Count associated items and child containers
+    const [itemsResult, childrenResult] = await Promise.all([
+      supabase
+        .from('items')
+        .select('id', { count: 'exact', head: true })
+        .eq('container_id', containerId)
+        .eq('user_id', userId),
+      supabase
+        .from('containers')
+        .select('id', { count: 'exact', head: true })
+        .eq('parent_id', containerId)
+        .eq('user_id', userId),
+    ]);
+
+    if (itemsResult.error) {
+      throw itemsResult.error;
+    }
+    if (childrenResult.error) {
+      throw childrenResult.error;
+    }
+
+    // Step 3: Check if container has contents (business rule enforcement)
+    const itemCount = itemsResult.count ?? 0;
+    const childCount = childrenResult.count ?? 0;
+
+    if (itemCount > 0 || childCount > 0) {
+      const contents = [
+        itemCount > 0 && `${itemCount} ${itemCount === 1 ? 'item' : 'items'}`,
+        childCount > 0 && `${childCount} ${childCount === 1 ? 'container' : 'containers'}`,
+      ].filter(Boolean);
+      throw new Error(`Cannot delete ${container.name} because it contains ${contents.join(' and ')}`);
+    }
+
+    // Step 4: Collect storage paths before the trigger removes image rows
+    const storagePaths = await ImageService.listEntityStoragePaths(supabase, userId, 'container', containerId);
+
+    // Step 5: Delete container (image rows are deleted in the same transaction)
+    const { error: deleteError } = await supabase
+      .from('containers')
+      .delete()
+      .eq('id', containerId)
+      .eq('user_id', userId);
+
+    if (deleteError) {
+      throw deleteError;
+    }
+
+    // Step 6: Remove image files from storage
+    await ImageService.removeStorageObjects(supabase, storagePaths);
+
+    return {
+      id: container.id,
+      name: container.name,
+    };
+  }
+}
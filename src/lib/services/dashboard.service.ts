@@ -1,6 +1,10 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '../../db/database.types';
-import type { DashboardStatsDTO, RecentItemDTO } from '../../types';
+import type { DashboardStatsDTO, LocationSegmentDTO, RecentItemDTO, SiteStatsDTO } from '../../types';
+import { ImageService, type ImageSummary } from './image.service';
+import { ContainerService } from './container.service';
+import { LoanService } from './loan.service';
+import { toTagRefs } from './tag.service';
 
 /**
  * Service layer for dashboard-related operations
@@ -17,13 +21,17 @@ export class DashboardService {
    * - Total containers count
    * - Total categories count
    * - Items currently checked out count (is_in = false)
-   * - 5 most recent items with category, container, and thumbnail
+   * - Container, item and checked-out totals per site
+   * - 5 most recent items with category, tags, container, location path, and thumbnail
+   * - Overdue loans count with the 5 most overdue items
    * 
    * Business Rules:
    * - All data is user-scoped via RLS policies
    * - Recent items limited to 5 most recent by creation date
    * - Items without thumbnails have null thumbnail field
-   * - Thumbnail URLs generated from storage_path using Supabase Storage
+   * - Thumbnail URLs are short-lived signed URLs of the thumbnail variant
+   * - Containers without a room are reported under a null site
+   * - A loan is overdue once its due date is before today (UTC)
    * 
    * @param supabase - Supabase client with user session
    * @param userId - ID of the authenticated user
@@ -41,7 +49,9 @@ export class DashboardService {
       containersCountResult,
       categoriesCountResult,
       itemsOutCountResult,
+      siteStatsResult,
       recentItemsResult,
+      overdueResult,
     ] = await Promise.all([
       // Query 1: Count total items
       supabase
@@ -68,7 +78,10 @@ export class DashboardService {
         .eq('user_id', userId)
         .eq('is_in', false),
 
-      // Query 5: Fetch 5 most recent items with category and container
+      // Query 5: Aggregate totals per site
+      supabase.rpc('get_site_stats'),
+
+      // Query 6: Fetch 5 most recent items with category, tags and container
       // Note: Images are fetched separately due to polymorphic relationship
       supabase
         .from('items')
@@ -78,11 +91,15 @@ export class DashboardService {
           is_in,
           created_at,
           categories!inner(name),
-          containers!inner(name)
+          containers!inner(id, name),
+          item_tags(tags(id, name))
         `)
         .eq('user_id', userId)
         .order('created_at', { ascending: false })
         .limit(5),
+
+      // Query 7: Fetch 5 most overdue items (total gives the overdue count)
+      LoanService.listCheckedOutItems(supabase, userId, { page: 1, limit: 5, overdueOnly: true }),
     ]);
 
     // Handle errors from count queries
@@ -98,43 +115,41 @@ export class DashboardService {
     if (itemsOutCountResult.error) {
       throw itemsOutCountResult.error;
     }
+    if (siteStatsResult.error) {
+      throw siteStatsResult.error;
+    }
     if (recentItemsResult.error) {
       throw recentItemsResult.error;
     }
 
-    // If there are recent items, fetch their thumbnails
-    // Polymorphic relationship requires separate query
-    let itemThumbnails: Map<string, string | null> = new Map();
-    
-    if (recentItemsResult.data && recentItemsResult.data.length > 0) {
-      const itemIds = recentItemsResult.data.map((item) => item.id);
-      
-      // Fetch thumbnails (display_order = 1) for recent items
-      const { data: thumbnailsData, error: thumbnailsError } = await supabase
-        .from('images')
-        .select('entity_id, storage_path')
-        .eq('entity_type', 'item')
-        .eq('display_order', 1)
-        .in('entity_id', itemIds);
+    // Fetch thumbnails (display_order = 1) for recent items
+    // Polymorphic relationship requires separate query; resolved on every
+    // request so reordering or promoting an image is reflected immediately
+    let itemImageSummaries = new Map<string, ImageSummary>();
 
-      if (thumbnailsError) {
-        // Log error but continue without thumbnails
-        console.error('Failed to fetch thumbnails:', thumbnailsError);
-      } else if (thumbnailsData) {
-        // Build map of item_id -> thumbnail URL
-        for (const thumbnail of thumbnailsData) {
-          try {
-            const { data } = supabase.storage
-              .from('item-images')
-              .getPublicUrl(thumbnail.storage_path);
-            itemThumbnails.set(thumbnail.entity_id, data.publicUrl);
-          } catch (error) {
-            // If URL generation fails, set to null
-            console.error('Failed to generate thumbnail URL:', error);
-            itemThumbnails.set(thumbnail.entity_id, null);
-          }
-        }
-      }
+    try {
+      itemImageSummaries = await ImageService.getImageSummaries(
+        supabase,
+        userId,
+        'item',
+        (recentItemsResult.data ?? []).map((item) => item.id)
+      );
+    } catch (error) {
+      // Log error but continue without thumbnails
+      console.error('Failed to fetch thumbnails:', error);
+    }
+
+    // Resolve location paths (site > room > containers) for recent items
+    let locationPaths = new Map<string, LocationSegmentDTO[]>();
+
+    try {
+      locationPaths = await ContainerService.getLocationPaths(
+        supabase,
+        (recentItemsResult.data ?? []).map((item) => item.containers.id)
+      );
+    } catch (error) {
+      // Log error but continue without location paths
+      console.error('Failed to fetch location paths:', error);
     }
 
     // Transform recent items to DTOs
@@ -142,20 +157,33 @@ export class DashboardService {
       return {
         id: item.id,
         name: item.name,
-        thumbnail: itemThumbnails.get(item.id) ?? null,
+        thumbnail: itemImageSummaries.get(item.id)?.thumbnail ?? null,
         category: Array.isArray(item.categories) ? item.categories[0]?.name : item.categories?.name,
+        tags: toTagRefs(item.item_tags),
         container: Array.isArray(item.containers) ? item.containers[0]?.name : item.containers?.name,
+        locationPath: locationPaths.get(item.containers.id) ?? [],
         isIn: item.is_in,
         createdAt: item.created_at,
       };
     });
 
+    // Transform per-site totals to DTOs
+    const sites: SiteStatsDTO[] = (siteStatsResult.data ?? []).map((row) => ({
+      site: row.site_id ? { id: row.site_id, name: row.site_name ?? '' } : null,
+      totalContainers: row.total_containers,
+      totalItems: row.total_items,
+      itemsOut: row.items_out,
+    }));
+
     // Aggregate all statistics into response DTO
     return {
       totalItems: itemsCountResult.count ?? 0,
       totalContainers: containersCountResult.count ?? 0,
       totalCategories: categoriesCountResult.count ?? 0,
       itemsOut: itemsOutCountResult.count ?? 0,
+      overdueItems: overdueResult.pagination.total,
+      overdueLoans: overdueResult.data,
+      sites,
       recentItems,
     };
   }
@@ -0,0 +1,444 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../db/database.types';
+import type {
+  Category,
+  Container,
+  EntityType,
+  ExportCategoryDTO,
+  ExportContainerDTO,
+  ExportImageDTO,
+  ExportItemDTO,
+  ExportRoomDTO,
+  ExportSiteDTO,
+  ExportTagDTO,
+  Image,
+  Item,
+  Room,
+  Site,
+  Tag,
+} from '../../types';
+import { CSV_BOM, formatCsvRow } from '../csv';
+import { ContainerService } from './container.service';
+import { ImageService } from './image.service';
+import { getVariantPath } from './image-variants';
+import { fetchAllPages, readKeysetPages } from './query-helpers';
+
+/**
+ * Version of the JSON export document (InventoryExportDTO)
+ */
+export const EXPORT_FORMAT_VERSION = 1;
+
+/**
+ * Rows read per query while streaming; also bounds the ID lists sent
+ * in image lookups, keeping request URLs small
+ */
+const EXPORT_PAGE_SIZE = 200;
+
+/**
+ * Lifetime of image URLs in exports (7 days), long enough to open a
+ * downloaded spreadsheet later
+ */
+const EXPORT_SIGNED_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Columns of the CSV export; name, description, category, container,
+ * status, quantity and barcode match the CSV import
+ */
+const ITEM_CSV_HEADERS = [
+  'id',
+  'name',
+  'description',
+  'category',
+  'container',
+  'location',
+  'status',
+  'quantity',
+  'barcode',
+  'short_code',
+  'image_urls',
+  'created_at',
+  'updated_at',
+];
+
+/**
+ * Wraps text or binary chunks in a byte stream that pulls the next chunk on demand
+ *
+ * Errors after the response has started cannot change its status, so
+ * they are logged and abort the download.
+ */
+export function toByteStream(chunks: AsyncGenerator<string | Uint8Array>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(typeof value === 'string' ? encoder.encode(value) : value);
+        }
+      } catch (error: any) {
+        console.error('Export stream failed:', {
+          error: error?.message || 'Unknown error',
+          code: error?.code || 'N/A',
+        });
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+/**
+ * Writes one property of a JSON object whose value is an array, page by page
+ */
+async function* jsonArrayProperty<T>(name: string, pages: AsyncIterable<T[]> | Iterable<T[]>): AsyncGenerator<string> {
+  yield `,${JSON.stringify(name)}:[`;
+
+  let first = true;
+  for await (const page of pages) {
+    yield (first ? '' : ',') + page.map((entry) => JSON.stringify(entry)).join(',');
+    first = false;
+  }
+
+  yield ']';
+}
+
+/**
+ * Maps each page of rows with an async callback
+ */
+async function* mapPages<T, R>(pages: AsyncIterable<T[]>, map: (page: T[]) => Promise<R[]>): AsyncGenerator<R[]> {
+  for await (const page of pages) {
+    yield await map(page);
+  }
+}
+
+/**
+ * Signs full-size image URLs for export
+ *
+ * @returns Map of storage path to signed URL
+ */
+function signImageUrls(supabase: SupabaseClient<Database>, images: Pick<Image, 'storage_path'>[]) {
+  return ImageService.createSignedUrls(
+    supabase,
+    images.map((image) => getVariantPath(image.storage_path, 'full')),
+    EXPORT_SIGNED_URL_TTL_SECONDS
+  );
+}
+
+/**
+ * Retrieves signed full-size image URLs for many entities, in display order
+ *
+ * @returns Map of entity ID to image URLs
+ */
+async function getImageUrls(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  entityType: EntityType,
+  entityIds: string[]
+): Promise<Map<string, string[]>> {
+  const { data, error } = await supabase
+    .from('images')
+    .select('entity_id, storage_path')
+    .eq('user_id', userId)
+    .eq('entity_type', entityType)
+    .in('entity_id', entityIds)
+    .order('display_order', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  const signedUrls = await signImageUrls(supabase, data);
+  const urls = new Map<string, string[]>();
+
+  for (const image of data) {
+    const url = signedUrls.get(getVariantPath(image.storage_path, 'full'));
+    if (url) {
+      urls.set(image.entity_id, [...(urls.get(image.entity_id) ?? []), url]);
+    }
+  }
+
+  return urls;
+}
+
+function toExportSiteDTO(site: Site): ExportSiteDTO {
+  return { id: site.id, name: site.name, createdAt: site.created_at, updatedAt: site.updated_at };
+}
+
+function toExportRoomDTO(room: Room): ExportRoomDTO {
+  return {
+    id: room.id,
+    siteId: room.site_id,
+    name: room.name,
+    createdAt: room.created_at,
+    updatedAt: room.updated_at,
+  };
+}
+
+function toExportCategoryDTO(
+  category: Pick<Category, 'id' | 'name' | 'parent_id' | 'created_at' | 'updated_at'>
+): ExportCategoryDTO {
+  return {
+    id: category.id,
+    name: category.name,
+    parentId: category.parent_id,
+    createdAt: category.created_at,
+    updatedAt: category.updated_at,
+  };
+}
+
+function toExportTagDTO(tag: Pick<Tag, 'id' | 'name' | 'created_at' | 'updated_at'>): ExportTagDTO {
+  return { id: tag.id, name: tag.name, createdAt: tag.created_at, updatedAt: tag.updated_at };
+}
+
+function toExportContainerDTO(container: Omit<Container, 'search_vector'>): ExportContainerDTO {
+  return {
+    id: container.id,
+    name: container.name,
+    description: container.description,
+    shortCode: container.short_code,
+    parentId: container.parent_id,
+    roomId: container.room_id,
+    createdAt: container.created_at,
+    updatedAt: container.updated_at,
+  };
+}
+
+function toExportItemDTO(item: Omit<Item, 'search_vector'> & { item_tags: { tag_id: string }[] }): ExportItemDTO {
+  return {
+    id: item.id,
+    name: item.name,
+    description: item.description,
+    shortCode: item.short_code,
+    barcode: item.barcode,
+    categoryId: item.category_id,
+    containerId: item.container_id,
+    tagIds: item.item_tags.map((itemTag) => itemTag.tag_id),
+    isIn: item.is_in,
+    quantity: item.quantity,
+    createdAt: item.created_at,
+    updatedAt: item.updated_at,
+  };
+}
+
+/**
+ * Service layer for inventory exports
+ *
+ * Exports are streamed: rows are read in pages while the response is
+ * being sent, so memory use does not grow with the inventory. Small
+ * tables (sites, rooms, categories, tags) are read up front, which also
+ * makes connection and permission errors fail the request before it starts.
+ */
+export class ExportService {
+  /**
+   * Streams all items of the user as CSV, one row per item
+   *
+   * Business Rules:
+   * - Columns: see ITEM_CSV_HEADERS; status is "in" or "out"
+   * - location is the site, room and container path joined with " > "
+   * - image_urls lists signed full-size URLs (valid 7 days) separated by spaces
+   * - Text that a spreadsheet would run as a formula is prefixed with a
+   *   single quote (see formatCsvRow); the CSV import removes it
+   * - The file starts with a UTF-8 byte order mark for spreadsheet applications
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @returns UTF-8 encoded CSV stream
+   * @throws {Error} If database operation fails before streaming starts
+   */
+  static async exportItemsCsv(supabase: SupabaseClient<Database>, userId: string): Promise<ReadableStream<Uint8Array>> {
+    const categories = await fetchAllPages((from, to) =>
+      supabase
+        .from('categories')
+        .select('id, name')
+        .eq('user_id', userId)
+        .order('id', { ascending: true })
+        .range(from, to)
+    );
+    const categoryNames = new Map(categories.map((category) => [category.id, category.name]));
+
+    const pages = readKeysetPages(EXPORT_PAGE_SIZE, (afterId) => {
+      const query = supabase
+        .from('items')
+        .select(
+          'id, name, description, category_id, container_id, is_in, quantity, barcode, short_code, created_at, updated_at'
+        )
+        .eq('user_id', userId);
+
+      return (afterId ? query.gt('id', afterId) : query).order('id', { ascending: true }).limit(EXPORT_PAGE_SIZE);
+    });
+
+    async function* generateRows(): AsyncGenerator<string> {
+      yield CSV_BOM + formatCsvRow(ITEM_CSV_HEADERS);
+
+      for await (const items of pages) {
+        const [locationPaths, imageUrls] = await Promise.all([
+          ContainerService.getLocationPaths(
+            supabase,
+            items.map((item) => item.container_id)
+          ),
+          getImageUrls(
+            supabase,
+            userId,
+            'item',
+            items.map((item) => item.id)
+          ),
+        ]);
+
+        yield items
+          .map((item) => {
+            const locationPath = locationPaths.get(item.container_id) ?? [];
+
+            return formatCsvRow([
+              item.id,
+              item.name,
+              item.description,
+              categoryNames.get(item.category_id),
+              locationPath[locationPath.length - 1]?.name,
+              locationPath.map((segment) => segment.name).join(' > '),
+              item.is_in ? 'in' : 'out',
+              item.quantity,
+              item.barcode,
+              item.short_code,
+              (imageUrls.get(item.id) ?? []).join(' '),
+              item.created_at,
+              item.updated_at,
+            ]);
+          })
+          .join('');
+      }
+    }
+
+    return toByteStream(generateRows());
+  }
+
+  /**
+   * Streams all data of the user as a JSON document (InventoryExportDTO)
+   *
+   * Business Rules:
+   * - Entities reference each other by ID (categories and containers by
+   *   parentId, containers by roomId, items by categoryId, containerId and tagIds,
+   *   images by entityType and entityId)
+   * - Image entries carry metadata and a signed full-size URL (valid 7 days);
+   *   the files themselves are not included
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @returns UTF-8 encoded JSON stream
+   * @throws {Error} If database operation fails before streaming starts
+   */
+  static async exportInventoryJson(
+    supabase: SupabaseClient<Database>,
+    userId: string
+  ): Promise<ReadableStream<Uint8Array>> {
+    return toByteStream(await this.createInventoryDocument(supabase, userId, true));
+  }
+
+  /**
+   * Produces the JSON document of all data of the user (InventoryExportDTO) in chunks
+   *
+   * Shared by the JSON export and the backup archive.
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param includeImageUrls - Whether to sign image URLs (url is null otherwise)
+   * @returns JSON text chunks
+   * @throws {Error} If database operation fails before the first chunk
+   */
+  static async createInventoryDocument(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    includeImageUrls: boolean
+  ): Promise<AsyncGenerator<string>> {
+    const [sites, rooms, categories, tags] = await Promise.all([
+      fetchAllPages((from, to) =>
+        supabase.from('sites').select('*').eq('user_id', userId).order('id', { ascending: true }).range(from, to)
+      ),
+      fetchAllPages((from, to) =>
+        supabase.from('rooms').select('*').eq('user_id', userId).order('id', { ascending: true }).range(from, to)
+      ),
+      fetchAllPages((from, to) =>
+        supabase
+          .from('categories')
+          .select('id, name, parent_id, created_at, updated_at')
+          .eq('user_id', userId)
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllPages((from, to) =>
+        supabase
+          .from('tags')
+          .select('id, name, created_at, updated_at')
+          .eq('user_id', userId)
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+    ]);
+
+    const containerPages = readKeysetPages(EXPORT_PAGE_SIZE, (afterId) => {
+      const query = supabase
+        .from('containers')
+        .select('id, name, description, short_code, parent_id, room_id, user_id, created_at, updated_at')
+        .eq('user_id', userId);
+
+      return (afterId ? query.gt('id', afterId) : query).order('id', { ascending: true }).limit(EXPORT_PAGE_SIZE);
+    });
+
+    const itemPages = readKeysetPages(EXPORT_PAGE_SIZE, (afterId) => {
+      const query = supabase
+        .from('items')
+        .select(
+          'id, name, description, category_id, container_id, is_in, quantity, barcode, short_code, user_id, created_at, updated_at, item_tags(tag_id)'
+        )
+        .eq('user_id', userId);
+
+      return (afterId ? query.gt('id', afterId) : query).order('id', { ascending: true }).limit(EXPORT_PAGE_SIZE);
+    });
+
+    const imagePages = readKeysetPages(EXPORT_PAGE_SIZE, (afterId) => {
+      const query = supabase.from('images').select('*').eq('user_id', userId);
+
+      return (afterId ? query.gt('id', afterId) : query).order('id', { ascending: true }).limit(EXPORT_PAGE_SIZE);
+    });
+
+    async function* generateDocument(): AsyncGenerator<string> {
+      yield `{"version":${EXPORT_FORMAT_VERSION},"exportedAt":${JSON.stringify(new Date().toISOString())}`;
+      yield* jsonArrayProperty('sites', [sites.map(toExportSiteDTO)]);
+      yield* jsonArrayProperty('rooms', [rooms.map(toExportRoomDTO)]);
+      yield* jsonArrayProperty('categories', [categories.map(toExportCategoryDTO)]);
+      yield* jsonArrayProperty('tags', [tags.map(toExportTagDTO)]);
+      yield* jsonArrayProperty(
+        'containers',
+        mapPages(containerPages, async (page) => page.map(toExportContainerDTO))
+      );
+      yield* jsonArrayProperty(
+        'items',
+        mapPages(itemPages, async (page) => page.map(toExportItemDTO))
+      );
+      yield* jsonArrayProperty(
+        'images',
+        mapPages(imagePages, async (page): Promise<ExportImageDTO[]> => {
+          const signedUrls = includeImageUrls ? await signImageUrls(supabase, page) : new Map<string, string>();
+
+          return page.map((image) => ({
+            id: image.id,
+            entityType: image.entity_type,
+            entityId: image.entity_id,
+            storagePath: image.storage_path,
+            displayOrder: image.display_order,
+            url: signedUrls.get(getVariantPath(image.storage_path, 'full')) ?? null,
+            createdAt: image.created_at,
+            updatedAt: image.updated_at,
+          }));
+        })
+      );
+      yield '}\n';
+    }
+
+    return generateDocument();
+  }
+}
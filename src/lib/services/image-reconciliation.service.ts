@@ -0,0 +1,156 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../db/database.types';
+import type { ImageReconciliationReportDTO, OrphanedImageDTO } from '../../types';
+import { IMAGES_BUCKET } from './image.service';
+import { getAllImagePaths } from './image-variants';
+import { fetchAllPages } from './query-helpers';
+
+/**
+ * Batch size for delete operations, keeps request URLs and bodies small
+ */
+const DELETE_BATCH_SIZE = 100;
+
+/**
+ * Splits an array into batches of the given size
+ */
+function chunk<T>(values: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    batches.push(values.slice(i, i + size));
+  }
+  return batches;
+}
+
+/**
+ * Service layer for keeping image metadata and storage in sync
+ *
+ * images.entity_id has no foreign key, and storage uploads are not part of
+ * database transactions. Deletes clean up after themselves, but failed
+ * rollbacks or data from before the cleanup triggers can still leave:
+ * - image rows whose item or container no longer exists
+ * - storage files under the user's folder that no image row references
+ */
+export class ImageReconciliationService {
+  /**
+   * Finds orphaned image rows and storage files, optionally deleting them
+   *
+   * Business Rules:
+   * - Scoped to the authenticated user's rows and storage folder
+   * - A storage file is referenced if it is the original or a variant of any image row
+   * - Files of orphaned rows are reported with the rows, not as orphaned files
+   * - In dry run mode nothing is deleted
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param dryRun - Report only when true
+   * @returns Reconciliation report as ImageReconciliationReportDTO
+   * @throws {Error} If database or storage operation fails
+   */
+  static async reconcileImages(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    dryRun: boolean
+  ): Promise<ImageReconciliationReportDTO> {
+    // Step 1: Load image rows, existing entity IDs and storage paths
+    const [images, items, containers, storagePaths] = await Promise.all([
+      fetchAllPages((from, to) =>
+        supabase
+          .from('images')
+          .select('id, entity_type, entity_id, storage_path')
+          .eq('user_id', userId)
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllPages((from, to) =>
+        supabase
+          .from('items')
+          .select('id')
+          .eq('user_id', userId)
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllPages((from, to) =>
+        supabase
+          .from('containers')
+          .select('id')
+          .eq('user_id', userId)
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllPages((from, to) => supabase.rpc('list_image_storage_paths').range(from, to)),
+    ]);
+
+    const entityIds = {
+      item: new Set(items.map((item) => item.id)),
+      container: new Set(containers.map((container) => container.id)),
+    };
+
+    // Step 2: Find rows whose parent entity is gone
+    const orphanedRows: OrphanedImageDTO[] = images
+      .filter((image) => !entityIds[image.entity_type].has(image.entity_id))
+      .map((image) => ({
+        id: image.id,
+        entityType: image.entity_type,
+        entityId: image.entity_id,
+        storagePath: image.storage_path,
+      }));
+
+    // Step 3: Find files no row references (original or variant)
+    const referencedPaths = new Set(images.flatMap((image) => getAllImagePaths(image.storage_path)));
+    const orphanedFiles = storagePaths.filter((path) => !referencedPaths.has(path));
+
+    if (dryRun) {
+      return {
+        orphanedRows,
+        orphanedFiles,
+        dryRun,
+        deletedRows: 0,
+        deletedFiles: 0,
+      };
+    }
+
+    // Step 4: Delete orphaned rows before their files, so a failure never
+    // leaves a row pointing at a missing file
+    let deletedRows = 0;
+    for (const batch of chunk(orphanedRows.map((row) => row.id), DELETE_BATCH_SIZE)) {
+      const { data, error } = await supabase
+        .from('images')
+        .delete()
+        .in('id', batch)
+        .eq('user_id', userId)
+        .select('id');
+
+      if (error) {
+        throw error;
+      }
+
+      deletedRows += data.length;
+    }
+
+    // Step 5: Delete files of orphaned rows and unreferenced files
+    const existingPaths = new Set(storagePaths);
+    const pathsToRemove = [
+      ...orphanedRows.flatMap((row) => getAllImagePaths(row.storagePath)).filter((path) => existingPaths.has(path)),
+      ...orphanedFiles,
+    ];
+
+    let deletedFiles = 0;
+    for (const batch of chunk(pathsToRemove, DELETE_BATCH_SIZE)) {
+      const { data, error } = await supabase.storage.from(IMAGES_BUCKET).remove(batch);
+
+      if (error) {
+        throw error;
+      }
+
+      deletedFiles += data.length;
+    }
+
+    return {
+      orphanedRows,
+      orphanedFiles,
+      dryRun,
+      deletedRows,
+      deletedFiles,
+    };
+  }
+}
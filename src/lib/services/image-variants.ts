@@ -0,0 +1,90 @@
+import sharp from 'sharp';
+
+/**
+ * Resized renditions generated for every uploaded image
+ */
+export type ImageVariant = 'thumbnail' | 'medium' | 'full';
+
+/**
+ * Resize settings per variant
+ *
+ * - thumbnail: square crop for list views and cards
+ * - medium: fits inside 800px for detail views on small screens
+ * - full: fits inside 2048px, replaces the camera original for display
+ *
+ * Widths double as `w` descriptors in ImageDTO.srcSet
+ */
+export const IMAGE_VARIANTS: Record<ImageVariant, { width: number; height: number; fit: 'cover' | 'inside' }> = {
+  thumbnail: { width: 256, height: 256, fit: 'cover' },
+  medium: { width: 800, height: 800, fit: 'inside' },
+  full: { width: 2048, height: 2048, fit: 'inside' },
+};
+
+/**
+ * Content type of all generated variants
+ */
+export const IMAGE_VARIANT_CONTENT_TYPE = 'image/webp';
+
+/**
+ * Builds the storage path of a variant next to the original file
+ *
+ * Example: user/item/entity/image.jpg -> user/item/entity/image_thumbnail.webp
+ *
+ * @param storagePath - Storage path of the original file
+ * @param variant - Variant name
+ * @returns Storage path of the variant
+ */
+export function getVariantPath(storagePath: string, variant: ImageVariant): string {
+  const basePath = storagePath.replace(/\.[^./]+$/, '');
+  return `${basePath}_${variant}.webp`;
+}
+
+/**
+ * Returns storage paths of the original file and all its variants
+ *
+ * @param storagePath - Storage path of the original file
+ * @returns Array of storage paths (original first)
+ */
+export function getAllImagePaths(storagePath: string): string[] {
+  return [
+    storagePath,
+    ...(Object.keys(IMAGE_VARIANTS) as ImageVariant[]).map((variant) => getVariantPath(storagePath, variant)),
+  ];
+}
+
+/**
+ * Generates all resized variants of an uploaded image
+ *
+ * Business Rules:
+ * - EXIF orientation is applied before resizing (phone photos)
+ * - Images are never enlarged beyond their original size
+ * - Variants are encoded as WebP and stripped of metadata
+ *
+ * @param file - Uploaded image file
+ * @returns Encoded variant buffers keyed by variant name
+ * @throws {Error} If the file cannot be decoded as an image
+ */
+export async function generateImageVariants(file: File): Promise<Record<ImageVariant, Buffer>> {
+  const input = Buffer.from(await file.arrayBuffer());
+
+  const entries = await Promise.all(
+    (Object.entries(IMAGE_VARIANTS) as [ImageVariant, (typeof IMAGE_VARIANTS)[ImageVariant]][]).map(
+      async ([variant, options]) => {
+        const buffer = await sharp(input)
+          .rotate()
+          .resize({
+            width: options.width,
+            height: options.height,
+            fit: options.fit,
+            withoutEnlargement: true,
+          })
+          .webp({ quality: variant === 'thumbnail' ? 70 : 80 })
+          .toBuffer();
+
+        return [variant, buffer] as const;
+      }
+    )
+  );
+
+  return Object.fromEntries(entries) as Record<ImageVariant, Buffer>;
+}
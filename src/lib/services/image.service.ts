@@ -0,0 +1,568 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../db/database.types';
+import type {
+  EntityType,
+  Image,
+  ImageDTO,
+  UploadImageCommand,
+  ReorderImagesCommand,
+  UpdateImageDisplayOrderCommand,
+} from '../../types';
+import { ALLOWED_IMAGE_TYPES } from '../validation/image.schema';
+import {
+  IMAGE_VARIANTS,
+  IMAGE_VARIANT_CONTENT_TYPE,
+  generateImageVariants,
+  getAllImagePaths,
+  getVariantPath,
+  type ImageVariant,
+} from './image-variants';
+
+/**
+ * Supabase Storage bucket holding all item and container images
+ */
+export const IMAGES_BUCKET = 'item-images';
+
+/**
+ * Lifetime of signed image URLs in seconds
+ */
+export const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+/**
+ * Maximum number of images per item or container (mirrors enforce_image_limit trigger)
+ */
+export const MAX_IMAGES_PER_ENTITY = 5;
+
+/**
+ * Thumbnail URL and image count for a single entity
+ */
+export interface ImageSummary {
+  thumbnail: string | null;
+  imageCount: number;
+}
+
+/**
+ * Service layer for image-related operations
+ *
+ * Images are stored in a polymorphic table (entity_type + entity_id), so
+ * related entities cannot embed them through a foreign key join. This service
+ * centralizes the separate lookups and the storage URL generation.
+ *
+ * The images bucket is private: every URL handed to clients is a short-lived
+ * signed URL created with the user's session, so storage RLS policies decide
+ * which files can be signed.
+ */
+export class ImageService {
+  /**
+   * Creates short-lived signed URLs for objects in the images bucket
+   *
+   * Business Rules:
+   * - URLs expire after SIGNED_URL_TTL_SECONDS unless a lifetime is given
+   * - Storage RLS only allows signing files inside the user's own folder
+   * - Paths that cannot be signed are absent from the returned map
+   *
+   * @param supabase - Supabase client with user session
+   * @param storagePaths - Relative paths within the images bucket
+   * @param expiresIn - Lifetime of the URLs in seconds
+   * @returns Map of storage path to signed URL
+   * @throws {Error} If storage operation fails
+   */
+  static async createSignedUrls(
+    supabase: SupabaseClient<Database>,
+    storagePaths: string[],
+    expiresIn: number = SIGNED_URL_TTL_SECONDS
+  ): Promise<Map<string, string>> {
+    const signedUrls = new Map<string, string>();
+
+    if (storagePaths.length === 0) {
+      return signedUrls;
+    }
+
+    const { data, error } = await supabase.storage
+      .from(IMAGES_BUCKET)
+      .createSignedUrls(storagePaths, expiresIn);
+
+    if (error) {
+      throw error;
+    }
+
+    for (const entry of data) {
+      if (entry.path && entry.signedUrl && !entry.error) {
+        signedUrls.set(entry.path, entry.signedUrl);
+      }
+    }
+
+    return signedUrls;
+  }
+
+  /**
+   * Transforms images table rows into ImageDTOs with signed variant URLs
+   *
+   * All variant URLs are signed in a single storage request.
+   *
+   * @param supabase - Supabase client with user session
+   * @param images - Image rows from the database
+   * @returns Images as ImageDTO[] in the given order
+   * @throws {Error} If storage operation fails
+   */
+  static async toImageDTOs(
+    supabase: SupabaseClient<Database>,
+    images: Image[]
+  ): Promise<ImageDTO[]> {
+    const variants: ImageVariant[] = ['thumbnail', 'medium', 'full'];
+    const signedUrls = await this.createSignedUrls(
+      supabase,
+      images.flatMap((image) => variants.map((variant) => getVariantPath(image.storage_path, variant)))
+    );
+
+    return images.map((image) => {
+      const urlFor = (variant: ImageVariant) =>
+        signedUrls.get(getVariantPath(image.storage_path, variant)) ?? '';
+      const url = urlFor('full');
+      const mediumUrl = urlFor('medium');
+
+      return {
+        id: image.id,
+        url,
+        thumbnailUrl: urlFor('thumbnail'),
+        mediumUrl,
+        srcSet: `${mediumUrl} ${IMAGE_VARIANTS.medium.width}w, ${url} ${IMAGE_VARIANTS.full.width}w`,
+        displayOrder: image.display_order,
+        createdAt: image.created_at,
+        updatedAt: image.updated_at,
+      };
+    });
+  }
+
+  /**
+   * Lists all images of a single entity ordered by display order
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param entityType - Type of the parent entity
+   * @param entityId - ID of the parent entity
+   * @returns Array of images as ImageDTO[]
+   * @throws {Error} If database operation fails
+   */
+  static async listImages(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    entityType: EntityType,
+    entityId: string
+  ): Promise<ImageDTO[]> {
+    const { data, error } = await supabase
+      .from('images')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId)
+      .order('display_order', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return this.toImageDTOs(supabase, data);
+  }
+
+  /**
+   * Retrieves thumbnail URLs and image counts for many entities at once
+   *
+   * Business Rules:
+   * - Image with display_order = 1 is the thumbnail
+   * - Thumbnail URL is a signed URL of the small thumbnail variant
+   * - Entities without images are absent from the returned map
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param entityType - Type of the parent entities
+   * @param entityIds - IDs of the parent entities
+   * @returns Map of entity ID to ImageSummary
+   * @throws {Error} If database or storage operation fails
+   */
+  static async getImageSummaries(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    entityType: EntityType,
+    entityIds: string[]
+  ): Promise<Map<string, ImageSummary>> {
+    const summaries = new Map<string, ImageSummary>();
+
+    if (entityIds.length === 0) {
+      return summaries;
+    }
+
+    const { data, error } = await supabase
+      .from('images')
+      .select('entity_id, storage_path, display_order')
+      .eq('user_id', userId)
+      .eq('entity_type', entityType)
+      .in('entity_id', entityIds);
+
+    if (error) {
+      throw error;
+    }
+
+    // Sign all thumbnails in a single storage request
+    const thumbnailPaths = new Map(
+      data
+        .filter((image) => image.display_order === 1)
+        .map((image) => [image.entity_id, getVariantPath(image.storage_path, 'thumbnail')])
+    );
+    const signedUrls = await this.createSignedUrls(supabase, Array.from(thumbnailPaths.values()));
+
+    for (const image of data) {
+      const summary = summaries.get(image.entity_id) ?? { thumbnail: null, imageCount: 0 };
+      summary.imageCount += 1;
+
+      if (image.display_order === 1) {
+        summary.thumbnail = signedUrls.get(thumbnailPaths.get(image.entity_id) ?? '') ?? null;
+      }
+
+      summaries.set(image.entity_id, summary);
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Checks whether an item or container exists and belongs to the user
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param entityType - Type of the parent entity
+   * @param entityId - ID of the parent entity
+   * @returns True if the entity exists and belongs to the user
+   * @throws {Error} If database operation fails
+   */
+  static async entityExists(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    entityType: EntityType,
+    entityId: string
+  ): Promise<boolean> {
+    const { data, error } = await supabase
+      .from(entityType === 'item' ? 'items' : 'containers')
+      .select('id')
+      .eq('id', entityId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data !== null;
+  }
+
+  /**
+   * Lists storage paths of all files belonging to an entity's images
+   *
+   * Includes the original upload and every generated variant, so the
+   * result can be passed directly to removeStorageObjects.
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param entityType - Type of the parent entity
+   * @param entityId - ID of the parent entity
+   * @returns Array of storage paths
+   * @throws {Error} If database operation fails
+   */
+  static async listEntityStoragePaths(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    entityType: EntityType,
+    entityId: string
+  ): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('images')
+      .select('storage_path')
+      .eq('user_id', userId)
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId);
+
+    if (error) {
+      throw error;
+    }
+
+    return data.flatMap((image) => getAllImagePaths(image.storage_path));
+  }
+
+  /**
+   * Removes objects from the images bucket without throwing
+   *
+   * Used for rollback and cascade cleanup, where the primary operation has
+   * already succeeded or failed. Failures are logged; leftover files are
+   * picked up by ImageReconciliationService.
+   *
+   * @param supabase - Supabase client with user session
+   * @param paths - Storage paths to remove
+   */
+  static async removeStorageObjects(
+    supabase: SupabaseClient<Database>,
+    paths: string[]
+  ): Promise<void> {
+    if (paths.length === 0) {
+      return;
+    }
+
+    const { error } = await supabase.storage
+      .from(IMAGES_BUCKET)
+      .remove(paths);
+
+    if (error) {
+      console.error('Failed to remove image files from storage:', {
+        paths,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Uploads an image file and attaches it to an item or container
+   *
+   * Business Rules:
+   * - Entity must exist and belong to the authenticated user
+   * - Maximum 5 images per entity (also enforced by database trigger)
+   * - Display order defaults to the lowest free slot (1-5)
+   * - File is stored at user_id/entity_type/entity_id/image_id.ext
+   * - Thumbnail, medium and full variants are stored next to the original
+   * - Storage objects are removed if any upload or the metadata insert fails
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param entityType - Type of the parent entity
+   * @param entityId - ID of the parent entity
+   * @param command - Upload command with validated file and optional display order
+   * @returns Uploaded image as ImageDTO, or null if entity not found
+   * @throws {Error} If image limit is reached or display order is taken (with descriptive message)
+   * @throws {Error} If the file cannot be decoded as an image
+   * @throws {Error} If storage or database operation fails
+   */
+  static async uploadImage(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    entityType: EntityType,
+    entityId: string,
+    command: UploadImageCommand
+  ): Promise<ImageDTO | null> {
+    // Step 1: Verify parent entity ownership (polymorphic, no FK)
+    const exists = await this.entityExists(supabase, userId, entityType, entityId);
+
+    if (!exists) {
+      return null;
+    }
+
+    // Step 2: Load occupied display order slots
+    const { data: existingImages, error: existingError } = await supabase
+      .from('images')
+      .select('display_order')
+      .eq('user_id', userId)
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId);
+
+    if (existingError) {
+      throw existingError;
+    }
+
+    const usedOrders = new Set(existingImages.map((image) => image.display_order));
+
+    // Step 3: Enforce image limit before touching storage
+    if (usedOrders.size >= MAX_IMAGES_PER_ENTITY) {
+      throw new Error(`Cannot add more than ${MAX_IMAGES_PER_ENTITY} images per ${entityType}`);
+    }
+
+    // Step 4: Resolve display order (auto-assign lowest free slot)
+    let displayOrder = command.displayOrder;
+
+    if (displayOrder === undefined) {
+      displayOrder = 1;
+      while (usedOrders.has(displayOrder)) {
+        displayOrder += 1;
+      }
+    } else if (usedOrders.has(displayOrder)) {
+      throw new Error(`Display order already exists for this ${entityType}`);
+    }
+
+    // Step 5: Generate resized variants (fails fast on corrupt files)
+    let variants: Record<ImageVariant, Buffer>;
+    try {
+      variants = await generateImageVariants(command.file);
+    } catch {
+      throw new Error('File is not a valid image');
+    }
+
+    // Step 6: Upload original and variants to storage
+    const imageId = crypto.randomUUID();
+    const extension = ALLOWED_IMAGE_TYPES[command.file.type];
+    const storagePath = `${userId}/${entityType}/${entityId}/${imageId}.${extension}`;
+
+    const uploads: { path: string; body: File | Buffer; contentType: string }[] = [
+      { path: storagePath, body: command.file, contentType: command.file.type },
+      ...(Object.keys(variants) as ImageVariant[]).map((variant) => ({
+        path: getVariantPath(storagePath, variant),
+        body: variants[variant],
+        contentType: IMAGE_VARIANT_CONTENT_TYPE,
+      })),
+    ];
+
+    const uploadResults = await Promise.all(
+      uploads.map((upload) =>
+        supabase.storage
+          .from(IMAGES_BUCKET)
+          .upload(upload.path, upload.body, {
+            contentType: upload.contentType,
+            upsert: false,
+          })
+      )
+    );
+
+    const uploadError = uploadResults.find((result) => result.error)?.error;
+
+    if (uploadError) {
+      await this.removeStorageObjects(supabase, getAllImagePaths(storagePath));
+      throw uploadError;
+    }
+
+    // Step 7: Insert metadata row, rolling back the storage objects on failure
+    const { data: image, error: insertError } = await supabase
+      .from('images')
+      .insert({
+        id: imageId,
+        user_id: userId,
+        entity_type: entityType,
+        entity_id: entityId,
+        storage_path: storagePath,
+        display_order: displayOrder,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      await this.removeStorageObjects(supabase, getAllImagePaths(storagePath));
+
+      // Translate concurrent-upload races into the same business errors
+      if (insertError.message?.includes('Cannot add more than')) {
+        throw new Error(`Cannot add more than ${MAX_IMAGES_PER_ENTITY} images per ${entityType}`);
+      }
+      if (insertError.code === '23505') {
+        throw new Error(`Display order already exists for this ${entityType}`);
+      }
+
+      throw insertError;
+    }
+
+    const [imageDTO] = await this.toImageDTOs(supabase, [image]);
+    return imageDTO;
+  }
+
+  /**
+   * Replaces the display order of all images of an item or container
+   *
+   * Business Rules:
+   * - Entity must exist and belong to the authenticated user
+   * - Command must list every image of the entity exactly once
+   * - First image becomes display order 1 (the thumbnail)
+   * - Applied atomically by the reorder_images database function
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param entityType - Type of the parent entity
+   * @param entityId - ID of the parent entity
+   * @param command - Reorder command with the complete image ID list
+   * @returns Reordered images as ImageDTO[], or null if entity not found
+   * @throws {Error} If the ordering does not match the entity's images (with descriptive message)
+   * @throws {Error} If database operation fails
+   */
+  static async reorderImages(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    entityType: EntityType,
+    entityId: string,
+    command: ReorderImagesCommand
+  ): Promise<ImageDTO[] | null> {
+    // Step 1: Verify parent entity ownership (polymorphic, no FK)
+    const exists = await this.entityExists(supabase, userId, entityType, entityId);
+
+    if (!exists) {
+      return null;
+    }
+
+    // Step 2: Apply ordering in a single transaction
+    const { data, error } = await supabase.rpc('reorder_images', {
+      p_entity_type: entityType,
+      p_entity_id: entityId,
+      p_image_ids: command.imageIds,
+    });
+
+    if (error) {
+      // Ordering is incomplete, contains foreign IDs, or entity has no images
+      if (error.code === '22023' || error.code === 'P0002') {
+        throw new Error(`Image order must include every image of the ${entityType} exactly once`);
+      }
+
+      throw error;
+    }
+
+    return this.toImageDTOs(
+      supabase,
+      data.sort((a, b) => a.display_order - b.display_order)
+    );
+  }
+
+  /**
+   * Moves a single image to a new position, shifting the others
+   *
+   * Business Rules:
+   * - Image must belong to the given entity and the authenticated user
+   * - Moving an image to display order 1 promotes it to thumbnail
+   * - Positions beyond the image count are clamped to the last position
+   * - Applied atomically by the reorder_images database function
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param entityType - Type of the parent entity
+   * @param entityId - ID of the parent entity
+   * @param imageId - ID of the image to move
+   * @param command - Command with the requested display order
+   * @returns Moved image as ImageDTO, or null if image not found
+   * @throws {Error} If database operation fails
+   */
+  static async updateDisplayOrder(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    entityType: EntityType,
+    entityId: string,
+    imageId: string,
+    command: Pick<UpdateImageDisplayOrderCommand, 'displayOrder'>
+  ): Promise<ImageDTO | null> {
+    // Step 1: Load current ordering of the entity's images
+    const { data: images, error } = await supabase
+      .from('images')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId)
+      .order('display_order', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    const currentIds = images.map((image) => image.id);
+
+    if (!currentIds.includes(imageId)) {
+      return null;
+    }
+
+    // Step 2: Build new ordering with the image at the requested position
+    const imageIds = currentIds.filter((id) => id !== imageId);
+    const targetIndex = Math.min(command.displayOrder, currentIds.length) - 1;
+    imageIds.splice(targetIndex, 0, imageId);
+
+    // Step 3: Apply full ordering atomically
+    const reordered = await this.reorderImages(supabase, userId, entityType, entityId, { imageIds });
+
+    return reordered?.find((image) => image.id === imageId) ?? null;
+  }
+}
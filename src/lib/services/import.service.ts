@@ -0,0 +1,206 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../db/database.types';
+import type { ImportItemsCommand, ImportItemsReportDTO, ItemImportField } from '../../types';
+import { parseCsv } from '../csv';
+import { importItemRowSchema, MAX_IMPORT_ROWS, type ImportItemRowSchema } from '../validation/import.schema';
+import { fetchAllPages } from './query-helpers';
+
+/**
+ * Validated CSV row with its row number in the file (header is row 1)
+ */
+interface ValidImportRow {
+  rowNumber: number;
+  data: ImportItemRowSchema;
+}
+
+/**
+ * Keeps the first spelling of each name, compared case-insensitively
+ * (like idx_categories_user_name_unique)
+ */
+function uniqueNames(names: string[]): string[] {
+  const byKey = new Map<string, string>();
+  for (const name of names) {
+    const key = name.toLowerCase();
+    if (!byKey.has(key)) {
+      byKey.set(key, name);
+    }
+  }
+  return [...byKey.values()];
+}
+
+/**
+ * Service layer for bulk imports
+ *
+ * Imports are validated in full before anything is written, and then
+ * written in a single transaction by the import_items database function.
+ */
+export class ImportService {
+  /**
+   * Validates a CSV file of items and, unless it is a dry run, imports it
+   *
+   * Business Rules:
+   * - Every mapped column must exist in the header row
+   * - Rows follow the item rules; category and container are names
+   * - Categories and containers are matched case-insensitively and
+   *   created when missing (new containers at the top level)
+   * - A container name matching several of the user's containers is a row error
+   * - Nothing is imported if any row has an error (all-or-nothing)
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param command - CSV text, column mapping and dry run flag
+   * @returns Import report; errors use the ErrorResponseDTO details shape
+   * @throws {Error} If a container name became ambiguous while importing
+   * @throws {Error} If database operation fails
+   */
+  static async importItems(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    command: ImportItemsCommand
+  ): Promise<ImportItemsReportDTO> {
+    const report: ImportItemsReportDTO = {
+      dryRun: command.dryRun,
+      totalRows: 0,
+      validRows: 0,
+      errors: [],
+      newCategories: [],
+      newContainers: [],
+      importedItems: 0,
+    };
+
+    // Step 1: Parse the CSV file
+    let table: ReturnType<typeof parseCsv>;
+    try {
+      table = parseCsv(command.csv);
+    } catch (error) {
+      report.errors.push({ field: 'csv', message: error instanceof Error ? error.message : 'Failed to parse CSV' });
+      return report;
+    }
+
+    report.totalRows = table.rows.length;
+
+    if (table.rows.length === 0) {
+      report.errors.push({ field: 'csv', message: 'CSV contains no data rows' });
+      return report;
+    }
+
+    if (table.rows.length > MAX_IMPORT_ROWS) {
+      report.errors.push({ field: 'csv', message: `CSV must not contain more than ${MAX_IMPORT_ROWS} rows` });
+      return report;
+    }
+
+    // Step 2: Resolve mapped columns to header positions
+    const columns = new Map<ItemImportField, number>();
+    for (const [field, header] of Object.entries(command.mapping) as [ItemImportField, string | undefined][]) {
+      if (header === undefined) {
+        continue;
+      }
+
+      const index = table.headers.indexOf(header.trim());
+      if (index === -1) {
+        report.errors.push({ field: `mapping.${field}`, message: `Column "${header}" not found in CSV` });
+      } else {
+        columns.set(field, index);
+      }
+    }
+
+    if (report.errors.length > 0) {
+      return report;
+    }
+
+    // Step 3: Validate each row
+    const validRows: ValidImportRow[] = [];
+    table.rows.forEach((row, index) => {
+      const rowNumber = index + 2;
+      const values = Object.fromEntries([...columns].map(([field, columnIndex]) => [field, row[columnIndex]]));
+      const validation = importItemRowSchema.safeParse(values);
+
+      if (validation.success) {
+        validRows.push({ rowNumber, data: validation.data });
+      } else {
+        for (const err of validation.error.errors) {
+          report.errors.push({ field: `rows.${rowNumber}.${err.path.join('.')}`, message: err.message });
+        }
+      }
+    });
+
+    // Step 4: Match category and container names against existing ones
+    const [categories, containers] = await Promise.all([
+      fetchAllPages((from, to) =>
+        supabase
+          .from('categories')
+          .select('name')
+          .eq('user_id', userId)
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllPages((from, to) =>
+        supabase
+          .from('containers')
+          .select('name')
+          .eq('user_id', userId)
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+    ]);
+
+    const categoryKeys = new Set(categories.map((category) => category.name.toLowerCase()));
+    const containerCounts = new Map<string, number>();
+    for (const container of containers) {
+      const key = container.name.toLowerCase();
+      containerCounts.set(key, (containerCounts.get(key) ?? 0) + 1);
+    }
+
+    const importRows = validRows.filter(({ rowNumber, data }) => {
+      if ((containerCounts.get(data.container.toLowerCase()) ?? 0) > 1) {
+        report.errors.push({
+          field: `rows.${rowNumber}.container`,
+          message: `Container name "${data.container}" matches more than one container`,
+        });
+        return false;
+      }
+      return true;
+    });
+
+    // Keep errors in file order
+    report.errors.sort((a, b) => Number(a.field.split('.')[1]) - Number(b.field.split('.')[1]));
+
+    report.validRows = importRows.length;
+    report.newCategories = uniqueNames(
+      importRows.map(({ data }) => data.category).filter((name) => !categoryKeys.has(name.toLowerCase()))
+    );
+    report.newContainers = uniqueNames(
+      importRows.map(({ data }) => data.container).filter((name) => !containerCounts.has(name.toLowerCase()))
+    );
+
+    // Step 5: Stop here for a dry run or when any row is invalid
+    if (command.dryRun || report.errors.length > 0) {
+      return report;
+    }
+
+    // Step 6: Import all rows in a single transaction
+    const { data, error } = await supabase.rpc('import_items', {
+      p_rows: importRows.map(({ data: row }) => ({
+        name: row.name,
+        description: row.description ?? null,
+        category: row.category,
+        container: row.container,
+        quantity: row.quantity ?? null,
+        is_in: row.status ?? true,
+        barcode: row.barcode ?? null,
+      })),
+    });
+
+    if (error) {
+      if (error.code === '21000') {
+        throw new Error('Container name matches more than one container');
+      }
+
+      throw error;
+    }
+
+    report.importedItems = data;
+
+    return report;
+  }
+}
@@ -0,0 +1,509 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../db/database.types';
+import type {
+  CreateItemCommand,
+  UpdateItemCommand,
+  ItemDetailDTO,
+  ItemListItemDTO,
+  ItemListResponseDTO,
+} from '../../types';
+import { ImageService } from './image.service';
+import { CategoryService } from './category.service';
+import { ContainerService } from './container.service';
+import { MovementService } from './movement.service';
+import { TagService, toTagRefs } from './tag.service';
+
+/**
+ * Filtering, sorting and pagination options for listing items
+ */
+export interface ItemListFilters {
+  page: number;
+  limit: number;
+  search?: string;
+  categoryIds?: string[];
+  containerIds?: string[];
+  siteIds?: string[];
+  roomIds?: string[];
+  tagIds?: string[];
+  tagMatch?: 'any' | 'all'; // Defaults to "any"
+  barcodes?: string[]; // Exact matches, used by the barcode lookup
+  status: 'in' | 'out' | 'all';
+  sort: 'name' | 'created_at' | 'updated_at';
+  order: 'asc' | 'desc';
+}
+
+/**
+ * Maximum number of items returned by a barcode lookup
+ */
+export const BARCODE_LOOKUP_LIMIT = 100;
+
+/**
+ * Numeric lengths of GTIN barcodes (EAN-8, UPC-A, EAN-13, GTIN-14)
+ */
+const GTIN_LENGTHS = [8, 12, 13, 14];
+
+/**
+ * Returns the stored forms a scanned barcode may have
+ *
+ * Numeric codes are GTINs padded with leading zeros, so the same product
+ * appears as UPC-A (12 digits) or EAN-13 (13 digits) depending on the
+ * scanner. Other codes only match exactly.
+ *
+ * Example: 012345678905 -> 012345678905, 12345678905 (trimmed), 0012345678905, 00012345678905
+ */
+function getBarcodeVariants(barcode: string): string[] {
+  if (!/^\d+$/.test(barcode)) {
+    return [barcode];
+  }
+
+  const digits = barcode.replace(/^0+/, '');
+  const padded = GTIN_LENGTHS.filter((length) => length >= digits.length).map((length) =>
+    digits.padStart(length, '0')
+  );
+
+  return [...new Set([barcode, digits, ...padded])].filter((variant) => variant.length > 0);
+}
+
+/**
+ * Service layer for item-related operations
+ *
+ * Handles business logic for item management including creation,
+ * retrieval with filtering, updates, and deletion while maintaining
+ * data integrity and enforcing business rules.
+ */
+export class ItemService {
+  /**
+   * Verifies that the referenced category and container belong to the user
+   *
+   * Business Rules:
+   * - Only provided references are checked
+   * - RLS hides other users' rows, so foreign rows are reported as missing
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param categoryId - Optional category ID to verify
+   * @param containerId - Optional container ID to verify
+   * @throws {Error} If a referenced category or container does not belong to the user
+   * @throws {Error} If database operation fails
+   */
+  static async validateReferences(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    categoryId?: string,
+    containerId?: string
+  ): Promise<void> {
+    const [categoryResult, containerResult] = await Promise.all([
+      categoryId
+        ? supabase
+            .from('categories')
+            .select('id')
+            .eq('id', categoryId)
+            .eq('user_id', userId)
+            .maybeSingle()
+        : null,
+      containerId
+        ? supabase
+            .from('containers')
+            .select('id')
+            .eq('id', containerId)
+            .eq('user_id', userId)
+            .maybeSingle()
+        : null,
+    ]);
+
+    if (categoryResult?.error) {
+      throw categoryResult.error;
+    }
+    if (containerResult?.error) {
+      throw containerResult.error;
+    }
+
+    if (categoryResult && !categoryResult.data) {
+      throw new Error('Category does not exist or does not belong to user');
+    }
+    if (containerResult && !containerResult.data) {
+      throw new Error('Container does not exist or does not belong to user');
+    }
+  }
+
+  /**
+   * Creates a new item for the authenticated user
+   *
+   * Business Rules:
+   * - Category, tags and container must exist and belong to the user
+   * - The item and its tags are inserted in one transaction (create_item)
+   * - New items have no images
+   * - User ID is automatically associated from authentication context
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param command - Item creation command with validated fields
+   * @returns Created item as ItemDetailDTO
+   * @throws {Error} If category, tag or container is invalid (with descriptive message)
+   * @throws {Error} If database operation fails
+   */
+  static async createItem(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    command: CreateItemCommand
+  ): Promise<ItemDetailDTO> {
+    // Step 1: Verify referenced entities belong to the user
+    await this.validateReferences(supabase, userId, command.categoryId, command.containerId);
+    const tags = await TagService.validateTagIds(supabase, userId, command.tagIds ?? []);
+
+    // Step 2: Insert item with its tags in one transaction and fetch related names
+    const { data, error } = await supabase
+      .rpc('create_item', {
+        p_item: {
+          name: command.name, // Already trimmed by Zod transform
+          description: command.description ?? null,
+          category_id: command.categoryId,
+          container_id: command.containerId,
+          is_in: command.isIn,
+          quantity: command.quantity ?? null,
+          barcode: command.barcode ?? null,
+        },
+        p_tag_ids: tags.map((tag) => tag.id),
+      })
+      .select('*, categories(id, name), containers(id, name)');
+
+    if (error) {
+      throw error;
+    }
+
+    // Step 3: Resolve location path of the container
+    const locationPaths = await ContainerService.getLocationPaths(supabase, [data.container_id]);
+
+    // New items always start without images or movements
+    return {
+      id: data.id,
+      name: data.name,
+      shortCode: data.short_code,
+      description: data.description,
+      category: { id: data.category_id, name: data.categories?.name ?? '' },
+      tags,
+      container: { id: data.container_id, name: data.containers?.name ?? '' },
+      locationPath: locationPaths.get(data.container_id) ?? [],
+      isIn: data.is_in,
+      quantity: data.quantity,
+      barcode: data.barcode,
+      images: [],
+      movements: [],
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  }
+
+  /**
+   * Lists items for the authenticated user with filtering, sorting and pagination
+   *
+   * Business Rules:
+   * - All filters combine with AND logic
+   * - Name search is a case-insensitive prefix match on the name
+   *   (served by idx_items_user_name)
+   * - Category filters also match items in subcategories
+   * - Site/room, tag and name filters are applied by the filter_items
+   *   function, which is the base query (items in containers located
+   *   there, including nested ones; items with any of the tags, or all of
+   *   them with tagMatch "all")
+   * - Tags of each item are ordered by name
+   * - Thumbnail is the image with display_order = 1 (null if none)
+   * - Location path lists site, room and the container breadcrumb
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param filters - Filtering, sorting and pagination options
+   * @returns Paginated items as ItemListResponseDTO
+   * @throws {Error} If database operation fails
+   */
+  static async listItems(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    filters: ItemListFilters
+  ): Promise<ItemListResponseDTO> {
+    const offset = (filters.page - 1) * filters.limit;
+
+    // Category filters include all subcategories
+    const categoryIds = filters.categoryIds?.length
+      ? await CategoryService.resolveCategoryIds(supabase, userId, filters.categoryIds)
+      : undefined;
+
+    // Site/room, tag and name filters are applied by filter_items in the database
+    let query = supabase
+      .rpc(
+        'filter_items',
+        {
+          p_site_ids: filters.siteIds?.length ? filters.siteIds : null,
+          p_room_ids: filters.roomIds?.length ? filters.roomIds : null,
+          p_tag_ids: filters.tagIds?.length ? filters.tagIds : null,
+          p_match_all_tags: filters.tagMatch === 'all',
+          p_search: filters.search || null,
+        },
+        { count: 'exact' }
+      )
+      .select(
+        'id, name, is_in, quantity, created_at, updated_at, categories(id, name), containers(id, name), item_tags(tags(id, name))'
+      )
+      .eq('user_id', userId); // Explicit filter (RLS also enforces this)
+
+    if (categoryIds) {
+      query = query.in('category_id', categoryIds);
+    }
+
+    if (filters.containerIds) {
+      query = query.in('container_id', filters.containerIds);
+    }
+
+    if (filters.barcodes) {
+      query = query.in('barcode', filters.barcodes);
+    }
+
+    if (filters.status !== 'all') {
+      query = query.eq('is_in', filters.status === 'in');
+    }
+
+    const { data, error, count } = await query
+      .order(filters.sort, { ascending: filters.order === 'asc' })
+      .order('id', { ascending: true }) // Stable ordering across pages
+      .range(offset, offset + filters.limit - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    // Thumbnails are fetched separately due to polymorphic relationship
+    const [imageSummaries, locationPaths] = await Promise.all([
+      ImageService.getImageSummaries(
+        supabase,
+        userId,
+        'item',
+        data.map((item) => item.id)
+      ),
+      ContainerService.getLocationPaths(
+        supabase,
+        data.flatMap((item) => (item.containers ? [item.containers.id] : []))
+      ),
+    ]);
+
+    const items: ItemListItemDTO[] = data.map((item) => ({
+      id: item.id,
+      name: item.name,
+      thumbnail: imageSummaries.get(item.id)?.thumbnail ?? null,
+      category: { id: item.categories?.id ?? '', name: item.categories?.name ?? '' },
+      tags: toTagRefs(item.item_tags),
+      container: { id: item.containers?.id ?? '', name: item.containers?.name ?? '' },
+      locationPath: (item.containers && locationPaths.get(item.containers.id)) || [],
+      isIn: item.is_in,
+      quantity: item.quantity,
+      createdAt: item.created_at,
+      updatedAt: item.updated_at,
+    }));
+
+    const total = count ?? 0;
+
+    return {
+      data: items,
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit),
+      },
+    };
+  }
+
+  /**
+   * Finds the user's items carrying a scanned barcode
+   *
+   * Business Rules:
+   * - Numeric codes match regardless of leading zeros (UPC-A vs EAN-13)
+   * - Items are returned with their location path, ordered by name
+   * - At most BARCODE_LOOKUP_LIMIT items are returned
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param barcode - Scanned barcode (trimmed)
+   * @returns Matching items as ItemListItemDTO[] (empty if none)
+   * @throws {Error} If database operation fails
+   */
+  static async findItemsByBarcode(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    barcode: string
+  ): Promise<ItemListItemDTO[]> {
+    const { data } = await this.listItems(supabase, userId, {
+      page: 1,
+      limit: BARCODE_LOOKUP_LIMIT,
+      barcodes: getBarcodeVariants(barcode),
+      status: 'all',
+      sort: 'name',
+      order: 'asc',
+    });
+
+    return data;
+  }
+
+  /**
+   * Retrieves a single item with category, tags, container, images and recent movements
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param itemId - ID of the item to retrieve
+   * @returns Item as ItemDetailDTO, or null if not found
+   * @throws {Error} If database operation fails
+   */
+  static async getItem(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    itemId: string
+  ): Promise<ItemDetailDTO | null> {
+    const { data: item, error } = await supabase
+      .from('items')
+      .select('*, categories(id, name), containers(id, name), item_tags(tags(id, name))')
+      .eq('id', itemId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!item) {
+      return null;
+    }
+
+    // Images are fetched separately due to polymorphic relationship
+    const [images, locationPaths, movements] = await Promise.all([
+      ImageService.listImages(supabase, userId, 'item', item.id),
+      ContainerService.getLocationPaths(supabase, [item.container_id]),
+      MovementService.listItemMovements(supabase, userId, item.id),
+    ]);
+
+    return {
+      id: item.id,
+      name: item.name,
+      shortCode: item.short_code,
+      description: item.description,
+      category: { id: item.category_id, name: item.categories?.name ?? '' },
+      tags: toTagRefs(item.item_tags),
+      container: { id: item.container_id, name: item.containers?.name ?? '' },
+      locationPath: locationPaths.get(item.container_id) ?? [],
+      isIn: item.is_in,
+      quantity: item.quantity,
+      barcode: item.barcode,
+      images,
+      movements,
+      createdAt: item.created_at,
+      updatedAt: item.updated_at,
+    };
+  }
+
+  /**
+   * Updates an existing item
+   *
+   * Business Rules:
+   * - Item must exist and belong to the authenticated user
+   * - Changed category, tags or container must exist and belong to the user
+   * - Only provided fields are updated
+   * - Provided tagIds replace all tags of the item
+   * - Changing isIn opens or closes a loan without details (sync_item_loans
+   *   trigger); LoanService records borrower and due date
+   * - Changing the container is recorded in the movement history
+   *   (record_item_movement trigger); field changes, tags and the move
+   *   reason are applied by update_item in one transaction
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param itemId - ID of the item to update
+   * @param command - Item update command with validated fields
+   * @returns Updated item as ItemDetailDTO, or null if not found
+   * @throws {Error} If category, tag or container is invalid (with descriptive message)
+   * @throws {Error} If database operation fails
+   */
+  static async updateItem(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    itemId: string,
+    command: UpdateItemCommand
+  ): Promise<ItemDetailDTO | null> {
+    // Step 1: Verify changed references belong to the user
+    await this.validateReferences(supabase, userId, command.categoryId, command.containerId);
+    await TagService.validateTagIds(supabase, userId, command.tagIds ?? []);
+
+    // Step 2: Apply field changes, tags and the move reason in one transaction
+    const changes = {
+      ...(command.name !== undefined && { name: command.name }),
+      ...(command.description !== undefined && { description: command.description }),
+      ...(command.categoryId !== undefined && { category_id: command.categoryId }),
+      ...(command.containerId !== undefined && { container_id: command.containerId }),
+      ...(command.isIn !== undefined && { is_in: command.isIn }),
+      ...(command.quantity !== undefined && { quantity: command.quantity }),
+      ...(command.barcode !== undefined && { barcode: command.barcode }),
+    };
+
+    if (Object.keys(changes).length > 0 || command.tagIds !== undefined) {
+      const { error } = await supabase.rpc('update_item', {
+        p_item_id: itemId,
+        p_changes: changes,
+        p_tag_ids: command.tagIds ?? null,
+        p_move_reason: command.moveReason || null,
+      });
+
+      if (error) {
+        if (error.code === 'P0002') {
+          return null;
+        }
+
+        throw error;
+      }
+    }
+
+    return this.getItem(supabase, userId, itemId);
+  }
+
+  /**
+   * Deletes an item together with its images
+   *
+   * Business Rules:
+   * - Item must exist and belong to the authenticated user
+   * - RLS policies enforce user ownership at database level
+   * - Image rows are removed by the delete_item_images trigger
+   * - Image files (original and variants) are removed from storage afterwards
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param itemId - UUID of the item to delete
+   * @returns Object with item id and name if successful, null if not found
+   * @throws {Error} If database operation fails
+   */
+  static async deleteItem(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    itemId: string
+  ): Promise<{ id: string; name: string } | null> {
+    // Step 1: Collect storage paths before the trigger removes image rows
+    const storagePaths = await ImageService.listEntityStoragePaths(supabase, userId, 'item', itemId);
+
+    // Step 2: Delete item (image rows are deleted in the same transaction)
+    const { data, error } = await supabase
+      .from('items')
+      .delete()
+      .eq('id', itemId)
+      .eq('user_id', userId)
+      .select('id, name')
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    // Step 3: Remove image files from storage
+    await ImageService.removeStorageObjects(supabase, storagePaths);
+
+    return data;
+  }
+}
@@ -0,0 +1,432 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import QRCode from 'qrcode';
+import type { Database } from '../../db/database.types';
+import type { CreateContainerLabelsCommand, LabelLayoutId } from '../../types';
+import { MAX_LABELS_PER_REQUEST } from '../validation/container.schema';
+
+/**
+ * Geometry of a label sheet (all values in millimetres)
+ *
+ * marginLeft/marginTop locate the top-left label; columnPitch/rowPitch
+ * are the distances between the top-left corners of neighbouring labels
+ */
+interface LabelLayout {
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginLeft: number;
+  marginTop: number;
+  columnPitch: number;
+  rowPitch: number;
+}
+
+/**
+ * Supported label sheets
+ *
+ * - a4: 3 x 8 labels of 70 x 37 mm without gaps (e.g. Avery 3474)
+ * - avery-l7160: A4, 3 x 7 labels of 63.5 x 38.1 mm
+ * - avery-l7163: A4, 2 x 7 labels of 99.1 x 38.1 mm
+ * - avery-l7165: A4, 2 x 4 labels of 99.1 x 67.7 mm
+ * - avery-l7651: A4, 5 x 13 labels of 38.1 x 21.2 mm
+ * - avery-5160: US Letter, 3 x 10 labels of 2.625 x 1 in
+ * - avery-5163: US Letter, 2 x 5 labels of 4 x 2 in
+ */
+export const LABEL_LAYOUTS: Record<LabelLayoutId, LabelLayout> = {
+  a4: {
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 3,
+    rows: 8,
+    labelWidth: 70,
+    labelHeight: 37,
+    marginLeft: 0,
+    marginTop: 0.5,
+    columnPitch: 70,
+    rowPitch: 37,
+  },
+  'avery-l7160': {
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    marginLeft: 7.25,
+    marginTop: 15.15,
+    columnPitch: 66.04,
+    rowPitch: 38.1,
+  },
+  'avery-l7163': {
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 2,
+    rows: 7,
+    labelWidth: 99.1,
+    labelHeight: 38.1,
+    marginLeft: 4.65,
+    marginTop: 15.15,
+    columnPitch: 101.6,
+    rowPitch: 38.1,
+  },
+  'avery-l7165': {
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 2,
+    rows: 4,
+    labelWidth: 99.1,
+    labelHeight: 67.7,
+    marginLeft: 4.65,
+    marginTop: 13.1,
+    columnPitch: 101.6,
+    rowPitch: 67.7,
+  },
+  'avery-l7651': {
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 5,
+    rows: 13,
+    labelWidth: 38.1,
+    labelHeight: 21.2,
+    marginLeft: 4.75,
+    marginTop: 10.7,
+    columnPitch: 40.6,
+    rowPitch: 21.2,
+  },
+  'avery-5160': {
+    pageWidth: 215.9,
+    pageHeight: 279.4,
+    columns: 3,
+    rows: 10,
+    labelWidth: 66.675,
+    labelHeight: 25.4,
+    marginLeft: 4.7625,
+    marginTop: 12.7,
+    columnPitch: 69.85,
+    rowPitch: 25.4,
+  },
+  'avery-5163': {
+    pageWidth: 215.9,
+    pageHeight: 279.4,
+    columns: 2,
+    rows: 5,
+    labelWidth: 101.6,
+    labelHeight: 50.8,
+    marginLeft: 3.96875,
+    marginTop: 12.7,
+    columnPitch: 106.3625,
+    rowPitch: 50.8,
+  },
+};
+
+/**
+ * PDF points per millimetre
+ */
+const PT_PER_MM = 72 / 25.4;
+
+/**
+ * Content of a single label
+ */
+interface LabelContent {
+  name: string;
+  shortCode: string;
+  url: string;
+}
+
+/**
+ * Fonts used on the labels
+ */
+interface LabelFonts {
+  name: PDFFont;
+  code: PDFFont;
+}
+
+/**
+ * Replaces characters the standard PDF fonts cannot encode (WinAnsi) with "?"
+ */
+function toEncodableText(text: string, font: PDFFont): string {
+  const characterSet = new Set(font.getCharacterSet());
+
+  return Array.from(text.normalize('NFC'))
+    .map((char) => (characterSet.has(char.codePointAt(0) ?? 0) ? char : '?'))
+    .join('');
+}
+
+/**
+ * Shortens text with an ellipsis until it fits the given width
+ */
+function truncateText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) {
+    return text;
+  }
+
+  let truncated = text;
+  while (truncated.length > 0 && font.widthOfTextAtSize(`${truncated}...`, size) > maxWidth) {
+    truncated = truncated.slice(0, -1);
+  }
+
+  return `${truncated.trimEnd()}...`;
+}
+
+/**
+ * Wraps text at word boundaries into at most maxLines lines
+ * Overlong words are broken; the last line is truncated with an ellipsis
+ */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter((part) => part.length > 0)) {
+    const candidate = current ? `${current} ${word}` : word;
+
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) {
+      lines.push(current);
+    }
+
+    // Break words that do not fit on a line of their own
+    current = word;
+    while (font.widthOfTextAtSize(current, size) > maxWidth && current.length > 1) {
+      let splitAt = current.length - 1;
+      while (splitAt > 1 && font.widthOfTextAtSize(current.slice(0, splitAt), size) > maxWidth) {
+        splitAt--;
+      }
+      lines.push(current.slice(0, splitAt));
+      current = current.slice(splitAt);
+    }
+  }
+
+  if (current) {
+    lines.push(current);
+  }
+
+  if (lines.length <= maxLines) {
+    return lines;
+  }
+
+  const visible = lines.slice(0, maxLines);
+  visible[maxLines - 1] = truncateText(`${visible[maxLines - 1]} ${lines[maxLines]}`, font, size, maxWidth);
+  return visible;
+}
+
+/**
+ * Draws a QR code as vector rectangles (one per run of dark modules in a row)
+ *
+ * @param page - Page to draw on
+ * @param url - Encoded URL
+ * @param x - Left edge in points
+ * @param y - Bottom edge in points
+ * @param size - Width and height in points
+ */
+function drawQrCode(page: PDFPage, url: string, x: number, y: number, size: number): void {
+  const { modules } = QRCode.create(url, { errorCorrectionLevel: 'M' });
+  const moduleSize = size / modules.size;
+  const black = rgb(0, 0, 0);
+
+  for (let row = 0; row < modules.size; row++) {
+    let runStart = -1;
+
+    for (let col = 0; col <= modules.size; col++) {
+      const dark = col < modules.size && modules.get(row, col) === 1;
+
+      if (dark && runStart < 0) {
+        runStart = col;
+      } else if (!dark && runStart >= 0) {
+        page.drawRectangle({
+          x: x + runStart * moduleSize,
+          y: y + size - (row + 1) * moduleSize,
+          width: (col - runStart) * moduleSize,
+          height: moduleSize,
+          color: black,
+        });
+        runStart = -1;
+      }
+    }
+  }
+}
+
+/**
+ * Draws one label: QR code on the left, name and short code on the right
+ *
+ * Font sizes scale with the label height, so small sheets stay legible
+ *
+ * @param page - Page to draw on
+ * @param fonts - Embedded fonts
+ * @param label - Label content
+ * @param x - Left edge of the label in points
+ * @param y - Bottom edge of the label in points
+ * @param width - Label width in points
+ * @param height - Label height in points
+ */
+function drawLabel(
+  page: PDFPage,
+  fonts: LabelFonts,
+  label: LabelContent,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  const padding = Math.min(3 * PT_PER_MM, height * 0.1);
+  const qrSize = Math.min(height - 2 * padding, width / 2);
+
+  drawQrCode(page, label.url, x + padding, y + (height - qrSize) / 2, qrSize);
+
+  const textX = x + 2 * padding + qrSize;
+  const textWidth = width - qrSize - 3 * padding;
+  const textHeight = height - 2 * padding;
+  const nameSize = Math.min(12, Math.max(6, (height / PT_PER_MM) * 0.3));
+  const codeSize = Math.max(5, nameSize * 0.8);
+  const lineHeight = nameSize * 1.2;
+  const maxNameLines = Math.max(1, Math.min(3, Math.floor((textHeight - codeSize * 1.4) / lineHeight)));
+
+  const nameLines = wrapText(
+    toEncodableText(label.name, fonts.name),
+    fonts.name,
+    nameSize,
+    textWidth,
+    maxNameLines
+  );
+
+  nameLines.forEach((line, index) => {
+    page.drawText(line, {
+      x: textX,
+      y: y + height - padding - nameSize - index * lineHeight,
+      size: nameSize,
+      font: fonts.name,
+    });
+  });
+
+  page.drawText(truncateText(label.shortCode, fonts.code, codeSize, textWidth), {
+    x: textX,
+    y: y + padding,
+    size: codeSize,
+    font: fonts.code,
+    color: rgb(0.25, 0.25, 0.25),
+  });
+}
+
+/**
+ * Service layer for printable container labels
+ *
+ * PDFs are generated in-process with pdf-lib and qrcode; no external
+ * service is involved.
+ */
+export class LabelService {
+  /**
+   * Creates a PDF of QR code labels for containers
+   *
+   * Business Rules:
+   * - Containers are given by ID (printed in the given order) or by room
+   *   (all containers in the room, ordered by name)
+   * - Each label shows the container name, its short code and a QR code
+   *   with the short link /c/:code (resolved to the container page)
+   * - The first `skip` positions of the first sheet stay empty, so partly
+   *   used sheets can be reused
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param command - Containers, sheet layout and skipped positions
+   * @param baseUrl - Origin used for the QR code links (e.g. https://example.com)
+   * @returns PDF bytes, or null if a container does not exist, does not belong to the user, or the room has no containers
+   * @throws {Error} If skip does not fit the layout, the room has too many containers, or database operation fails
+   */
+  static async createContainerLabels(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    command: CreateContainerLabelsCommand,
+    baseUrl: string
+  ): Promise<Uint8Array | null> {
+    const layout = LABEL_LAYOUTS[command.layout];
+    const labelsPerSheet = layout.columns * layout.rows;
+
+    // Step 1: Validate skip against the sheet layout
+    if (command.skip >= labelsPerSheet) {
+      throw new Error(`Skip must be less than ${labelsPerSheet} for this layout`);
+    }
+
+    // Step 2: Fetch containers (RLS and user_id filter ensure ownership)
+    let query = supabase.from('containers').select('id, name, short_code').eq('user_id', userId);
+
+    if (command.containerIds) {
+      query = query.in('id', command.containerIds);
+    } else if (command.roomId) {
+      query = query.eq('room_id', command.roomId);
+    }
+
+    const { data: containers, error } = await query
+      .order('name', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(MAX_LABELS_PER_REQUEST + 1);
+
+    if (error) {
+      throw error;
+    }
+
+    if (containers.length === 0) {
+      return null;
+    }
+
+    if (containers.length > MAX_LABELS_PER_REQUEST) {
+      throw new Error(`Cannot print more than ${MAX_LABELS_PER_REQUEST} labels at once`);
+    }
+
+    // Step 3: Keep the requested order (all requested containers must exist)
+    let ordered = containers;
+
+    if (command.containerIds) {
+      const byId = new Map(containers.map((container) => [container.id, container]));
+
+      if (byId.size !== command.containerIds.length) {
+        return null;
+      }
+
+      ordered = command.containerIds.flatMap((id) => byId.get(id) ?? []);
+    }
+
+    // Step 4: Render labels sheet by sheet
+    const pdf = await PDFDocument.create();
+    pdf.setTitle('Container labels');
+
+    const fonts: LabelFonts = {
+      name: await pdf.embedFont(StandardFonts.HelveticaBold),
+      code: await pdf.embedFont(StandardFonts.CourierBold),
+    };
+
+    let page: PDFPage | null = null;
+
+    for (const [index, container] of ordered.entries()) {
+      const position = (index + command.skip) % labelsPerSheet;
+
+      if (!page || position === 0) {
+        page = pdf.addPage([layout.pageWidth * PT_PER_MM, layout.pageHeight * PT_PER_MM]);
+      }
+
+      const column = position % layout.columns;
+      const row = Math.floor(position / layout.columns);
+
+      drawLabel(
+        page,
+        fonts,
+        {
+          name: container.name,
+          shortCode: container.short_code,
+          url: `${baseUrl}/c/${container.short_code}`,
+        },
+        (layout.marginLeft + column * layout.columnPitch) * PT_PER_MM,
+        (layout.pageHeight - layout.marginTop - row * layout.rowPitch - layout.labelHeight) * PT_PER_MM,
+        layout.labelWidth * PT_PER_MM,
+        layout.labelHeight * PT_PER_MM
+      );
+    }
+
+    return pdf.save();
+  }
+}
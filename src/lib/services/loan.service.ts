@@ -0,0 +1,275 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../db/database.types';
+import type {
+  CheckedOutItemDTO,
+  CheckedOutItemListResponseDTO,
+  CheckinItemCommand,
+  CheckoutItemCommand,
+  ItemHistoryResponseDTO,
+  ItemLoan,
+  ItemLoanDTO,
+} from '../../types';
+
+/**
+ * Maps an item_loans row to ItemLoanDTO
+ */
+function toLoanDTO(loan: ItemLoan): ItemLoanDTO {
+  return {
+    id: loan.id,
+    itemId: loan.item_id,
+    borrower: loan.borrower,
+    dueDate: loan.due_date,
+    note: loan.note,
+    checkedOutAt: loan.checked_out_at,
+    checkedInAt: loan.checked_in_at,
+    returnNote: loan.return_note,
+  };
+}
+
+/**
+ * Filters for listing items that are currently checked out
+ */
+export interface CheckedOutItemFilters {
+  page: number;
+  limit: number;
+  overdueOnly: boolean;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Today's date in UTC as YYYY-MM-DD (the format of item_loans.due_date)
+ */
+function todayUTC(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Whole days between a due date and today; negative before the due date
+ */
+function daysPastDue(dueDate: string, today: string): number {
+  return Math.round((Date.parse(today) - Date.parse(dueDate)) / MS_PER_DAY);
+}
+
+/**
+ * Service layer for item check-out / check-in operations
+ *
+ * Every check-out opens an item_loans row and every check-in closes it.
+ * Status changes run in the checkout_item / checkin_item database functions,
+ * which lock the item and keep items.is_in in sync with the open loan.
+ */
+export class LoanService {
+  /**
+   * Checks an item out
+   *
+   * Business Rules:
+   * - Item must exist and belong to the authenticated user (enforced by checkout_item)
+   * - Item must currently be in storage
+   * - Borrower, due date and note are optional
+   * - Sets the item's is_in status to false
+   *
+   * @param supabase - Supabase client with user session
+   * @param itemId - ID of the item to check out
+   * @param command - Check-out details
+   * @returns Opened loan as ItemLoanDTO, or null if item not found
+   * @throws {Error} If the item is already checked out
+   * @throws {Error} If database operation fails
+   */
+  static async checkoutItem(
+    supabase: SupabaseClient<Database>,
+    itemId: string,
+    command: CheckoutItemCommand
+  ): Promise<ItemLoanDTO | null> {
+    const { data, error } = await supabase.rpc('checkout_item', {
+      p_item_id: itemId,
+      p_borrower: command.borrower ?? null,
+      p_due_date: command.dueDate ?? null,
+      p_note: command.note ?? null,
+    });
+
+    if (error) {
+      if (error.code === 'P0002') {
+        return null;
+      }
+
+      if (error.code === '55000') {
+        throw new Error('Item is already checked out');
+      }
+
+      throw error;
+    }
+
+    return toLoanDTO(data);
+  }
+
+  /**
+   * Checks an item back in
+   *
+   * Business Rules:
+   * - Item must exist and belong to the authenticated user (enforced by checkin_item)
+   * - Item must currently be checked out
+   * - Closes the open loan with the optional return note
+   * - Sets the item's is_in status to true
+   *
+   * @param supabase - Supabase client with user session
+   * @param itemId - ID of the item to check in
+   * @param command - Check-in details
+   * @returns Closed loan as ItemLoanDTO, or null if item not found
+   * @throws {Error} If the item is not checked out
+   * @throws {Error} If database operation fails
+   */
+  static async checkinItem(
+    supabase: SupabaseClient<Database>,
+    itemId: string,
+    command: CheckinItemCommand
+  ): Promise<ItemLoanDTO | null> {
+    const { data, error } = await supabase.rpc('checkin_item', {
+      p_item_id: itemId,
+      p_note: command.note ?? null,
+    });
+
+    if (error) {
+      if (error.code === 'P0002') {
+        return null;
+      }
+
+      if (error.code === '55000') {
+        throw new Error('Item is not checked out');
+      }
+
+      throw error;
+    }
+
+    return toLoanDTO(data);
+  }
+
+  /**
+   * Retrieves the check-out history of an item, newest first
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param itemId - ID of the item
+   * @param page - Page number (1-based)
+   * @param limit - Loans per page
+   * @returns Paginated loans as ItemHistoryResponseDTO, or null if item not found
+   * @throws {Error} If database operation fails
+   */
+  static async getItemHistory(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    itemId: string,
+    page: number,
+    limit: number
+  ): Promise<ItemHistoryResponseDTO | null> {
+    // Step 1: Verify item ownership
+    const { data: item, error: itemError } = await supabase
+      .from('items')
+      .select('id')
+      .eq('id', itemId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (itemError) {
+      throw itemError;
+    }
+
+    if (!item) {
+      return null;
+    }
+
+    // Step 2: Fetch the requested page of loans
+    const from = (page - 1) * limit;
+    const { data, error, count } = await supabase
+      .from('item_loans')
+      .select('*', { count: 'exact' })
+      .eq('item_id', itemId)
+      .eq('user_id', userId)
+      .order('checked_out_at', { ascending: false })
+      .order('id', { ascending: true }) // Stable ordering across pages
+      .range(from, from + limit - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    const total = count ?? 0;
+
+    return {
+      data: data.map(toLoanDTO),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Lists items that are currently checked out with their open loans
+   *
+   * Business Rules:
+   * - An item is out while it has an open loan (is_in = false)
+   * - Ordered by due date (soonest / most overdue first), loans without a
+   *   due date last, then by check-out time
+   * - A loan is overdue once its due date is before today (UTC)
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param filters - Pagination and overdue filter
+   * @returns Paginated items as CheckedOutItemListResponseDTO
+   * @throws {Error} If database operation fails
+   */
+  static async listCheckedOutItems(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    filters: CheckedOutItemFilters
+  ): Promise<CheckedOutItemListResponseDTO> {
+    const today = todayUTC();
+    const from = (filters.page - 1) * filters.limit;
+
+    let query = supabase
+      .from('item_loans')
+      .select('*, items!inner(id, name, containers!inner(id, name))', { count: 'exact' })
+      .eq('user_id', userId)
+      .is('checked_in_at', null);
+
+    if (filters.overdueOnly) {
+      query = query.lt('due_date', today);
+    }
+
+    const { data, error, count } = await query
+      .order('due_date', { ascending: true, nullsFirst: false })
+      .order('checked_out_at', { ascending: true })
+      .order('id', { ascending: true }) // Stable ordering across pages
+      .range(from, from + filters.limit - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    const items: CheckedOutItemDTO[] = data.map(({ items: item, ...loan }) => {
+      const daysOverdue = loan.due_date !== null ? Math.max(0, daysPastDue(loan.due_date, today)) : null;
+
+      return {
+        item: { id: item.id, name: item.name },
+        container: { id: item.containers.id, name: item.containers.name },
+        loan: toLoanDTO(loan),
+        daysOverdue,
+        isOverdue: daysOverdue !== null && daysOverdue > 0,
+      };
+    });
+
+    const total = count ?? 0;
+
+    return {
+      data: items,
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit),
+      },
+    };
+  }
+}
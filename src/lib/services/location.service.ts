@@ -0,0 +1,536 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../db/database.types';
+import type {
+  CreateSiteCommand,
+  UpdateSiteCommand,
+  CreateRoomCommand,
+  UpdateRoomCommand,
+  SiteDTO,
+  RoomDTO,
+} from '../../types';
+
+/**
+ * Room row with container count aggregation as returned by Supabase
+ */
+interface RoomWithCount {
+  id: string;
+  name: string;
+  site_id: string;
+  created_at: string;
+  updated_at: string;
+  containers: { count: number }[];
+}
+
+/**
+ * Maps a room row with aggregated container count to RoomDTO
+ */
+function toRoomDTO(room: RoomWithCount): RoomDTO {
+  return {
+    id: room.id,
+    name: room.name,
+    siteId: room.site_id,
+    containerCount: room.containers?.[0]?.count ?? 0, // Extract count from aggregation
+    createdAt: room.created_at,
+    updatedAt: room.updated_at,
+  };
+}
+
+/**
+ * Service layer for location-related operations
+ *
+ * Locations form a two-level hierarchy above containers: a site (home,
+ * cabin, storage unit) contains rooms, and top-level containers are
+ * assigned to a room. Nested containers inherit the room of their parent.
+ */
+export class LocationService {
+  /**
+   * Lists all sites of the authenticated user with their rooms
+   *
+   * Business Rules:
+   * - Returns all user's sites (no pagination, like categories)
+   * - Sites and rooms are ordered by name
+   * - Each room includes the number of containers assigned to it
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @returns Array of sites as SiteDTO[]
+   * @throws {Error} If database operation fails
+   */
+  static async listSites(
+    supabase: SupabaseClient<Database>,
+    userId: string
+  ): Promise<SiteDTO[]> {
+    const { data, error } = await supabase
+      .from('sites')
+      .select('id, name, created_at, updated_at, rooms(id, name, site_id, created_at, updated_at, containers(count))')
+      .eq('user_id', userId) // Explicit filter (RLS also enforces this)
+      .order('name', { ascending: true })
+      .order('name', { referencedTable: 'rooms', ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data.map((site) => ({
+      id: site.id,
+      name: site.name,
+      rooms: site.rooms.map(toRoomDTO),
+      createdAt: site.created_at,
+      updatedAt: site.updated_at,
+    }));
+  }
+
+  /**
+   * Creates a new site for the authenticated user
+   *
+   * Business Rules:
+   * - Site names must be unique per user (case-insensitive)
+   * - New sites have no rooms
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param command - Site creation command with validated name
+   * @returns Created site as SiteDTO
+   * @throws {Error} If site name already exists (code: '23505')
+   * @throws {Error} If database operation fails
+   */
+  static async createSite(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    command: CreateSiteCommand
+  ): Promise<SiteDTO> {
+    const { data, error } = await supabase
+      .from('sites')
+      .insert({
+        user_id: userId,
+        name: command.name, // Already trimmed by Zod transform
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    // New sites always start without rooms
+    return {
+      id: data.id,
+      name: data.name,
+      rooms: [],
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  }
+
+  /**
+   * Renames an existing site
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param siteId - ID of the site to update
+   * @param command - Site update command with validated name
+   * @returns Updated site as SiteDTO, or null if not found
+   * @throws {Error} If new name conflicts with existing site (code: '23505')
+   * @throws {Error} If database operation fails
+   */
+  static async updateSite(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    siteId: string,
+    command: UpdateSiteCommand
+  ): Promise<SiteDTO | null> {
+    const { data, error } = await supabase
+      .from('sites')
+      .update({ name: command.name })
+      .eq('id', siteId)
+      .eq('user_id', userId)
+      .select('id, name, created_at, updated_at, rooms(id, name, site_id, created_at, updated_at, containers(count))')
+      .order('name', { referencedTable: 'rooms', ascending: true })
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    return {
+      id: data.id,
+      name: data.name,
+      rooms: data.rooms.map(toRoomDTO),
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  }
+
+  /**
+   * Deletes a site if it has no rooms
+   *
+   * Business Rules:
+   * - Site must exist and belong to the authenticated user
+   * - Site must have zero rooms (enforces referential integrity)
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param siteId - UUID of the site to delete
+   * @returns Object with site id and name if successful, null if not found
+   * @throws {Error} If site has rooms (with descriptive message)
+   * @throws {Error} If database operation fails
+   */
+  static async deleteSite(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    siteId: string
+  ): Promise<{ id: string; name: string } | null> {
+    // Step 1: Fetch site and verify ownership
+    const { data: site, error: fetchError } = await supabase
+      .from('sites')
+      .select('id, name')
+      .eq('id', siteId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw fetchError;
+    }
+
+    if (!site) {
+      return null;
+    }
+
+    // Step 2: Count rooms
+    const { count, error: countError } = await supabase
+      .from('rooms')
+      .select('id', { count: 'exact', head: true })
+      .eq('site_id', siteId)
+      .eq('user_id', userId);
+
+    if (countError) {
+      throw countError;
+    }
+
+    // Step 3: Check if site has rooms (business rule enforcement)
+    if (count && count > 0) {
+      const roomWord = count === 1 ? 'room' : 'rooms';
+      throw new Error(`Cannot delete ${site.name} because it contains ${count} ${roomWord}`);
+    }
+
+    // Step 4: Delete site
+    const { error: deleteError } = await supabase
+      .from('sites')
+      .delete()
+      .eq('id', siteId)
+      .eq('user_id', userId);
+
+    if (deleteError) {
+      throw deleteError;
+    }
+
+    return {
+      id: site.id,
+      name: site.name,
+    };
+  }
+
+  /**
+   * Verifies that a site exists and belongs to the user
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param siteId - Site ID to verify
+   * @throws {Error} If the site does not belong to the user
+   * @throws {Error} If database operation fails
+   */
+  static async validateSite(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    siteId: string
+  ): Promise<void> {
+    const { data, error } = await supabase
+      .from('sites')
+      .select('id')
+      .eq('id', siteId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      throw new Error('Site does not exist or does not belong to user');
+    }
+  }
+
+  /**
+   * Lists rooms of the authenticated user
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param siteId - Optional site to list rooms of
+   * @returns Array of rooms ordered by name as RoomDTO[]
+   * @throws {Error} If database operation fails
+   */
+  static async listRooms(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    siteId?: string
+  ): Promise<RoomDTO[]> {
+    let query = supabase
+      .from('rooms')
+      .select('id, name, site_id, created_at, updated_at, containers(count)')
+      .eq('user_id', userId);
+
+    if (siteId) {
+      query = query.eq('site_id', siteId);
+    }
+
+    const { data, error } = await query.order('name', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data.map(toRoomDTO);
+  }
+
+  /**
+   * Creates a new room in one of the user's sites
+   *
+   * Business Rules:
+   * - Site must exist and belong to the user
+   * - Room names must be unique per site (case-insensitive)
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param command - Room creation command with validated fields
+   * @returns Created room as RoomDTO
+   * @throws {Error} If site is invalid (with descriptive message)
+   * @throws {Error} If room name already exists in the site (code: '23505')
+   * @throws {Error} If database operation fails
+   */
+  static async createRoom(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    command: CreateRoomCommand
+  ): Promise<RoomDTO> {
+    // Step 1: Verify site belongs to the user
+    await this.validateSite(supabase, userId, command.siteId);
+
+    // Step 2: Insert room
+    const { data, error } = await supabase
+      .from('rooms')
+      .insert({
+        user_id: userId,
+        site_id: command.siteId,
+        name: command.name, // Already trimmed by Zod transform
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    // New rooms always start without containers
+    return {
+      id: data.id,
+      name: data.name,
+      siteId: data.site_id,
+      containerCount: 0,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  }
+
+  /**
+   * Updates an existing room
+   *
+   * Business Rules:
+   * - Room must exist and belong to the authenticated user
+   * - A new site must exist and belong to the user; containers in the
+   *   room move with it
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param roomId - ID of the room to update
+   * @param command - Room update command with validated fields
+   * @returns Updated room as RoomDTO, or null if not found
+   * @throws {Error} If site is invalid (with descriptive message)
+   * @throws {Error} If new name conflicts with a room in the site (code: '23505')
+   * @throws {Error} If database operation fails
+   */
+  static async updateRoom(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    roomId: string,
+    command: UpdateRoomCommand
+  ): Promise<RoomDTO | null> {
+    // Step 1: Verify new site belongs to the user
+    if (command.siteId !== undefined) {
+      await this.validateSite(supabase, userId, command.siteId);
+    }
+
+    // Step 2: Apply partial update
+    const { data, error } = await supabase
+      .from('rooms')
+      .update({
+        ...(command.name !== undefined && { name: command.name }),
+        ...(command.siteId !== undefined && { site_id: command.siteId }),
+      })
+      .eq('id', roomId)
+      .eq('user_id', userId)
+      .select('id, name, site_id, created_at, updated_at, containers(count)')
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data ? toRoomDTO(data) : null;
+  }
+
+  /**
+   * Deletes a room if no containers are assigned to it
+   *
+   * Business Rules:
+   * - Room must exist and belong to the authenticated user
+   * - Room must have zero containers (enforces referential integrity)
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param roomId - UUID of the room to delete
+   * @returns Object with room id and name if successful, null if not found
+   * @throws {Error} If room has containers (with descriptive message)
+   * @throws {Error} If database operation fails
+   */
+  static async deleteRoom(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    roomId: string
+  ): Promise<{ id: string; name: string } | null> {
+    // Step 1: Fetch room and verify ownership
+    const { data: room, error: fetchError } = await supabase
+      .from('rooms')
+      .select('id, name')
+      .eq('id', roomId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw fetchError;
+    }
+
+    if (!room) {
+      return null;
+    }
+
+    // Step 2: Count assigned containers (including nested ones)
+    const { count, error: countError } = await supabase
+      .from('containers')
+      .select('id', { count: 'exact', head: true })
+      .eq('room_id', roomId)
+      .eq('user_id', userId);
+
+    if (countError) {
+      throw countError;
+    }
+
+    // Step 3: Check if room has containers (business rule enforcement)
+    if (count && count > 0) {
+      const containerWord = count === 1 ? 'container' : 'containers';
+      throw new Error(`Cannot delete ${room.name} because it contains ${count} ${containerWord}`);
+    }
+
+    // Step 4: Delete room
+    const { error: deleteError } = await supabase
+      .from('rooms')
+      .delete()
+      .eq('id', roomId)
+      .eq('user_id', userId);
+
+    if (deleteError) {
+      throw deleteError;
+    }
+
+    return {
+      id: room.id,
+      name: room.name,
+    };
+  }
+
+  /**
+   * Verifies that a room exists and belongs to the user
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param roomId - Room ID to verify
+   * @throws {Error} If the room does not belong to the user
+   * @throws {Error} If database operation fails
+   */
+  static async validateRoom(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    roomId: string
+  ): Promise<void> {
+    const { data, error } = await supabase
+      .from('rooms')
+      .select('id')
+      .eq('id', roomId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      throw new Error('Room does not exist or does not belong to user');
+    }
+  }
+
+  /**
+   * Resolves site and room filters into the matching room IDs
+   *
+   * Business Rules:
+   * - Both filters combine with AND logic (rooms of the given sites
+   *   that are also in the given room list)
+   * - Unknown or foreign IDs simply match nothing
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param siteIds - Optional site IDs to match
+   * @param roomIds - Optional room IDs to match
+   * @returns Matching room IDs
+   * @throws {Error} If database operation fails
+   */
+  static async resolveRoomIds(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    siteIds?: string[],
+    roomIds?: string[]
+  ): Promise<string[]> {
+    let query = supabase
+      .from('rooms')
+      .select('id')
+      .eq('user_id', userId);
+
+    if (siteIds && siteIds.length > 0) {
+      query = query.in('site_id', siteIds);
+    }
+
+    if (roomIds && roomIds.length > 0) {
+      query = query.in('id', roomIds);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return data.map((room) => room.id);
+  }
+}
@@ -0,0 +1,125 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../db/database.types';
+import type { ItemMovement, ItemMovementDTO, RecentMovementDTO, RecentMovementListResponseDTO } from '../../types';
+import { escapeLikePattern } from './query-helpers';
+
+/**
+ * Maximum number of movements included in the item detail response
+ */
+export const ITEM_MOVEMENT_HISTORY_LIMIT = 20;
+
+/**
+ * Filters for the recently moved feed
+ */
+export interface RecentMovementFilters {
+  page: number;
+  limit: number;
+  search?: string;
+}
+
+/**
+ * Maps an item_movements row to ItemMovementDTO
+ */
+function toMovementDTO(movement: ItemMovement): ItemMovementDTO {
+  return {
+    id: movement.id,
+    from: { id: movement.from_container_id, name: movement.from_container_name },
+    to: { id: movement.to_container_id, name: movement.to_container_name },
+    reason: movement.reason,
+    movedAt: movement.moved_at,
+  };
+}
+
+/**
+ * Service layer for item relocation history
+ *
+ * Movements are recorded by the record_item_movement trigger whenever an
+ * item's container changes (with the reason given to update_item); this
+ * service reads them.
+ */
+export class MovementService {
+  /**
+   * Lists the most recent container changes of an item, newest first
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param itemId - ID of the item
+   * @returns Movements as ItemMovementDTO[] (at most ITEM_MOVEMENT_HISTORY_LIMIT)
+   * @throws {Error} If database operation fails
+   */
+  static async listItemMovements(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    itemId: string
+  ): Promise<ItemMovementDTO[]> {
+    const { data, error } = await supabase
+      .from('item_movements')
+      .select('*')
+      .eq('item_id', itemId)
+      .eq('user_id', userId)
+      .order('moved_at', { ascending: false })
+      .limit(ITEM_MOVEMENT_HISTORY_LIMIT);
+
+    if (error) {
+      throw error;
+    }
+
+    return data.map(toMovementDTO);
+  }
+
+  /**
+   * Lists recent container changes across all items, newest first
+   *
+   * Business Rules:
+   * - Scoped to the authenticated user
+   * - Optional case-insensitive search on the item name
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param filters - Pagination and item name search
+   * @returns Paginated movements as RecentMovementListResponseDTO
+   * @throws {Error} If database operation fails
+   */
+  static async listRecentMovements(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    filters: RecentMovementFilters
+  ): Promise<RecentMovementListResponseDTO> {
+    const from = (filters.page - 1) * filters.limit;
+
+    let query = supabase
+      .from('item_movements')
+      .select('*, items!inner(id, name)', { count: 'exact' })
+      .eq('user_id', userId);
+
+    if (filters.search) {
+      query = query.ilike('items.name', `%${escapeLikePattern(filters.search)}%`);
+    }
+
+    const { data, error, count } = await query
+      .order('moved_at', { ascending: false })
+      .order('id', { ascending: true }) // Stable ordering across pages
+      .range(from, from + filters.limit - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    const movements: RecentMovementDTO[] = data.map(({ items: item, ...movement }) => ({
+      ...toMovementDTO(movement),
+      item: { id: item.id, name: item.name },
+    }));
+
+    const total = count ?? 0;
+
+    return {
+      data: movements,
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit),
+      },
+    };
+  }
+}
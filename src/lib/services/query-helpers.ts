@@ -0,0 +1,74 @@
+/**
+ * Page size for reading rows (matches PostgREST default max rows)
+ */
+const FETCH_PAGE_SIZE = 1000;
+
+/**
+ * Escapes LIKE/ILIKE wildcard characters so user input is matched literally
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Reads every page of a range-able query
+ *
+ * @param fetchPage - Callback returning one page for the given row range
+ * @returns All rows across pages
+ * @throws {Error} If any page fails
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + FETCH_PAGE_SIZE - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    rows.push(...(data ?? []));
+
+    if (!data || data.length < FETCH_PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+/**
+ * Reads rows page by page in ID order (keyset pagination, so rows are
+ * neither skipped nor repeated while rows are added or removed)
+ *
+ * @param pageSize - Rows per page, must match the limit of fetchPage
+ * @param fetchPage - Callback returning the page after the given ID (first page for null)
+ * @returns Pages of rows
+ * @throws {Error} If any page fails
+ */
+export async function* readKeysetPages<T extends { id: string }>(
+  pageSize: number,
+  fetchPage: (afterId: string | null) => PromiseLike<{ data: T[] | null; error: unknown }>
+): AsyncGenerator<T[]> {
+  let afterId: string | null = null;
+
+  for (;;) {
+    const { data, error } = await fetchPage(afterId);
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data || data.length === 0) {
+      return;
+    }
+
+    yield data;
+
+    if (data.length < pageSize) {
+      return;
+    }
+
+    afterId = data[data.length - 1].id;
+  }
+}
@@ -0,0 +1,131 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../db/database.types';
+import type { SearchEntityType, SearchResponseDTO, SearchResultDTO, SearchSuggestionDTO } from '../../types';
+
+/**
+ * Markers search_inventory wraps around matched terms (see migration)
+ */
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+/**
+ * Escapes user text for HTML, then turns highlight markers into <mark> elements
+ *
+ * Escaping first guarantees that only the markup added here reaches the client.
+ */
+function toHighlightHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    .replaceAll(HIGHLIGHT_START, '<mark>')
+    .replaceAll(HIGHLIGHT_END, '</mark>');
+}
+
+/**
+ * Service layer for full-text search and autocomplete
+ *
+ * Full-text search covers item names and descriptions, container names and
+ * descriptions, and category names (search_vector columns). Autocomplete
+ * matches names only, using trigram similarity so typos still match.
+ */
+export class SearchService {
+  /**
+   * Runs a full-text search and groups matches by entity type
+   *
+   * Business Rules:
+   * - Scoped to the authenticated user (search_inventory runs under RLS)
+   * - Name matches rank above description-only matches
+   * - Each group holds at most `limit` results, best match first
+   * - Queries consisting only of stop words (e.g. "the") match nothing
+   *
+   * @param supabase - Supabase client with user session
+   * @param query - Search text (websearch syntax)
+   * @param limit - Maximum results per entity type
+   * @returns Grouped search results as SearchResponseDTO
+   * @throws {Error} If database operation fails
+   */
+  static async search(
+    supabase: SupabaseClient<Database>,
+    query: string,
+    limit: number
+  ): Promise<SearchResponseDTO> {
+    const { data, error } = await supabase.rpc('search_inventory', {
+      p_query: query,
+      p_limit: limit,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    const groups: Record<SearchEntityType, SearchResultDTO[]> = {
+      item: [],
+      container: [],
+      category: [],
+    };
+
+    for (const row of data ?? []) {
+      const type = row.entity_type as SearchEntityType;
+
+      groups[type].push({
+        type,
+        id: row.entity_id,
+        name: row.name,
+        highlightedName: toHighlightHtml(row.name_highlight),
+        snippet: row.snippet !== null ? toHighlightHtml(row.snippet) : null,
+        rank: row.rank,
+      });
+    }
+
+    return {
+      query,
+      items: groups.item,
+      containers: groups.container,
+      categories: groups.category,
+    };
+  }
+
+  /**
+   * Suggests items, containers and categories whose name matches the typed text
+   *
+   * Business Rules:
+   * - Scoped to the authenticated user (suggest_inventory runs under RLS)
+   * - Typo-tolerant: a misspelled or partial word matches a word in the name
+   * - Names starting with the typed text come first
+   * - Items carry their container; nested containers carry their parent
+   *
+   * @param supabase - Supabase client with user session
+   * @param query - Text typed so far
+   * @param limit - Maximum number of suggestions
+   * @returns Suggestions ordered by score as SearchSuggestionDTO[]
+   * @throws {Error} If database operation fails
+   */
+  static async suggest(
+    supabase: SupabaseClient<Database>,
+    query: string,
+    limit: number
+  ): Promise<SearchSuggestionDTO[]> {
+    const { data, error } = await supabase.rpc('suggest_inventory', {
+      p_query: query,
+      p_limit: limit,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []).map((row) => ({
+      type: row.entity_type as SearchEntityType,
+      id: row.entity_id,
+      name: row.name,
+      container:
+        row.container_id !== null && row.container_name !== null
+          ? { id: row.container_id, name: row.container_name }
+          : null,
+      score: row.score,
+    }));
+  }
+}
@@ -0,0 +1,75 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../db/database.types';
+
+/**
+ * Entities reachable through a short link
+ * - container: /c/:code
+ * - item: /i/:code
+ */
+export type ShortLinkTarget = 'container' | 'item';
+
+/**
+ * Format of short codes (mirrors the check constraint on short_code)
+ */
+const SHORT_CODE_PATTERN = /^[2-9A-HJ-NP-Z]{10}$/;
+
+/**
+ * Normalizes a short code typed or scanned by a user
+ *
+ * Codes are case-insensitive; spaces and dashes used for readability are ignored
+ *
+ * @param code - Raw code from the URL
+ * @returns Normalized code, or null if it cannot be a valid short code
+ */
+export function normalizeShortCode(code: string): string | null {
+  const normalized = code.replace(/[\s-]/g, '').toUpperCase();
+  return SHORT_CODE_PATTERN.test(normalized) ? normalized : null;
+}
+
+/**
+ * Service layer for scan-to-open short links
+ *
+ * Containers and items carry a random short_code (see generate_short_code);
+ * the pages /c/:code and /i/:code resolve it here and redirect to the entity.
+ */
+export class ShortLinkService {
+  /**
+   * Resolves a short code to the ID of the user's container or item
+   *
+   * Business Rules:
+   * - Only the owner can resolve a code (codes of other users are not found)
+   * - Malformed codes are treated as not found without a database query
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param target - Entity type the link points to
+   * @param code - Short code from the URL
+   * @returns Entity ID, or null if not found or not owned by user
+   * @throws {Error} If database operation fails
+   */
+  static async resolve(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    target: ShortLinkTarget,
+    code: string
+  ): Promise<string | null> {
+    const shortCode = normalizeShortCode(code);
+
+    if (!shortCode) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from(target === 'container' ? 'containers' : 'items')
+      .select('id')
+      .eq('short_code', shortCode)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data?.id ?? null;
+  }
+}
@@ -0,0 +1,225 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../db/database.types';
+import type { CreateTagCommand, UpdateTagCommand, TagListItemDTO, TagRefDTO } from '../../types';
+
+/**
+ * Tag row with item count aggregation as returned by Supabase
+ */
+interface TagWithCount {
+  id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+  item_tags: { count: number }[];
+}
+
+/**
+ * Maps a tag row with aggregated item count to TagListItemDTO
+ */
+function toTagListItemDTO(tag: TagWithCount): TagListItemDTO {
+  return {
+    id: tag.id,
+    name: tag.name,
+    itemCount: tag.item_tags?.[0]?.count ?? 0, // Extract count from aggregation
+    createdAt: tag.created_at,
+    updatedAt: tag.updated_at,
+  };
+}
+
+/**
+ * Maps the embedded item_tags(tags(id, name)) rows of an item to tag
+ * references ordered by name
+ */
+export function toTagRefs(itemTags: { tags: TagRefDTO | null }[] | null | undefined): TagRefDTO[] {
+  return (itemTags ?? [])
+    .flatMap((itemTag) => (itemTag.tags ? [{ id: itemTag.tags.id, name: itemTag.tags.name }] : []))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Service layer for tag-related operations
+ *
+ * Tags are free-form labels; unlike its single category, an item can
+ * carry any number of tags (item_tags join table).
+ */
+export class TagService {
+  /**
+   * Creates a new tag for the authenticated user
+   *
+   * Business Rules:
+   * - Tag names must be unique per user (case-insensitive)
+   * - New tags always have itemCount of 0
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param command - Tag creation command with validated name
+   * @returns Created tag as TagListItemDTO
+   * @throws {Error} If tag name already exists (code: '23505')
+   * @throws {Error} If database operation fails
+   */
+  static async createTag(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    command: CreateTagCommand
+  ): Promise<TagListItemDTO> {
+    const { data, error } = await supabase
+      .from('tags')
+      .insert({
+        user_id: userId,
+        name: command.name, // Already trimmed by Zod transform
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return {
+      id: data.id,
+      name: data.name,
+      itemCount: 0,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  }
+
+  /**
+   * Lists all tags of the authenticated user with item counts
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param sort - Field to sort by ("name" | "created_at")
+   * @param order - Sort direction ("asc" | "desc")
+   * @returns Array of tags with item counts as TagListItemDTO[]
+   * @throws {Error} If database operation fails
+   */
+  static async listTags(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    sort: 'name' | 'created_at',
+    order: 'asc' | 'desc'
+  ): Promise<TagListItemDTO[]> {
+    const { data, error } = await supabase
+      .from('tags')
+      .select('id, name, created_at, updated_at, item_tags(count)')
+      .eq('user_id', userId) // Explicit filter (RLS also enforces this)
+      .order(sort, { ascending: order === 'asc' });
+
+    if (error) {
+      throw error;
+    }
+
+    return data.map(toTagListItemDTO);
+  }
+
+  /**
+   * Renames an existing tag
+   *
+   * Business Rules:
+   * - Tag must exist and belong to the authenticated user
+   * - New name must be unique per user (case-insensitive)
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param tagId - ID of the tag to update
+   * @param command - Tag update command with validated name
+   * @returns Updated tag as TagListItemDTO, or null if not found
+   * @throws {Error} If new name conflicts with existing tag (code: '23505')
+   * @throws {Error} If database operation fails
+   */
+  static async updateTag(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    tagId: string,
+    command: UpdateTagCommand
+  ): Promise<TagListItemDTO | null> {
+    const { data, error } = await supabase
+      .from('tags')
+      .update({ name: command.name })
+      .eq('id', tagId)
+      .eq('user_id', userId)
+      .select('id, name, created_at, updated_at, item_tags(count)')
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    return toTagListItemDTO(data);
+  }
+
+  /**
+   * Deletes a tag
+   *
+   * Business Rules:
+   * - Tag must exist and belong to the authenticated user
+   * - The tag is removed from all items (ON DELETE CASCADE); the items stay
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param tagId - UUID of the tag to delete
+   * @returns Object with tag id and name if successful, null if not found
+   * @throws {Error} If database operation fails
+   */
+  static async deleteTag(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    tagId: string
+  ): Promise<{ id: string; name: string } | null> {
+    const { data, error } = await supabase
+      .from('tags')
+      .delete()
+      .eq('id', tagId)
+      .eq('user_id', userId)
+      .select('id, name')
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Verifies that all referenced tags belong to the user
+   *
+   * @param supabase - Supabase client with user session
+   * @param userId - ID of the authenticated user
+   * @param tagIds - Tag IDs to verify (without duplicates)
+   * @returns References of the tags, ordered by name
+   * @throws {Error} If a tag does not belong to the user
+   * @throws {Error} If database operation fails
+   */
+  static async validateTagIds(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    tagIds: string[]
+  ): Promise<TagRefDTO[]> {
+    if (tagIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('tags')
+      .select('id, name')
+      .eq('user_id', userId)
+      .in('id', tagIds)
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    if (data.length !== tagIds.length) {
+      throw new Error('Tag does not exist or does not belong to user');
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+/**
+ * Validation schema for the activity feed (audit log)
+ *
+ * Query Parameters:
+ * - page: Page number, defaults to 1
+ * - limit: Entries per page (1-100), defaults to 50
+ * - entity: Only entries of this entity type (item, container, category, image)
+ * - entityId: Only entries of this entity (UUID)
+ * - from: Only entries on or after this day (YYYY-MM-DD, UTC)
+ * - to: Only entries on or before this day (YYYY-MM-DD, UTC)
+ */
+export const listActivityQuerySchema = z
+  .object({
+    page: z.coerce
+      .number({ invalid_type_error: 'Page must be a number' })
+      .int('Page must be an integer')
+      .min(1, 'Page must be at least 1')
+      .default(1),
+    limit: z.coerce
+      .number({ invalid_type_error: 'Limit must be a number' })
+      .int('Limit must be an integer')
+      .min(1, 'Limit must be between 1 and 100')
+      .max(100, 'Limit must be between 1 and 100')
+      .default(50),
+    entity: z
+      .enum(['item', 'container', 'category', 'image'], {
+        errorMap: () => ({ message: "Invalid enum value. Expected 'item' | 'container' | 'category' | 'image'" }),
+      })
+      .optional(),
+    entityId: z.string().uuid('Invalid entity ID format').optional(),
+    from: z.string().date('From must be a valid date (YYYY-MM-DD)').optional(),
+    to: z.string().date('To must be a valid date (YYYY-MM-DD)').optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: 'From must not be after to',
+    path: ['from'],
+  });
+
+export type ListActivityQuerySchema = z.infer<typeof listActivityQuerySchema>;
@@ -0,0 +1,203 @@
+import { z } from 'zod';
+import { createCategorySchema } from './category.schema';
+import { createContainerSchema } from './container.schema';
+import { createItemSchema } from './item.schema';
+import { createSiteSchema } from './location.schema';
+import { createTagSchema } from './tag.schema';
+
+/**
+ * Maximum accepted backup archive size (100MB)
+ */
+export const MAX_BACKUP_SIZE_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Maximum total decompressed size of inventory.json and the images in a
+ * backup archive (300MB), so a small archive cannot expand without limit
+ */
+export const MAX_BACKUP_EXTRACTED_BYTES = 300 * 1024 * 1024;
+
+/**
+ * Validation schema for restoring a backup archive (multipart/form-data)
+ *
+ * Enforces:
+ * - File is required
+ * - File size must not exceed 100MB
+ *
+ * Note: Whether the file is a valid archive is checked by the service
+ */
+export const restoreBackupSchema = z.object({
+  file: z
+    .instanceof(File, { message: 'File is required' })
+    .refine((file) => file.size > 0, 'File is required')
+    .refine((file) => file.size <= MAX_BACKUP_SIZE_BYTES, 'File size must not exceed 100MB'),
+});
+
+export type RestoreBackupSchema = z.infer<typeof restoreBackupSchema>;
+
+const idSchema = z.string().uuid('Invalid ID format');
+const timestampSchema = z.string().datetime({ offset: true, message: 'Invalid timestamp' });
+const shortCodeSchema = z.string().regex(/^[2-9A-HJ-NP-Z]{10}$/, 'Invalid short code');
+
+/**
+ * Validation schema for inventory.json inside a backup archive
+ * (InventoryExportDTO, version 1)
+ *
+ * Enforces:
+ * - Entities follow the same field rules as when they are created
+ * - Every reference points to an entity of the backup
+ * - Images belong to a container or item of the backup, with unique
+ *   display orders (1-5) per entity
+ *
+ * Note: Image URLs are ignored; files are read from the archive
+ */
+export const inventoryBackupSchema = z
+  .object({
+    version: z.literal(1, {
+      errorMap: () => ({ message: 'Unsupported backup version' }),
+    }),
+    sites: z.array(
+      z.object({
+        id: idSchema,
+        name: createSiteSchema.shape.name,
+        createdAt: timestampSchema,
+        updatedAt: timestampSchema,
+      })
+    ),
+    rooms: z.array(
+      z.object({
+        id: idSchema,
+        siteId: idSchema,
+        name: createSiteSchema.shape.name,
+        createdAt: timestampSchema,
+        updatedAt: timestampSchema,
+      })
+    ),
+    categories: z.array(
+      z.object({
+        id: idSchema,
+        name: createCategorySchema.shape.name,
+        parentId: idSchema.nullable().default(null), // Missing in backups without category nesting
+        createdAt: timestampSchema,
+        updatedAt: timestampSchema,
+      })
+    ),
+    tags: z
+      .array(
+        z.object({
+          id: idSchema,
+          name: createTagSchema.shape.name,
+          createdAt: timestampSchema,
+          updatedAt: timestampSchema,
+        })
+      )
+      .default([]), // Missing in backups without item tags
+    containers: z.array(
+      z.object({
+        id: idSchema,
+        name: createContainerSchema.innerType().shape.name,
+        description: createContainerSchema.innerType().shape.description,
+        shortCode: shortCodeSchema,
+        parentId: idSchema.nullable(),
+        roomId: idSchema.nullable(),
+        createdAt: timestampSchema,
+        updatedAt: timestampSchema,
+      })
+    ),
+    items: z.array(
+      z.object({
+        id: idSchema,
+        name: createItemSchema.shape.name,
+        description: createItemSchema.shape.description,
+        shortCode: shortCodeSchema,
+        barcode: createItemSchema.shape.barcode,
+        categoryId: idSchema,
+        containerId: idSchema,
+        tagIds: z.array(idSchema).default([]), // Missing in backups without item tags
+        isIn: z.boolean(),
+        quantity: createItemSchema.shape.quantity,
+        createdAt: timestampSchema,
+        updatedAt: timestampSchema,
+      })
+    ),
+    images: z.array(
+      z.object({
+        id: idSchema,
+        entityType: z.enum(['item', 'container'], {
+          errorMap: () => ({ message: "Invalid enum value. Expected 'item' | 'container'" }),
+        }),
+        entityId: idSchema,
+        storagePath: z.string().min(1, 'Storage path is required'),
+        displayOrder: z
+          .number()
+          .int('Display order must be between 1 and 5')
+          .min(1, 'Display order must be between 1 and 5')
+          .max(5, 'Display order must be between 1 and 5'),
+        createdAt: timestampSchema,
+        updatedAt: timestampSchema,
+      })
+    ),
+  })
+  .superRefine((backup, ctx) => {
+    const ids = (entries: { id: string }[]) => new Set(entries.map((entry) => entry.id));
+    const siteIds = ids(backup.sites);
+    const roomIds = ids(backup.rooms);
+    const categoryIds = ids(backup.categories);
+    const tagIds = ids(backup.tags);
+    const containerIds = ids(backup.containers);
+    const itemIds = ids(backup.items);
+
+    const check = (valid: boolean, path: (string | number)[], message: string) => {
+      if (!valid) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+      }
+    };
+
+    backup.rooms.forEach((room, index) => {
+      check(siteIds.has(room.siteId), ['rooms', index, 'siteId'], 'Site not found in backup');
+    });
+
+    backup.categories.forEach((category, index) => {
+      check(
+        category.parentId === null || categoryIds.has(category.parentId),
+        ['categories', index, 'parentId'],
+        'Parent category not found in backup'
+      );
+    });
+
+    backup.containers.forEach((container, index) => {
+      check(
+        container.parentId === null || containerIds.has(container.parentId),
+        ['containers', index, 'parentId'],
+        'Parent container not found in backup'
+      );
+      check(
+        container.roomId === null || roomIds.has(container.roomId),
+        ['containers', index, 'roomId'],
+        'Room not found in backup'
+      );
+    });
+
+    backup.items.forEach((item, index) => {
+      check(categoryIds.has(item.categoryId), ['items', index, 'categoryId'], 'Category not found in backup');
+      check(containerIds.has(item.containerId), ['items', index, 'containerId'], 'Container not found in backup');
+      item.tagIds.forEach((tagId, tagIndex) => {
+        check(tagIds.has(tagId), ['items', index, 'tagIds', tagIndex], 'Tag not found in backup');
+      });
+    });
+
+    const usedOrders = new Set<string>();
+    backup.images.forEach((image, index) => {
+      const entityIds = image.entityType === 'item' ? itemIds : containerIds;
+      const orderKey = `${image.entityType}:${image.entityId}:${image.displayOrder}`;
+
+      check(entityIds.has(image.entityId), ['images', index, 'entityId'], 'Image entity not found in backup');
+      check(
+        !usedOrders.has(orderKey),
+        ['images', index, 'displayOrder'],
+        'Display order already exists for this entity'
+      );
+      usedOrders.add(orderKey);
+    });
+  });
+
+export type InventoryBackupSchema = z.infer<typeof inventoryBackupSchema>;
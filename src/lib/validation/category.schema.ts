@@ -8,6 +8,10 @@ import { z } from 'zod';
  * - Name length between 1 and 255 characters
  * - Name cannot be only whitespace
  * - Automatically trims whitespace from name
+ * - Parent category ID is optional (null or omitted for a top-level category)
+ *
+ * Note: Ownership and depth of the parent category are validated by the
+ * service layer
  */
 export const createCategorySchema = z.object({
   name: z
@@ -22,6 +26,7 @@ export const createCategorySchema = z.object({
       'Name cannot be only whitespace'
     )
     .transform((val) => val.trim()),
+  parentId: z.string().uuid('Invalid parent category ID format').nullable().optional(),
 });
 
 export type CreateCategorySchema = z.infer<typeof createCategorySchema>;
@@ -66,26 +71,58 @@ export type CategoryIdParamSchema = z.infer<typeof categoryIdParamSchema>;
  * Validation schema for updating a category
  * 
  * Enforces:
- * - Name is required and must be a string
- * - Name length between 1 and 255 characters
- * - Name cannot be only whitespace
- * - Automatically trims whitespace from name
+ * - All fields are optional for partial updates
+ * - At least one field must be provided
+ * - Parent category ID may be null (moves the category to the top level)
  * 
- * Note: Uses same validation rules as createCategorySchema
+ * Note: Uses same field rules as createCategorySchema
  */
-export const updateCategorySchema = z.object({
-  name: z
+export const updateCategorySchema = z
+  .object({
+    name: createCategorySchema.shape.name.optional(),
+    parentId: createCategorySchema.shape.parentId,
+  })
+  .refine(
+    (val) => Object.values(val).some((field) => field !== undefined),
+    'At least one field must be provided'
+  );
+
+export type UpdateCategorySchema = z.infer<typeof updateCategorySchema>;
+
+/**
+ * Validation schema for deleting a category
+ * 
+ * Query Parameters:
+ * - reassignTo: Category UUID to move the items to, or "uncategorized" to
+ *   move them to the "Uncategorized" category (created if missing)
+ * 
+ * Note: Without reassignTo, only categories without items can be deleted
+ */
+export const deleteCategoryQuerySchema = z.object({
+  reassignTo: z
+    .union([z.literal('uncategorized'), z.string().uuid()], {
+      errorMap: () => ({ message: "Reassign target must be a category ID or 'uncategorized'" }),
+    })
+    .optional(),
+});
+
+export type DeleteCategoryQuerySchema = z.infer<typeof deleteCategoryQuerySchema>;
+
+/**
+ * Validation schema for merging a category into another one
+ * 
+ * Enforces:
+ * - Target category ID is required and must be a valid UUID format
+ * 
+ * Note: Ownership of the target category is validated by the database
+ */
+export const mergeCategorySchema = z.object({
+  targetId: z
     .string({
-      required_error: 'Name is required',
-      invalid_type_error: 'Name must be a string',
+      required_error: 'Target category ID is required',
+      invalid_type_error: 'Target category ID must be a string',
     })
-    .min(1, 'Name must be between 1 and 255 characters')
-    .max(255, 'Name must be between 1 and 255 characters')
-    .refine(
-      (val) => val.trim().length > 0,
-      'Name cannot be only whitespace'
-    )
-    .transform((val) => val.trim()),
+    .uuid('Invalid target category ID format'),
 });
 
-export type UpdateCategorySchema = z.infer<typeof updateCategorySchema>;
+export type MergeCategorySchema = z.infer<typeof mergeCategorySchema>;
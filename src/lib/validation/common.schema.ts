@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+/**
+ * Comma-separated list of UUIDs (e.g. "uuid1,uuid2")
+ * Transformed into an array of UUIDs
+ *
+ * Used by list endpoints that filter by one or more related entities
+ */
+export const uuidListSchema = (label: string) =>
+  z
+    .string()
+    .transform((val) => val.split(',').map((id) => id.trim()).filter((id) => id.length > 0))
+    .pipe(z.array(z.string().uuid(`Invalid ${label} ID format`)).min(1, `At least one ${label} ID is required`));
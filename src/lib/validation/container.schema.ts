@@ -0,0 +1,235 @@
+import { z } from 'zod';
+import { uuidListSchema } from './common.schema';
+
+/**
+ * Container name validation
+ *
+ * Enforces:
+ * - Name is required and must be a string
+ * - Name length between 1 and 255 characters
+ * - Name cannot be only whitespace
+ * - Automatically trims whitespace from name
+ */
+export const containerNameSchema = z
+  .string({
+    required_error: 'Name is required',
+    invalid_type_error: 'Name must be a string',
+  })
+  .min(1, 'Name must be between 1 and 255 characters')
+  .max(255, 'Name must be between 1 and 255 characters')
+  .refine(
+    (val) => val.trim().length > 0,
+    'Name cannot be only whitespace'
+  )
+  .transform((val) => val.trim());
+
+/**
+ * Container description validation
+ *
+ * Enforces:
+ * - Description is optional and may be null
+ * - Description length up to 10,000 characters
+ * - Whitespace-only descriptions are stored as null
+ */
+const containerDescriptionSchema = z
+  .string({
+    invalid_type_error: 'Description must be a string',
+  })
+  .max(10000, 'Description must not exceed 10,000 characters')
+  .transform((val) => (val.trim().length > 0 ? val.trim() : null))
+  .nullable()
+  .optional();
+
+/**
+ * Parent container validation
+ *
+ * Enforces:
+ * - Parent is optional and may be null (top-level container)
+ * - Parent ID must be a valid UUID format
+ *
+ * Note: Ownership, cycles and nesting depth are checked by the service
+ * and the enforce_container_hierarchy trigger
+ */
+const containerParentIdSchema = z
+  .string({
+    invalid_type_error: 'Parent container ID must be a string',
+  })
+  .uuid('Invalid parent container ID format')
+  .nullable()
+  .optional();
+
+/**
+ * Room assignment validation
+ *
+ * Enforces:
+ * - Room is optional and may be null (unassigned)
+ * - Room ID must be a valid UUID format
+ */
+const containerRoomIdSchema = z
+  .string({
+    invalid_type_error: 'Room ID must be a string',
+  })
+  .uuid('Invalid room ID format')
+  .nullable()
+  .optional();
+
+/**
+ * Validation schema for creating a new container
+ *
+ * Enforces:
+ * - Name is required (1-255 characters, trimmed)
+ * - Description is optional (max 10,000 characters)
+ * - Parent container is optional (UUID or null)
+ * - Room is optional (UUID or null), only for top-level containers
+ */
+export const createContainerSchema = z
+  .object({
+    name: containerNameSchema,
+    description: containerDescriptionSchema,
+    parentId: containerParentIdSchema,
+    roomId: containerRoomIdSchema,
+  })
+  .refine((val) => !(val.parentId && val.roomId), {
+    message: 'Nested containers inherit the room of their parent container',
+    path: ['roomId'],
+  });
+
+export type CreateContainerSchema = z.infer<typeof createContainerSchema>;
+
+/**
+ * Validation schema for updating a container
+ *
+ * Enforces:
+ * - All fields are optional for partial updates
+ * - At least one field must be provided
+ * - Room cannot be set while moving the container into a parent
+ *
+ * Note: Uses same field rules as createContainerSchema
+ */
+export const updateContainerSchema = z
+  .object({
+    name: containerNameSchema.optional(),
+    description: containerDescriptionSchema,
+    parentId: containerParentIdSchema,
+    roomId: containerRoomIdSchema,
+  })
+  .refine(
+    (val) => Object.values(val).some((field) => field !== undefined),
+    'At least one field must be provided'
+  )
+  .refine((val) => !(val.parentId && val.roomId), {
+    message: 'Nested containers inherit the room of their parent container',
+    path: ['roomId'],
+  });
+
+export type UpdateContainerSchema = z.infer<typeof updateContainerSchema>;
+
+/**
+ * Validation schema for listing containers with pagination and sorting
+ *
+ * Query Parameters:
+ * - page: Page number, defaults to 1
+ * - limit: Items per page (1-100), defaults to 20
+ * - parent: Only children of this container (UUID), or "root" for top-level containers
+ * - site: Site UUID or comma-separated UUIDs
+ * - room: Room UUID or comma-separated UUIDs
+ * - sort: Field to sort by ("name" | "created_at"), defaults to "created_at"
+ * - order: Sort direction ("asc" | "desc"), defaults to "desc"
+ */
+export const listContainersQuerySchema = z.object({
+  page: z.coerce
+    .number({ invalid_type_error: 'Page must be a number' })
+    .int('Page must be an integer')
+    .min(1, 'Page must be at least 1')
+    .default(1),
+  limit: z.coerce
+    .number({ invalid_type_error: 'Limit must be a number' })
+    .int('Limit must be an integer')
+    .min(1, 'Limit must be between 1 and 100')
+    .max(100, 'Limit must be between 1 and 100')
+    .default(20),
+  parent: z
+    .union([z.literal('root'), z.string().uuid()], {
+      errorMap: () => ({ message: "Parent must be a container ID or 'root'" }),
+    })
+    .optional(),
+  site: uuidListSchema('site').optional(),
+  room: uuidListSchema('room').optional(),
+  sort: z
+    .enum(['name', 'created_at'], {
+      errorMap: () => ({ message: "Invalid enum value. Expected 'name' | 'created_at'" }),
+    })
+    .default('created_at'),
+  order: z
+    .enum(['asc', 'desc'], {
+      errorMap: () => ({ message: "Invalid enum value. Expected 'asc' | 'desc'" }),
+    })
+    .default('desc'),
+});
+
+export type ListContainersQuerySchema = z.infer<typeof listContainersQuerySchema>;
+
+/**
+ * Validation schema for container ID route parameter
+ *
+ * Enforces:
+ * - ID must be a valid UUID format
+ */
+export const containerIdParamSchema = z.object({
+  id: z.string().uuid('Invalid container ID format'),
+});
+
+export type ContainerIdParamSchema = z.infer<typeof containerIdParamSchema>;
+
+/**
+ * Maximum number of labels printed in one request
+ */
+export const MAX_LABELS_PER_REQUEST = 500;
+
+/**
+ * Validation schema for printing container QR code labels
+ *
+ * Enforces:
+ * - Exactly one of containerIds (1-500 unique UUIDs) or roomId (UUID)
+ * - Layout is one of the supported label sheets, defaults to "a4"
+ * - Skip is a non-negative integer, defaults to 0
+ *
+ * Note: The upper bound of skip depends on the layout and is checked
+ * by the service
+ */
+export const createContainerLabelsSchema = z
+  .object({
+    containerIds: z
+      .array(z.string().uuid('Invalid container ID format'), {
+        invalid_type_error: 'Container IDs must be an array',
+      })
+      .min(1, 'At least one container ID is required')
+      .max(MAX_LABELS_PER_REQUEST, `Cannot print more than ${MAX_LABELS_PER_REQUEST} labels at once`)
+      .refine((ids) => new Set(ids).size === ids.length, 'Container IDs must be unique')
+      .optional(),
+    roomId: z
+      .string({
+        invalid_type_error: 'Room ID must be a string',
+      })
+      .uuid('Invalid room ID format')
+      .optional(),
+    layout: z
+      .enum(['a4', 'avery-l7160', 'avery-l7163', 'avery-l7165', 'avery-l7651', 'avery-5160', 'avery-5163'], {
+        errorMap: () => ({
+          message:
+            "Invalid enum value. Expected 'a4' | 'avery-l7160' | 'avery-l7163' | 'avery-l7165' | 'avery-l7651' | 'avery-5160' | 'avery-5163'",
+        }),
+      })
+      .default('a4'),
+    skip: z
+      .number({ invalid_type_error: 'Skip must be a number' })
+      .int('Skip must be an integer')
+      .min(0, 'Skip must not be negative')
+      .default(0),
+  })
+  .refine((val) => (val.containerIds === undefined) !== (val.roomId === undefined), {
+    message: 'Provide either containerIds or roomId',
+    path: ['containerIds'],
+  });
+
+export type CreateContainerLabelsSchema = z.infer<typeof createContainerLabelsSchema>;
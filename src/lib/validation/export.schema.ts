@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+/**
+ * Validation schema for the inventory export
+ *
+ * Query Parameters:
+ * - format: "csv" (one row per item) or "json" (all entities), defaults to "csv"
+ */
+export const exportQuerySchema = z.object({
+  format: z
+    .enum(['csv', 'json'], {
+      errorMap: () => ({ message: "Invalid enum value. Expected 'csv' | 'json'" }),
+    })
+    .default('csv'),
+});
+
+export type ExportQuerySchema = z.infer<typeof exportQuerySchema>;
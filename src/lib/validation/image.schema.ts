@@ -0,0 +1,117 @@
+import { z } from 'zod';
+
+/**
+ * Maximum accepted image file size (5MB)
+ */
+export const MAX_IMAGE_SIZE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Accepted image MIME types mapped to the stored file extension
+ */
+export const ALLOWED_IMAGE_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+/**
+ * Validation schema for uploading an image (multipart/form-data)
+ *
+ * Enforces:
+ * - File is required
+ * - File must be JPEG, PNG, or WebP format
+ * - File size must not exceed 5MB
+ * - Display order is optional, integer between 1 and 5
+ */
+export const uploadImageSchema = z.object({
+  file: z
+    .instanceof(File, { message: 'File is required' })
+    .refine((file) => file.size > 0, 'File is required')
+    .refine(
+      (file) => file.type in ALLOWED_IMAGE_TYPES,
+      'File must be JPEG, PNG, or WebP format'
+    )
+    .refine(
+      (file) => file.size <= MAX_IMAGE_SIZE_BYTES,
+      'File size must not exceed 5MB'
+    ),
+  displayOrder: z.coerce
+    .number({ invalid_type_error: 'Display order must be a number' })
+    .int('Display order must be between 1 and 5')
+    .min(1, 'Display order must be between 1 and 5')
+    .max(5, 'Display order must be between 1 and 5')
+    .optional(),
+});
+
+export type UploadImageSchema = z.infer<typeof uploadImageSchema>;
+
+/**
+ * Validation schema for replacing the full image order of an entity
+ *
+ * Enforces:
+ * - imageIds is a non-empty array of up to 5 image UUIDs
+ * - No image ID appears twice
+ *
+ * Note: The first ID becomes display order 1 (the thumbnail)
+ */
+export const reorderImagesSchema = z.object({
+  imageIds: z
+    .array(z.string().uuid('Invalid image ID format'), {
+      required_error: 'Image IDs are required',
+      invalid_type_error: 'Image IDs must be an array',
+    })
+    .min(1, 'At least one image ID is required')
+    .max(5, 'Cannot order more than 5 images')
+    .refine(
+      (ids) => new Set(ids).size === ids.length,
+      'Image IDs must be unique'
+    ),
+});
+
+export type ReorderImagesSchema = z.infer<typeof reorderImagesSchema>;
+
+/**
+ * Validation schema for moving a single image to a new position
+ *
+ * Enforces:
+ * - Display order is required, integer between 1 and 5
+ */
+export const updateImageDisplayOrderSchema = z.object({
+  displayOrder: z
+    .number({
+      required_error: 'Display order is required',
+      invalid_type_error: 'Display order must be a number',
+    })
+    .int('Display order must be between 1 and 5')
+    .min(1, 'Display order must be between 1 and 5')
+    .max(5, 'Display order must be between 1 and 5'),
+});
+
+export type UpdateImageDisplayOrderSchema = z.infer<typeof updateImageDisplayOrderSchema>;
+
+/**
+ * Validation schema for image ID route parameter
+ *
+ * Enforces:
+ * - ID must be a valid UUID format
+ */
+export const imageIdParamSchema = z.object({
+  imageId: z.string().uuid('Invalid image ID format'),
+});
+
+export type ImageIdParamSchema = z.infer<typeof imageIdParamSchema>;
+
+/**
+ * Validation schema for running image reconciliation
+ *
+ * Enforces:
+ * - dryRun is optional boolean, defaults to true so nothing is deleted
+ *   unless explicitly requested
+ */
+export const reconcileImagesSchema = z.object({
+  dryRun: z
+    .boolean({ invalid_type_error: 'Dry run must be a boolean' })
+    .default(true),
+});
+
+export type ReconcileImagesSchema = z.infer<typeof reconcileImagesSchema>;
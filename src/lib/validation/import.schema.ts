@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { createCategorySchema } from './category.schema';
+import { containerNameSchema } from './container.schema';
+import { createItemSchema } from './item.schema';
+
+/**
+ * Maximum size of an uploaded CSV file (characters)
+ */
+export const MAX_IMPORT_CSV_LENGTH = 2_000_000;
+
+/**
+ * Maximum number of data rows per import
+ */
+export const MAX_IMPORT_ROWS = 2000;
+
+/**
+ * CSV header name mapped to an item field
+ */
+const mappedColumnSchema = z
+  .string({
+    invalid_type_error: 'Column must be a string',
+  })
+  .min(1, 'Column must not be empty');
+
+/**
+ * Validation schema for the CSV item import request
+ *
+ * Enforces:
+ * - csv is required (max 2,000,000 characters)
+ * - mapping maps item fields to CSV header names; name, category and
+ *   container are required, the other fields are optional
+ * - dryRun defaults to true, so nothing is imported unless requested
+ *
+ * Note: Whether the mapped columns exist is checked by the service
+ */
+export const importItemsSchema = z.object({
+  csv: z
+    .string({
+      required_error: 'CSV is required',
+      invalid_type_error: 'CSV must be a string',
+    })
+    .min(1, 'CSV is required')
+    .max(MAX_IMPORT_CSV_LENGTH, 'CSV must not exceed 2,000,000 characters'),
+  mapping: z.object(
+    {
+      name: mappedColumnSchema,
+      category: mappedColumnSchema,
+      container: mappedColumnSchema,
+      description: mappedColumnSchema.optional(),
+      quantity: mappedColumnSchema.optional(),
+      status: mappedColumnSchema.optional(),
+      barcode: mappedColumnSchema.optional(),
+    },
+    {
+      required_error: 'Mapping is required',
+      invalid_type_error: 'Mapping must be an object',
+    }
+  ),
+  dryRun: z.boolean({ invalid_type_error: 'Dry run must be a boolean' }).default(true),
+});
+
+export type ImportItemsSchema = z.infer<typeof importItemsSchema>;
+
+/**
+ * Validation schema for a single CSV row (values as read from the file)
+ *
+ * Enforces:
+ * - name, description and barcode follow the item rules
+ * - category and container names follow the category/container name rules
+ * - quantity is empty or a positive integer
+ * - status is empty (in), in/out, yes/no, true/false or 1/0
+ */
+export const importItemRowSchema = z.object({
+  name: createItemSchema.shape.name,
+  description: createItemSchema.shape.description,
+  category: createCategorySchema.shape.name,
+  container: containerNameSchema,
+  quantity: z.preprocess(
+    (val) => (typeof val === 'string' ? (val.trim() === '' ? null : Number(val.trim())) : val),
+    createItemSchema.shape.quantity
+  ),
+  status: z
+    .string()
+    .transform((val) => val.trim().toLowerCase())
+    .pipe(
+      z.enum(['', 'in', 'out', 'yes', 'no', 'true', 'false', '1', '0'], {
+        errorMap: () => ({ message: "Status must be 'in' or 'out'" }),
+      })
+    )
+    .transform((val) => !['out', 'no', 'false', '0'].includes(val))
+    .optional(),
+  barcode: createItemSchema.shape.barcode,
+});
+
+export type ImportItemRowSchema = z.infer<typeof importItemRowSchema>;
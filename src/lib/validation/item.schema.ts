@@ -0,0 +1,262 @@
+import { z } from 'zod';
+import { uuidListSchema } from './common.schema';
+import { itemTagIdsSchema } from './tag.schema';
+
+/**
+ * Item name validation
+ *
+ * Enforces:
+ * - Name is required and must be a string
+ * - Name length between 1 and 255 characters
+ * - Name cannot be only whitespace
+ * - Automatically trims whitespace from name
+ */
+const itemNameSchema = z
+  .string({
+    required_error: 'Name is required',
+    invalid_type_error: 'Name must be a string',
+  })
+  .min(1, 'Name must be between 1 and 255 characters')
+  .max(255, 'Name must be between 1 and 255 characters')
+  .refine(
+    (val) => val.trim().length > 0,
+    'Name cannot be only whitespace'
+  )
+  .transform((val) => val.trim());
+
+/**
+ * Item description validation
+ *
+ * Enforces:
+ * - Description is optional and may be null
+ * - Description length up to 10,000 characters
+ * - Whitespace-only descriptions are stored as null
+ */
+const itemDescriptionSchema = z
+  .string({
+    invalid_type_error: 'Description must be a string',
+  })
+  .max(10000, 'Description must not exceed 10,000 characters')
+  .transform((val) => (val.trim().length > 0 ? val.trim() : null))
+  .nullable()
+  .optional();
+
+/**
+ * Item quantity validation
+ *
+ * Enforces:
+ * - Quantity is optional and may be null
+ * - Quantity must be a positive integer when provided
+ */
+const itemQuantitySchema = z
+  .number({
+    invalid_type_error: 'Quantity must be a positive integer',
+  })
+  .int('Quantity must be a positive integer')
+  .positive('Quantity must be a positive integer')
+  .nullable()
+  .optional();
+
+/**
+ * Item barcode validation
+ *
+ * Enforces:
+ * - Barcode is optional and may be null
+ * - Barcode length up to 64 characters, without inner whitespace
+ * - Surrounding whitespace is trimmed; whitespace-only barcodes are stored as null
+ */
+const itemBarcodeSchema = z
+  .string({
+    invalid_type_error: 'Barcode must be a string',
+  })
+  .transform((val) => val.trim())
+  .pipe(
+    z
+      .string()
+      .max(64, 'Barcode must not exceed 64 characters')
+      .regex(/^\S*$/, 'Barcode must not contain spaces')
+  )
+  .transform((val) => (val.length > 0 ? val : null))
+  .nullable()
+  .optional();
+
+/**
+ * Validation schema for creating a new item
+ *
+ * Enforces:
+ * - Name is required (1-255 characters, trimmed)
+ * - Description is optional (max 10,000 characters)
+ * - Category and container IDs are required UUIDs
+ * - Tag IDs are optional (up to 20 UUIDs)
+ * - In/out status is required
+ * - Quantity is optional (positive integer)
+ * - Barcode is optional (max 64 characters, no spaces)
+ *
+ * Note: Ownership of the referenced category, tags and container is
+ * validated by the service layer
+ */
+export const createItemSchema = z.object({
+  name: itemNameSchema,
+  description: itemDescriptionSchema,
+  categoryId: z
+    .string({
+      required_error: 'Category ID is required',
+      invalid_type_error: 'Category ID must be a string',
+    })
+    .uuid('Invalid category ID format'),
+  tagIds: itemTagIdsSchema.optional(),
+  containerId: z
+    .string({
+      required_error: 'Container ID is required',
+      invalid_type_error: 'Container ID must be a string',
+    })
+    .uuid('Invalid container ID format'),
+  isIn: z.boolean({
+    required_error: 'Status is required',
+    invalid_type_error: 'Status must be a boolean',
+  }),
+  quantity: itemQuantitySchema,
+  barcode: itemBarcodeSchema,
+});
+
+export type CreateItemSchema = z.infer<typeof createItemSchema>;
+
+/**
+ * Validation schema for updating an item
+ *
+ * Enforces:
+ * - All fields are optional for partial updates
+ * - At least one field must be provided
+ * - Tag IDs replace all tags of the item (an empty array removes them)
+ * - Move reason is optional (max 500 characters) and only allowed
+ *   together with containerId
+ *
+ * Note: Uses same field rules as createItemSchema
+ */
+export const updateItemSchema = z
+  .object({
+    name: itemNameSchema.optional(),
+    description: itemDescriptionSchema,
+    categoryId: z.string().uuid('Invalid category ID format').optional(),
+    tagIds: itemTagIdsSchema.optional(),
+    containerId: z.string().uuid('Invalid container ID format').optional(),
+    isIn: z.boolean({ invalid_type_error: 'Status must be a boolean' }).optional(),
+    quantity: itemQuantitySchema,
+    barcode: itemBarcodeSchema,
+    moveReason: z
+      .string({
+        invalid_type_error: 'Move reason must be a string',
+      })
+      .max(500, 'Move reason must not exceed 500 characters')
+      .transform((val) => (val.trim().length > 0 ? val.trim() : null))
+      .nullable()
+      .optional(),
+  })
+  .refine(
+    (val) => Object.values(val).some((field) => field !== undefined),
+    'At least one field must be provided'
+  )
+  .refine((val) => !val.moveReason || val.containerId !== undefined, {
+    message: 'Move reason requires a new container',
+    path: ['moveReason'],
+  });
+
+export type UpdateItemSchema = z.infer<typeof updateItemSchema>;
+
+/**
+ * Validation schema for listing items with filtering, sorting and pagination
+ *
+ * Query Parameters:
+ * - page: Page number, defaults to 1
+ * - limit: Items per page (1-100), defaults to 20
+ * - search: Case-insensitive prefix search on item name (max 255 characters)
+ * - category: Category UUID or comma-separated UUIDs
+ * - container: Container UUID or comma-separated UUIDs
+ * - site: Site UUID or comma-separated UUIDs (items in containers of these sites)
+ * - room: Room UUID or comma-separated UUIDs (items in containers of these rooms)
+ * - tag: Tag UUID or comma-separated UUIDs
+ * - tagMatch: Whether items need any or all of the tags ("any" | "all"), defaults to "any"
+ * - status: In/out status ("in" | "out" | "all"), defaults to "all"
+ * - sort: Field to sort by ("name" | "created_at" | "updated_at"), defaults to "created_at"
+ * - order: Sort direction ("asc" | "desc"), defaults to "desc"
+ */
+export const listItemsQuerySchema = z.object({
+  page: z.coerce
+    .number({ invalid_type_error: 'Page must be a number' })
+    .int('Page must be an integer')
+    .min(1, 'Page must be at least 1')
+    .default(1),
+  limit: z.coerce
+    .number({ invalid_type_error: 'Limit must be a number' })
+    .int('Limit must be an integer')
+    .min(1, 'Limit must be between 1 and 100')
+    .max(100, 'Limit must be between 1 and 100')
+    .default(20),
+  search: z
+    .string()
+    .max(255, 'Search must not exceed 255 characters')
+    .transform((val) => val.trim())
+    .optional(),
+  category: uuidListSchema('category').optional(),
+  container: uuidListSchema('container').optional(),
+  site: uuidListSchema('site').optional(),
+  room: uuidListSchema('room').optional(),
+  tag: uuidListSchema('tag').optional(),
+  tagMatch: z
+    .enum(['any', 'all'], {
+      errorMap: () => ({ message: "Invalid enum value. Expected 'any' | 'all'" }),
+    })
+    .default('any'),
+  status: z
+    .enum(['in', 'out', 'all'], {
+      errorMap: () => ({ message: "Invalid enum value. Expected 'in' | 'out' | 'all'" }),
+    })
+    .default('all'),
+  sort: z
+    .enum(['name', 'created_at', 'updated_at'], {
+      errorMap: () => ({ message: "Invalid enum value. Expected 'name' | 'created_at' | 'updated_at'" }),
+    })
+    .default('created_at'),
+  order: z
+    .enum(['asc', 'desc'], {
+      errorMap: () => ({ message: "Invalid enum value. Expected 'asc' | 'desc'" }),
+    })
+    .default('desc'),
+});
+
+export type ListItemsQuerySchema = z.infer<typeof listItemsQuerySchema>;
+
+/**
+ * Validation schema for looking up items by a scanned barcode
+ *
+ * Query Parameters:
+ * - barcode: Scanned code (1-64 characters, trimmed, no spaces)
+ */
+export const barcodeLookupQuerySchema = z.object({
+  barcode: z
+    .string({
+      required_error: 'Barcode is required',
+    })
+    .transform((val) => val.trim())
+    .pipe(
+      z
+        .string()
+        .min(1, 'Barcode is required')
+        .max(64, 'Barcode must not exceed 64 characters')
+        .regex(/^\S+$/, 'Barcode must not contain spaces')
+    ),
+});
+
+export type BarcodeLookupQuerySchema = z.infer<typeof barcodeLookupQuerySchema>;
+
+/**
+ * Validation schema for item ID route parameter
+ *
+ * Enforces:
+ * - ID must be a valid UUID format
+ */
+export const itemIdParamSchema = z.object({
+  id: z.string().uuid('Invalid item ID format'),
+});
+
+export type ItemIdParamSchema = z.infer<typeof itemIdParamSchema>;
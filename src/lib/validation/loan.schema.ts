@@ -0,0 +1,112 @@
+import { z } from 'zod';
+
+/**
+ * Loan note validation (check-out note and check-in return note)
+ *
+ * Enforces:
+ * - Note is optional and may be null
+ * - Note length up to 1,000 characters
+ * - Whitespace-only notes are stored as null
+ */
+const loanNoteSchema = z
+  .string({
+    invalid_type_error: 'Note must be a string',
+  })
+  .max(1000, 'Note must not exceed 1,000 characters')
+  .transform((val) => (val.trim().length > 0 ? val.trim() : null))
+  .nullable()
+  .optional();
+
+/**
+ * Validation schema for checking an item out
+ *
+ * Enforces:
+ * - borrower: Optional name (max 255 characters), whitespace-only stored as null
+ * - dueDate: Optional calendar date in YYYY-MM-DD format
+ * - note: Optional note (max 1,000 characters)
+ */
+export const checkoutItemSchema = z.object({
+  borrower: z
+    .string({
+      invalid_type_error: 'Borrower must be a string',
+    })
+    .max(255, 'Borrower must not exceed 255 characters')
+    .transform((val) => (val.trim().length > 0 ? val.trim() : null))
+    .nullable()
+    .optional(),
+  dueDate: z
+    .string({
+      invalid_type_error: 'Due date must be a string',
+    })
+    .date('Due date must be a valid date (YYYY-MM-DD)')
+    .nullable()
+    .optional(),
+  note: loanNoteSchema,
+});
+
+export type CheckoutItemSchema = z.infer<typeof checkoutItemSchema>;
+
+/**
+ * Validation schema for checking an item back in
+ *
+ * Enforces:
+ * - note: Optional return note (max 1,000 characters)
+ */
+export const checkinItemSchema = z.object({
+  note: loanNoteSchema,
+});
+
+export type CheckinItemSchema = z.infer<typeof checkinItemSchema>;
+
+/**
+ * Validation schema for listing the check-out history of an item
+ *
+ * Query Parameters:
+ * - page: Page number, defaults to 1
+ * - limit: Loans per page (1-100), defaults to 20
+ */
+export const itemHistoryQuerySchema = z.object({
+  page: z.coerce
+    .number({ invalid_type_error: 'Page must be a number' })
+    .int('Page must be an integer')
+    .min(1, 'Page must be at least 1')
+    .default(1),
+  limit: z.coerce
+    .number({ invalid_type_error: 'Limit must be a number' })
+    .int('Limit must be an integer')
+    .min(1, 'Limit must be between 1 and 100')
+    .max(100, 'Limit must be between 1 and 100')
+    .default(20),
+});
+
+export type ItemHistoryQuerySchema = z.infer<typeof itemHistoryQuerySchema>;
+
+/**
+ * Validation schema for listing items that are currently checked out
+ *
+ * Query Parameters:
+ * - page: Page number, defaults to 1
+ * - limit: Items per page (1-100), defaults to 20
+ * - overdue: Only loans past their due date ("true" | "false"), defaults to "false"
+ */
+export const listCheckedOutItemsQuerySchema = z.object({
+  page: z.coerce
+    .number({ invalid_type_error: 'Page must be a number' })
+    .int('Page must be an integer')
+    .min(1, 'Page must be at least 1')
+    .default(1),
+  limit: z.coerce
+    .number({ invalid_type_error: 'Limit must be a number' })
+    .int('Limit must be an integer')
+    .min(1, 'Limit must be between 1 and 100')
+    .max(100, 'Limit must be between 1 and 100')
+    .default(20),
+  overdue: z
+    .enum(['true', 'false'], {
+      errorMap: () => ({ message: "Invalid enum value. Expected 'true' | 'false'" }),
+    })
+    .default('false')
+    .transform((val) => val === 'true'),
+});
+
+export type ListCheckedOutItemsQuerySchema = z.infer<typeof listCheckedOutItemsQuerySchema>;
@@ -0,0 +1,120 @@
+import { z } from 'zod';
+
+/**
+ * Site and room name validation
+ *
+ * Enforces:
+ * - Name is required and must be a string
+ * - Name length between 1 and 255 characters
+ * - Name cannot be only whitespace
+ * - Automatically trims whitespace from name
+ */
+const locationNameSchema = z
+  .string({
+    required_error: 'Name is required',
+    invalid_type_error: 'Name must be a string',
+  })
+  .min(1, 'Name must be between 1 and 255 characters')
+  .max(255, 'Name must be between 1 and 255 characters')
+  .refine(
+    (val) => val.trim().length > 0,
+    'Name cannot be only whitespace'
+  )
+  .transform((val) => val.trim());
+
+/**
+ * Validation schema for creating a new site
+ *
+ * Enforces:
+ * - Name is required (1-255 characters, trimmed)
+ */
+export const createSiteSchema = z.object({
+  name: locationNameSchema,
+});
+
+export type CreateSiteSchema = z.infer<typeof createSiteSchema>;
+
+/**
+ * Validation schema for updating a site
+ *
+ * Note: Uses same validation rules as createSiteSchema
+ */
+export const updateSiteSchema = createSiteSchema;
+
+export type UpdateSiteSchema = z.infer<typeof updateSiteSchema>;
+
+/**
+ * Validation schema for site ID route parameter
+ *
+ * Enforces:
+ * - ID must be a valid UUID format
+ */
+export const siteIdParamSchema = z.object({
+  id: z.string().uuid('Invalid site ID format'),
+});
+
+export type SiteIdParamSchema = z.infer<typeof siteIdParamSchema>;
+
+/**
+ * Validation schema for creating a new room
+ *
+ * Enforces:
+ * - Name is required (1-255 characters, trimmed)
+ * - Site ID is required and must be a valid UUID
+ */
+export const createRoomSchema = z.object({
+  name: locationNameSchema,
+  siteId: z
+    .string({
+      required_error: 'Site ID is required',
+      invalid_type_error: 'Site ID must be a string',
+    })
+    .uuid('Invalid site ID format'),
+});
+
+export type CreateRoomSchema = z.infer<typeof createRoomSchema>;
+
+/**
+ * Validation schema for updating a room
+ *
+ * Enforces:
+ * - All fields are optional for partial updates
+ * - At least one field must be provided
+ *
+ * Note: Uses same field rules as createRoomSchema
+ */
+export const updateRoomSchema = z
+  .object({
+    name: locationNameSchema.optional(),
+    siteId: z.string().uuid('Invalid site ID format').optional(),
+  })
+  .refine(
+    (val) => val.name !== undefined || val.siteId !== undefined,
+    'At least one field must be provided'
+  );
+
+export type UpdateRoomSchema = z.infer<typeof updateRoomSchema>;
+
+/**
+ * Validation schema for listing rooms
+ *
+ * Query Parameters:
+ * - site: Only rooms of this site (UUID), optional
+ */
+export const listRoomsQuerySchema = z.object({
+  site: z.string().uuid('Invalid site ID format').optional(),
+});
+
+export type ListRoomsQuerySchema = z.infer<typeof listRoomsQuerySchema>;
+
+/**
+ * Validation schema for room ID route parameter
+ *
+ * Enforces:
+ * - ID must be a valid UUID format
+ */
+export const roomIdParamSchema = z.object({
+  id: z.string().uuid('Invalid room ID format'),
+});
+
+export type RoomIdParamSchema = z.infer<typeof roomIdParamSchema>;
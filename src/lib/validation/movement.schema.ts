@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+/**
+ * Validation schema for the recently moved feed
+ *
+ * Query Parameters:
+ * - page: Page number, defaults to 1
+ * - limit: Movements per page (1-100), defaults to 20
+ * - search: Case-insensitive search on item name (max 255 characters)
+ */
+export const listMovementsQuerySchema = z.object({
+  page: z.coerce
+    .number({ invalid_type_error: 'Page must be a number' })
+    .int('Page must be an integer')
+    .min(1, 'Page must be at least 1')
+    .default(1),
+  limit: z.coerce
+    .number({ invalid_type_error: 'Limit must be a number' })
+    .int('Limit must be an integer')
+    .min(1, 'Limit must be between 1 and 100')
+    .max(100, 'Limit must be between 1 and 100')
+    .default(20),
+  search: z
+    .string()
+    .max(255, 'Search must not exceed 255 characters')
+    .transform((val) => val.trim())
+    .optional(),
+});
+
+export type ListMovementsQuerySchema = z.infer<typeof listMovementsQuerySchema>;
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+/**
+ * Validation schema for full-text search
+ *
+ * Query Parameters:
+ * - q: Search text (required, 1-255 characters, trimmed). Supports plain
+ *   words, "quoted phrases", OR and -excluded words
+ * - limit: Maximum results per entity type (1-50), defaults to 10
+ */
+export const searchQuerySchema = z.object({
+  q: z
+    .string({
+      required_error: 'Search query is required',
+      invalid_type_error: 'Search query must be a string',
+    })
+    .max(255, 'Search query must not exceed 255 characters')
+    .transform((val) => val.trim())
+    .pipe(z.string().min(1, 'Search query cannot be empty')),
+  limit: z.coerce
+    .number({ invalid_type_error: 'Limit must be a number' })
+    .int('Limit must be an integer')
+    .min(1, 'Limit must be between 1 and 50')
+    .max(50, 'Limit must be between 1 and 50')
+    .default(10),
+});
+
+export type SearchQuerySchema = z.infer<typeof searchQuerySchema>;
+
+/**
+ * Validation schema for search autocomplete
+ *
+ * Query Parameters:
+ * - q: Text typed so far (required, 2-100 characters, trimmed)
+ * - limit: Maximum number of suggestions (1-20), defaults to 8
+ */
+export const searchSuggestQuerySchema = z.object({
+  q: z
+    .string({
+      required_error: 'Search query is required',
+      invalid_type_error: 'Search query must be a string',
+    })
+    .max(100, 'Search query must not exceed 100 characters')
+    .transform((val) => val.trim())
+    .pipe(z.string().min(2, 'Search query must be at least 2 characters')),
+  limit: z.coerce
+    .number({ invalid_type_error: 'Limit must be a number' })
+    .int('Limit must be an integer')
+    .min(1, 'Limit must be between 1 and 20')
+    .max(20, 'Limit must be between 1 and 20')
+    .default(8),
+});
+
+export type SearchSuggestQuerySchema = z.infer<typeof searchSuggestQuerySchema>;
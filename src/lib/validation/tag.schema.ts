@@ -0,0 +1,94 @@
+import { z } from 'zod';
+
+/**
+ * Tag name validation
+ *
+ * Enforces:
+ * - Name is required and must be a string
+ * - Name length between 1 and 50 characters
+ * - Name cannot be only whitespace
+ * - Automatically trims whitespace from name
+ */
+const tagNameSchema = z
+  .string({
+    required_error: 'Name is required',
+    invalid_type_error: 'Name must be a string',
+  })
+  .min(1, 'Name must be between 1 and 50 characters')
+  .max(50, 'Name must be between 1 and 50 characters')
+  .refine(
+    (val) => val.trim().length > 0,
+    'Name cannot be only whitespace'
+  )
+  .transform((val) => val.trim());
+
+/**
+ * Validation schema for creating a new tag
+ *
+ * Enforces:
+ * - Name is required (1-50 characters, trimmed)
+ */
+export const createTagSchema = z.object({
+  name: tagNameSchema,
+});
+
+export type CreateTagSchema = z.infer<typeof createTagSchema>;
+
+/**
+ * Validation schema for updating a tag
+ *
+ * Note: Uses same validation rules as createTagSchema
+ */
+export const updateTagSchema = createTagSchema;
+
+export type UpdateTagSchema = z.infer<typeof updateTagSchema>;
+
+/**
+ * Validation schema for listing tags with sorting options
+ *
+ * Query Parameters:
+ * - sort: Field to sort by ("name" | "created_at"), defaults to "name"
+ * - order: Sort direction ("asc" | "desc"), defaults to "asc"
+ */
+export const listTagsQuerySchema = z.object({
+  sort: z
+    .enum(['name', 'created_at'], {
+      errorMap: () => ({ message: "Invalid enum value. Expected 'name' | 'created_at'" }),
+    })
+    .default('name'),
+  order: z
+    .enum(['asc', 'desc'], {
+      errorMap: () => ({ message: "Invalid enum value. Expected 'asc' | 'desc'" }),
+    })
+    .default('asc'),
+});
+
+export type ListTagsQuerySchema = z.infer<typeof listTagsQuerySchema>;
+
+/**
+ * Validation schema for tag ID route parameter
+ *
+ * Enforces:
+ * - ID must be a valid UUID format
+ */
+export const tagIdParamSchema = z.object({
+  id: z.string().uuid('Invalid tag ID format'),
+});
+
+export type TagIdParamSchema = z.infer<typeof tagIdParamSchema>;
+
+/**
+ * Tag IDs assigned to an item (create and update)
+ *
+ * Enforces:
+ * - Array of valid UUIDs, at most 20
+ * - Duplicates are removed
+ *
+ * Note: Ownership of the referenced tags is validated by the service layer
+ */
+export const itemTagIdsSchema = z
+  .array(z.string().uuid('Invalid tag ID format'), {
+    invalid_type_error: 'Tag IDs must be an array',
+  })
+  .max(20, 'An item can have at most 20 tags')
+  .transform((ids) => [...new Set(ids)]);
@@ -0,0 +1,120 @@
+import type { APIRoute } from 'astro';
+import { listActivityQuerySchema } from '../../../lib/validation/activity.schema';
+import { ActivityService } from '../../../lib/services/activity.service';
+import type { ErrorResponseDTO } from '../../../types';
+
+export const prerender = false;
+
+/**
+ * GET /api/activity
+ *
+ * Activity feed: audit log of inserts, updates and deletes on the
+ * authenticated user's items, containers, categories and images,
+ * newest first. Entries are written by database triggers.
+ *
+ * Query Parameters:
+ * - page: number (optional, default: 1) - Page number
+ * - limit: number (optional, default: 50, max: 100) - Entries per page
+ * - entity: "item" | "container" | "category" | "image" (optional) - Filter by entity type
+ * - entityId: UUID (optional) - Filter by entity ID
+ * - from: YYYY-MM-DD (optional) - Entries on or after this day (UTC)
+ * - to: YYYY-MM-DD (optional) - Entries on or before this day (UTC)
+ *
+ * Response:
+ * - 200: ActivityListResponseDTO with entries and pagination metadata
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (invalid query parameters)
+ * - 500: Internal Server Error
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  console.log('[GET /api/activity] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 2: Extract query parameters (missing values fall back to schema defaults)
+    const url = new URL(request.url);
+    const queryParams = {
+      page: url.searchParams.get('page') ?? undefined,
+      limit: url.searchParams.get('limit') ?? undefined,
+      entity: url.searchParams.get('entity') ?? undefined,
+      entityId: url.searchParams.get('entityId') ?? undefined,
+      from: url.searchParams.get('from') ?? undefined,
+      to: url.searchParams.get('to') ?? undefined,
+    };
+
+    // Step 3: Validate query parameters with Zod schema (guard clause)
+    const validation = listActivityQuerySchema.safeParse(queryParams);
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'unknown',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid query parameters',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Call service layer to retrieve audit log entries
+    const response = await ActivityService.listActivity(locals.supabase, user.id, validation.data);
+
+    // Step 5: Return success response
+    return new Response(
+      JSON.stringify(response),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Log unexpected errors with context for debugging
+    console.error('[GET /api/activity] Unexpected error:', {
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while fetching activity',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
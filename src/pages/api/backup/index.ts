@@ -0,0 +1,83 @@
+import type { APIRoute } from 'astro';
+import { BackupService } from '../../../lib/services/backup.service';
+import type { ErrorResponseDTO } from '../../../types';
+
+export const prerender = false;
+
+/**
+ * GET /api/backup
+ *
+ * Downloads a backup archive of everything the authenticated user owns: a
+ * zip with inventory.json (sites, rooms, categories, tags, containers, items
+ * and image metadata, see InventoryExportDTO) and the original image files.
+ * The archive is streamed while it is being built. Restore it with
+ * POST /api/backup/restore, also on another instance.
+ *
+ * Response:
+ * - 200: Zip archive (application/zip, downloaded as inventory-backup-YYYY-MM-DD.zip)
+ * - 401: Unauthorized (no valid session)
+ * - 500: Internal Server Error
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  console.log('[GET /api/backup] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 2: Call service layer to start the archive stream
+    const stream = await BackupService.createBackup(locals.supabase, user.id);
+
+    // Step 3: Return streamed archive download
+    const fileName = `inventory-backup-${new Date().toISOString().slice(0, 10)}.zip`;
+
+    return new Response(
+      stream,
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="${fileName}"`,
+          'Cache-Control': 'no-store'
+        }
+      }
+    );
+
+  } catch (error: any) {
+    // Log unexpected errors with context for debugging
+    console.error('[GET /api/backup] Unexpected error:', {
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while creating the backup',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
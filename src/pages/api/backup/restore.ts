@@ -0,0 +1,194 @@
+import type { APIRoute } from 'astro';
+import { ZodError } from 'zod';
+import { restoreBackupSchema } from '../../../lib/validation/backup.schema';
+import { BackupService } from '../../../lib/services/backup.service';
+import type { ErrorResponseDTO, RestoreBackupCommand, RestoreReportDTO } from '../../../types';
+
+export const prerender = false;
+
+/**
+ * POST /api/backup/restore
+ *
+ * Rebuilds the authenticated user's inventory from a backup archive created
+ * by GET /api/backup, e.g. after moving to another Supabase instance. All
+ * entities get new IDs; short codes are kept where possible so printed
+ * labels keep working. The inventory must be empty.
+ *
+ * Request Body (multipart/form-data):
+ * - file: File (required, max 100MB) - Backup archive (zip)
+ *
+ * Response:
+ * - 201: RestoreReportDTO with the number of restored entities and any images that failed
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (no valid archive, archive expands to more than
+ *   300MB, or invalid inventory.json;
+ *   details use the paths of inventory.json, e.g. "items.3.categoryId")
+ * - 409: Conflict (inventory is not empty)
+ * - 500: Internal Server Error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  console.log('[POST /api/backup/restore] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 2: Parse multipart form data (guard clause)
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid multipart form data',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 3: Validate form fields with Zod schema (guard clause)
+    const validation = restoreBackupSchema.safeParse({
+      file: formData.get('file'),
+    });
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'file',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Create command object
+    const command: RestoreBackupCommand = {
+      file: validation.data.file,
+    };
+
+    // Step 5: Call service layer to restore the archive
+    const report = await BackupService.restoreBackup(locals.supabase, user.id, command);
+
+    // Step 6: Return restore report
+    return new Response(
+      JSON.stringify(report satisfies RestoreReportDTO),
+      {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Handle invalid inventory.json
+    if (error instanceof ZodError) {
+      const details = error.errors.map((err) => ({
+        field: err.path.join('.') || 'inventory',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Backup archive contains invalid data',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Handle business logic errors
+    if (
+      error?.message === 'File is not a valid backup archive' ||
+      error?.message === 'Backup archive must not expand to more than 300MB' ||
+      error?.message === 'Backup contains categories whose parent is missing or circular' ||
+      error?.message === 'Backup contains containers whose parent is missing or circular'
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: [{ field: 'file', message: error.message }],
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    if (error?.message === 'Inventory must be empty to restore a backup') {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'CONFLICT',
+            message: error.message,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Log unexpected errors with context for debugging
+    console.error('[POST /api/backup/restore] Unexpected error:', {
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while restoring the backup',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
@@ -1,25 +1,36 @@
 import type { APIRoute } from 'astro';
-import { updateCategorySchema, categoryIdParamSchema } from '../../../lib/validation/category.schema';
+import {
+  updateCategorySchema,
+  categoryIdParamSchema,
+  deleteCategoryQuerySchema,
+} from '../../../lib/validation/category.schema';
 import { CategoryService } from '../../../lib/services/category.service';
-import type { UpdateCategoryCommand, ErrorResponseDTO, CategoryListItemDTO, DeleteResponseDTO } from '../../../types';
+import type {
+  UpdateCategoryCommand,
+  DeleteCategoryCommand,
+  ErrorResponseDTO,
+  CategoryListItemDTO,
+  DeleteCategoryResponseDTO,
+} from '../../../types';
 
 export const prerender = false;
 
 /**
  * PATCH /api/categories/:id
  * 
- * Updates an existing category name for the authenticated user.
+ * Updates an existing category (name and/or parent) for the authenticated user.
  * 
  * Route Parameters:
  * - id: string (UUID) - ID of the category to update
  * 
- * Request Body:
- * - name: string (required, 1-255 characters, trimmed)
+ * Request Body (at least one field required):
+ * - name: string (optional, 1-255 characters, trimmed)
+ * - parentId: string | null (optional, UUID of the new parent category, null for top level)
  * 
  * Response:
  * - 200: CategoryListItemDTO with updated data
  * - 401: Unauthorized (no valid session)
- * - 400: Bad Request (validation error)
+ * - 400: Bad Request (validation error or invalid parent category)
  * - 404: Not Found (category doesn't exist or user doesn't own it)
  * - 409: Conflict (duplicate category name)
  * - 500: Internal Server Error
@@ -115,6 +126,7 @@ export const PATCH: APIRoute = async ({ request, params, locals }) => {
     // Step 5: Create command object
     const command: UpdateCategoryCommand = {
       name: validation.data.name, // Already trimmed by Zod
+      parentId: validation.data.parentId,
     };
 
     // Step 6: Call service layer
@@ -167,6 +179,27 @@ export const PATCH: APIRoute = async ({ request, params, locals }) => {
       );
     }
 
+    // Handle invalid parent category (ownership, cycle or depth violation)
+    if (
+      error?.message?.startsWith('Parent category') ||
+      error?.message?.startsWith('Category cannot be placed') ||
+      error?.message?.startsWith('Category nesting')
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: [{ field: 'parentId', message: error.message }],
+          },
+        } satisfies ErrorResponseDTO),
+        { 
+          status: 400, 
+          headers: { 'Content-Type': 'application/json' } 
+        }
+      );
+    }
+
     // Log unexpected errors with context for debugging
     console.error('[PATCH /api/categories/:id] Unexpected error:', {
       userId: error?.user?.id || 'unknown',
@@ -196,22 +229,30 @@ export const PATCH: APIRoute = async ({ request, params, locals }) => {
  * DELETE /api/categories/:id
  * 
  * Deletes an existing category for the authenticated user.
- * Only categories with zero items can be deleted (enforces referential integrity).
+ * Categories with subcategories cannot be deleted (enforces referential integrity).
+ * Items are moved atomically to the reassignTo category; without it, only
+ * categories with zero items can be deleted.
  * 
  * Route Parameters:
  * - id: string (UUID) - ID of the category to delete
  * 
+ * Query Parameters:
+ * - reassignTo: string (optional) - Category UUID to move the items to, or
+ *   "uncategorized" for the "Uncategorized" category (created if missing
+ *   and the category has items)
+ * 
  * Request Body: None
  * 
  * Response:
- * - 200: DeleteResponseDTO with success message and category ID
+ * - 200: DeleteCategoryResponseDTO with success message, category ID and moved items
  * - 401: Unauthorized (no valid session)
- * - 400: Bad Request (invalid UUID format)
+ * - 400: Bad Request (invalid UUID format or invalid reassignment target)
  * - 404: Not Found (category doesn't exist or user doesn't own it)
- * - 409: Conflict (category contains items)
+ * - 409: Conflict (category contains subcategories, items without reassignTo,
+ *   or the "Uncategorized" category changed during the delete)
  * - 500: Internal Server Error
  */
-export const DELETE: APIRoute = async ({ params, locals }) => {
+export const DELETE: APIRoute = async ({ request, params, locals }) => {
   console.log('[DELETE /api/categories/:id] Request received');
 
   try {
@@ -255,14 +296,47 @@ export const DELETE: APIRoute = async ({ params, locals }) => {
 
     const categoryId = paramValidation.data.id;
 
-    // Step 3: Call service layer to delete category
+    // Step 3: Validate query parameters (guard clause)
+    const url = new URL(request.url);
+    const queryValidation = deleteCategoryQuerySchema.safeParse({
+      reassignTo: url.searchParams.get('reassignTo') ?? undefined,
+    });
+
+    if (!queryValidation.success) {
+      const details = queryValidation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'reassignTo',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid query parameters',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        { 
+          status: 400, 
+          headers: { 'Content-Type': 'application/json' } 
+        }
+      );
+    }
+
+    // Step 4: Create command object
+    const command: DeleteCategoryCommand = {
+      reassignTo: queryValidation.data.reassignTo,
+    };
+
+    // Step 5: Call service layer to delete category
     const result = await CategoryService.deleteCategory(
       supabase,
       user.id,
-      categoryId
+      categoryId,
+      command
     );
 
-    // Step 4: Check if category was found (guard clause)
+    // Step 6: Check if category was found (guard clause)
     if (!result) {
       return new Response(
         JSON.stringify({
@@ -278,12 +352,14 @@ export const DELETE: APIRoute = async ({ params, locals }) => {
       );
     }
 
-    // Step 5: Return success response (happy path)
+    // Step 7: Return success response (happy path)
     return new Response(
       JSON.stringify({
         message: 'Category deleted successfully',
         id: result.id,
-      } satisfies DeleteResponseDTO),
+        reassignedTo: result.reassignedTo,
+        movedItemCount: result.movedItemCount,
+      } satisfies DeleteCategoryResponseDTO),
       { 
         status: 200, 
         headers: { 'Content-Type': 'application/json' } 
@@ -307,6 +383,23 @@ export const DELETE: APIRoute = async ({ params, locals }) => {
       );
     }
 
+    // Handle invalid reassignment target (ownership or the deleted category itself)
+    if (error?.message?.startsWith('Target category') || error?.message?.startsWith('Items cannot be reassigned')) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: [{ field: 'reassignTo', message: error.message }],
+          },
+        } satisfies ErrorResponseDTO),
+        { 
+          status: 400, 
+          headers: { 'Content-Type': 'application/json' } 
+        }
+      );
+    }
+
     // Log unexpected errors with context for debugging
     console.error('[DELETE /api/categories/:id] Unexpected error:', {
       userId: error?.user?.id || 'unknown',
@@ -0,0 +1,195 @@
+import type { APIRoute } from 'astro';
+import { categoryIdParamSchema, mergeCategorySchema } from '../../../../lib/validation/category.schema';
+import { CategoryService } from '../../../../lib/services/category.service';
+import type { ErrorResponseDTO, MergeCategoryCommand, MergeCategoryResponseDTO } from '../../../../types';
+
+export const prerender = false;
+
+/**
+ * POST /api/categories/:id/merge
+ *
+ * Merges a category into another category of the authenticated user.
+ * All items and subcategories move to the target, then the merged
+ * category is deleted, in a single transaction.
+ *
+ * Route Parameters:
+ * - id: string (UUID) - ID of the category to merge (source)
+ *
+ * Request Body:
+ * - targetId: string (required, UUID of the category to merge into)
+ *
+ * Response:
+ * - 200: MergeCategoryResponseDTO with the number of moved items
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (validation error or invalid target category)
+ * - 404: Not Found (category doesn't exist or user doesn't own it)
+ * - 500: Internal Server Error
+ */
+export const POST: APIRoute = async ({ request, params, locals }) => {
+  console.log('[POST /api/categories/:id/merge] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = locals.supabase;
+
+    // Step 2: Validate route parameter (guard clause)
+    const paramValidation = categoryIdParamSchema.safeParse({ id: params.id });
+
+    if (!paramValidation.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid category ID format',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 3: Parse request body (guard clause)
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid JSON payload',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Validate request body with Zod schema (guard clause)
+    const validation = mergeCategorySchema.safeParse(body);
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'targetId',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 5: Create command object
+    const command: MergeCategoryCommand = {
+      targetId: validation.data.targetId,
+    };
+
+    // Step 6: Call service layer
+    const movedItemCount = await CategoryService.mergeCategory(supabase, user.id, paramValidation.data.id, command);
+
+    // Step 7: Check if category was found (guard clause)
+    if (movedItemCount === null) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Category not found',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 8: Return success response (happy path)
+    return new Response(
+      JSON.stringify({
+        message: 'Category merged successfully',
+        id: paramValidation.data.id,
+        targetId: command.targetId,
+        movedItemCount,
+      } satisfies MergeCategoryResponseDTO),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Handle invalid target category (ownership, self, subcategory or depth violation)
+    if (
+      error?.message?.startsWith('Target category') ||
+      error?.message?.startsWith('Category cannot be merged') ||
+      error?.message?.startsWith('Category nesting')
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: [{ field: 'targetId', message: error.message }],
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Log unexpected errors with context for debugging
+    console.error('[POST /api/categories/:id/merge] Unexpected error:', {
+      categoryId: params?.id || 'unknown',
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while merging the category',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
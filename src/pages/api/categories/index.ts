@@ -12,11 +12,12 @@ export const prerender = false;
  * 
  * Request Body:
  * - name: string (required, 1-255 characters, trimmed)
+ * - parentId: string | null (optional, UUID of the user's parent category)
  * 
  * Response:
  * - 201: CategoryListItemDTO
  * - 401: Unauthorized (no valid session)
- * - 400: Bad Request (validation error)
+ * - 400: Bad Request (validation error or invalid parent category)
  * - 409: Conflict (duplicate category name)
  * - 500: Internal Server Error
  */
@@ -91,6 +92,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
     // Step 4: Create command object
     const command: CreateCategoryCommand = {
       name: validation.data.name, // Already trimmed by Zod
+      parentId: validation.data.parentId,
     };
 
     // Step 5: Call service layer
@@ -126,6 +128,27 @@ export const POST: APIRoute = async ({ request, locals }) => {
       );
     }
 
+    // Handle invalid parent category (ownership, cycle or depth violation)
+    if (
+      error?.message?.startsWith('Parent category') ||
+      error?.message?.startsWith('Category cannot be placed') ||
+      error?.message?.startsWith('Category nesting')
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: [{ field: 'parentId', message: error.message }],
+          },
+        } satisfies ErrorResponseDTO),
+        { 
+          status: 400, 
+          headers: { 'Content-Type': 'application/json' } 
+        }
+      );
+    }
+
     // Log unexpected errors with context for debugging
     console.error('[POST /api/categories] Unexpected error:', {
       userId: error?.user?.id || 'unknown',
@@ -160,7 +183,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
  * - order: string (optional, default: "asc") - Sort direction ("asc" | "desc")
  * 
  * Response:
- * - 200: CategoryListResponseDTO with array of categories
+ * - 200: CategoryListResponseDTO with top-level categories (subcategories nested in children)
  * - 401: Unauthorized (no valid session)
  * - 400: Bad Request (invalid query parameters)
  * - 500: Internal Server Error
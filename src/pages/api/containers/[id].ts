@@ -0,0 +1,474 @@
+import type { APIRoute } from 'astro';
+import { updateContainerSchema, containerIdParamSchema } from '../../../lib/validation/container.schema';
+import { ContainerService } from '../../../lib/services/container.service';
+import type { UpdateContainerCommand, ErrorResponseDTO, DeleteResponseDTO } from '../../../types';
+
+export const prerender = false;
+
+/**
+ * GET /api/containers/:id
+ *
+ * Retrieves a single container with its breadcrumb path, images,
+ * child containers and items.
+ *
+ * Route Parameters:
+ * - id: string (UUID) - ID of the container to retrieve
+ *
+ * Response:
+ * - 200: ContainerDetailDTO
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (invalid UUID format)
+ * - 404: Not Found (container doesn't exist or user doesn't own it)
+ * - 500: Internal Server Error
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  console.log('[GET /api/containers/:id] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = locals.supabase;
+
+    // Step 2: Validate route parameter (guard clause)
+    const paramValidation = containerIdParamSchema.safeParse({ id: params.id });
+
+    if (!paramValidation.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid container ID format',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 3: Call service layer
+    const container = await ContainerService.getContainer(
+      supabase,
+      user.id,
+      paramValidation.data.id
+    );
+
+    // Step 4: Check if container was found (guard clause)
+    if (!container) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Container not found',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 5: Return success response (happy path)
+    return new Response(
+      JSON.stringify(container),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Log unexpected errors with context for debugging
+    console.error('[GET /api/containers/:id] Unexpected error:', {
+      containerId: params?.id || 'unknown',
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
+
+/**
+ * PATCH /api/containers/:id
+ *
+ * Updates an existing container for the authenticated user.
+ *
+ * Route Parameters:
+ * - id: string (UUID) - ID of the container to update
+ *
+ * Request Body (at least one field required):
+ * - name: string (optional, 1-255 characters, trimmed)
+ * - description: string | null (optional, max 10,000 characters)
+ * - parentId: string | null (optional, UUID of the new parent, null moves to top level)
+ * - roomId: string | null (optional, UUID of the room, top-level containers only)
+ *
+ * Response:
+ * - 200: ContainerDetailDTO with updated data
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (validation error, invalid room or parent, cycle or nesting too deep)
+ * - 404: Not Found (container doesn't exist or user doesn't own it)
+ * - 500: Internal Server Error
+ */
+export const PATCH: APIRoute = async ({ request, params, locals }) => {
+  console.log('[PATCH /api/containers/:id] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = locals.supabase;
+
+    // Step 2: Validate route parameter (guard clause)
+    const paramValidation = containerIdParamSchema.safeParse({ id: params.id });
+
+    if (!paramValidation.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid container ID format',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const containerId = paramValidation.data.id;
+
+    // Step 3: Parse request body (guard clause)
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid JSON payload',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Validate request body with Zod schema (guard clause)
+    const validation = updateContainerSchema.safeParse(body);
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'body',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 5: Create command object
+    const command: UpdateContainerCommand = {
+      name: validation.data.name,
+      description: validation.data.description,
+      parentId: validation.data.parentId,
+      roomId: validation.data.roomId,
+    };
+
+    // Step 6: Call service layer
+    const container = await ContainerService.updateContainer(
+      supabase,
+      user.id,
+      containerId,
+      command
+    );
+
+    // Step 7: Check if container was found (guard clause)
+    if (!container) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Container not found',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 8: Return success response (happy path)
+    return new Response(
+      JSON.stringify(container),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Handle invalid room assignment
+    if (
+      error?.message?.startsWith('Room does not exist') ||
+      error?.message?.startsWith('Nested containers inherit')
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: [{ field: 'roomId', message: error.message }],
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Handle invalid parent container (ownership, cycle or depth violation)
+    if (
+      error?.message?.startsWith('Parent container') ||
+      error?.message?.startsWith('Container cannot be placed') ||
+      error?.message?.startsWith('Container nesting')
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: [{ field: 'parentId', message: error.message }],
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Log unexpected errors with context for debugging
+    console.error('[PATCH /api/containers/:id] Unexpected error:', {
+      containerId: params?.id || 'unknown',
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
+
+/**
+ * DELETE /api/containers/:id
+ *
+ * Deletes an existing container for the authenticated user.
+ * Only containers with zero items and zero child containers can be deleted
+ * (enforces referential integrity).
+ *
+ * Route Parameters:
+ * - id: string (UUID) - ID of the container to delete
+ *
+ * Request Body: None
+ *
+ * Response:
+ * - 200: DeleteResponseDTO with success message and container ID
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (invalid UUID format)
+ * - 404: Not Found (container doesn't exist or user doesn't own it)
+ * - 409: Conflict (container contains items or child containers)
+ * - 500: Internal Server Error
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  console.log('[DELETE /api/containers/:id] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = locals.supabase;
+
+    // Step 2: Validate route parameter (guard clause)
+    const paramValidation = containerIdParamSchema.safeParse({ id: params.id });
+
+    if (!paramValidation.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid container ID format',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 3: Call service layer to delete container
+    const result = await ContainerService.deleteContainer(
+      supabase,
+      user.id,
+      paramValidation.data.id
+    );
+
+    // Step 4: Check if container was found (guard clause)
+    if (!result) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Container not found',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 5: Return success response (happy path)
+    return new Response(
+      JSON.stringify({
+        message: 'Container deleted successfully',
+        id: result.id,
+      } satisfies DeleteResponseDTO),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Handle container with items or children conflict (business rule violation)
+    if (error?.message?.includes('Cannot delete')) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'CONFLICT',
+            message: error.message,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Log unexpected errors with context for debugging
+    console.error('[DELETE /api/containers/:id] Unexpected error:', {
+      containerId: params?.id || 'unknown',
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while deleting the container',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
@@ -0,0 +1,174 @@
+import type { APIRoute } from 'astro';
+import { containerIdParamSchema } from '../../../../../lib/validation/container.schema';
+import { imageIdParamSchema, updateImageDisplayOrderSchema } from '../../../../../lib/validation/image.schema';
+import { ImageService } from '../../../../../lib/services/image.service';
+import type { ErrorResponseDTO } from '../../../../../types';
+
+export const prerender = false;
+
+/**
+ * PATCH /api/containers/:id/images/:imageId
+ *
+ * Moves a container image to a new display order, shifting the other images.
+ * Setting displayOrder to 1 promotes the image to thumbnail in a single call.
+ *
+ * Route Parameters:
+ * - id: string (UUID) - ID of the container
+ * - imageId: string (UUID) - ID of the image to move
+ *
+ * Request Body:
+ * - displayOrder: number (required, 1-5)
+ *
+ * Response:
+ * - 200: ImageDTO with updated display order
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (validation error)
+ * - 404: Not Found (image doesn't exist or doesn't belong to the container)
+ * - 500: Internal Server Error
+ */
+export const PATCH: APIRoute = async ({ request, params, locals }) => {
+  console.log('[PATCH /api/containers/:id/images/:imageId] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = locals.supabase;
+
+    // Step 2: Validate route parameters (guard clause)
+    const paramValidation = containerIdParamSchema.safeParse({ id: params.id });
+    const imageParamValidation = imageIdParamSchema.safeParse({ imageId: params.imageId });
+
+    if (!paramValidation.success || !imageParamValidation.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: paramValidation.success ? 'Invalid image ID format' : 'Invalid container ID format',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 3: Parse request body (guard clause)
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid JSON payload',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Validate request body with Zod schema (guard clause)
+    const validation = updateImageDisplayOrderSchema.safeParse(body);
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'displayOrder',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 5: Call service layer
+    const image = await ImageService.updateDisplayOrder(
+      supabase,
+      user.id,
+      'container',
+      paramValidation.data.id,
+      imageParamValidation.data.imageId,
+      { displayOrder: validation.data.displayOrder }
+    );
+
+    // Step 6: Check if image was found (guard clause)
+    if (!image) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Image not found',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 7: Return success response (happy path)
+    return new Response(
+      JSON.stringify(image),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Log unexpected errors with context for debugging
+    console.error('[PATCH /api/containers/:id/images/:imageId] Unexpected error:', {
+      containerId: params?.id || 'unknown',
+      imageId: params?.imageId || 'unknown',
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while updating the image',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
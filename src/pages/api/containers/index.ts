@@ -0,0 +1,304 @@
+import type { APIRoute } from 'astro';
+import { createContainerSchema, listContainersQuerySchema } from '../../../lib/validation/container.schema';
+import { ContainerService } from '../../../lib/services/container.service';
+import type { CreateContainerCommand, ErrorResponseDTO } from '../../../types';
+
+export const prerender = false;
+
+/**
+ * POST /api/containers
+ *
+ * Creates a new container for the authenticated user.
+ *
+ * Request Body:
+ * - name: string (required, 1-255 characters, trimmed)
+ * - description: string | null (optional, max 10,000 characters)
+ * - parentId: string | null (optional, UUID of the enclosing container)
+ * - roomId: string | null (optional, UUID of the room, top-level containers only)
+ *
+ * Response:
+ * - 201: ContainerDetailDTO
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (validation error, invalid room or parent, cycle or nesting too deep)
+ * - 500: Internal Server Error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  console.log('[POST /api/containers] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = locals.supabase;
+
+    // Step 2: Parse request body (guard clause)
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid JSON payload',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 3: Validate with Zod schema (guard clause)
+    const validation = createContainerSchema.safeParse(body);
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'name',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Create command object
+    const command: CreateContainerCommand = {
+      name: validation.data.name, // Already trimmed by Zod
+      description: validation.data.description ?? null,
+      parentId: validation.data.parentId ?? null,
+      roomId: validation.data.roomId ?? null,
+    };
+
+    // Step 5: Call service layer
+    const container = await ContainerService.createContainer(
+      supabase,
+      user.id,
+      command
+    );
+
+    // Step 6: Return success response
+    return new Response(
+      JSON.stringify(container),
+      {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Handle invalid room assignment
+    if (
+      error?.message?.startsWith('Room does not exist') ||
+      error?.message?.startsWith('Nested containers inherit')
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: [{ field: 'roomId', message: error.message }],
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Handle invalid parent container (ownership, cycle or depth violation)
+    if (
+      error?.message?.startsWith('Parent container') ||
+      error?.message?.startsWith('Container cannot be placed') ||
+      error?.message?.startsWith('Container nesting')
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: [{ field: 'parentId', message: error.message }],
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Log unexpected errors with context for debugging
+    console.error('[POST /api/containers] Unexpected error:', {
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
+
+/**
+ * GET /api/containers
+ *
+ * Retrieves a paginated list of containers for the authenticated user
+ * with breadcrumb paths, thumbnails, image counts and item counts.
+ *
+ * Query Parameters:
+ * - page: number (optional, default: 1) - Page number
+ * - limit: number (optional, default: 20, max: 100) - Containers per page
+ * - parent: string (optional) - Container ID to list its children, or "root" for top-level containers
+ * - site: string (optional) - Site UUID or comma-separated UUIDs
+ * - room: string (optional) - Room UUID or comma-separated UUIDs
+ * - sort: string (optional, default: "created_at") - Field to sort by ("name" | "created_at")
+ * - order: string (optional, default: "desc") - Sort direction ("asc" | "desc")
+ *
+ * Response:
+ * - 200: ContainerListResponseDTO with containers and pagination metadata
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (invalid query parameters)
+ * - 500: Internal Server Error
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  console.log('[GET /api/containers] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = locals.supabase;
+
+    // Step 2: Extract query parameters (missing values fall back to schema defaults)
+    const url = new URL(request.url);
+    const queryParams = {
+      page: url.searchParams.get('page') ?? undefined,
+      limit: url.searchParams.get('limit') ?? undefined,
+      parent: url.searchParams.get('parent') ?? undefined,
+      site: url.searchParams.get('site') ?? undefined,
+      room: url.searchParams.get('room') ?? undefined,
+      sort: url.searchParams.get('sort') ?? undefined,
+      order: url.searchParams.get('order') ?? undefined,
+    };
+
+    // Step 3: Validate query parameters with Zod schema (guard clause)
+    const validation = listContainersQuerySchema.safeParse(queryParams);
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'unknown',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid query parameters',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Call service layer to retrieve containers
+    const response = await ContainerService.listContainers(supabase, user.id, {
+      page: validation.data.page,
+      limit: validation.data.limit,
+      parent: validation.data.parent,
+      siteIds: validation.data.site,
+      roomIds: validation.data.room,
+      sort: validation.data.sort,
+      order: validation.data.order,
+    });
+
+    // Step 5: Return success response
+    return new Response(
+      JSON.stringify(response),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Log unexpected errors with context for debugging
+    console.error('[GET /api/containers] Unexpected error:', {
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
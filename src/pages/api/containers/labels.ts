@@ -0,0 +1,175 @@
+import type { APIRoute } from 'astro';
+import { createContainerLabelsSchema } from '../../../lib/validation/container.schema';
+import { LabelService } from '../../../lib/services/label.service';
+import type { CreateContainerLabelsCommand, ErrorResponseDTO } from '../../../types';
+
+export const prerender = false;
+
+/**
+ * POST /api/containers/labels
+ *
+ * Creates a printable PDF of QR code labels for containers. Each label shows
+ * the container name, its short code and a QR code with the short link
+ * /c/:code, which opens the container page. The PDF is generated on the
+ * server without external services.
+ *
+ * Request Body:
+ * - containerIds: string[] (optional) - Containers to label, printed in this order (max 500)
+ * - roomId: string (optional) - Label all containers in this room instead
+ * - layout: "a4" | "avery-l7160" | "avery-l7163" | "avery-l7165" | "avery-l7651" | "avery-5160" | "avery-5163"
+ *   (optional, default: "a4") - Label sheet
+ * - skip: number (optional, default: 0) - Label positions to leave empty on the first sheet
+ *
+ * Exactly one of containerIds or roomId is required.
+ *
+ * Response:
+ * - 200: PDF document (application/pdf, downloaded as container-labels.pdf)
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (validation errors, skip too large for the layout)
+ * - 404: Not Found (container not found or room without containers)
+ * - 500: Internal Server Error
+ */
+export const POST: APIRoute = async ({ request, locals, url }) => {
+  console.log('[POST /api/containers/labels] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 2: Parse request body (guard clause)
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid JSON payload',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 3: Validate with Zod schema (guard clause)
+    const validation = createContainerLabelsSchema.safeParse(body);
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'unknown',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Create command object
+    const command: CreateContainerLabelsCommand = {
+      containerIds: validation.data.containerIds,
+      roomId: validation.data.roomId,
+      layout: validation.data.layout,
+      skip: validation.data.skip,
+    };
+
+    // Step 5: Call service layer to render the PDF
+    const pdf = await LabelService.createContainerLabels(locals.supabase, user.id, command, url.origin);
+
+    // Step 6: Handle not found case (guard clause)
+    if (!pdf) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'NOT_FOUND',
+            message: command.roomId ? 'No containers found in this room' : 'One or more containers not found',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 7: Return PDF as download
+    return new Response(
+      pdf,
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': 'attachment; filename="container-labels.pdf"'
+        }
+      }
+    );
+
+  } catch (error: any) {
+    // Handle limits that depend on the layout or the room size
+    if (error?.message?.startsWith('Skip must be less than') || error?.message?.startsWith('Cannot print more than')) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: [{ field: error.message.startsWith('Skip') ? 'skip' : 'roomId', message: error.message }],
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Log unexpected errors with context for debugging
+    console.error('[POST /api/containers/labels] Unexpected error:', {
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while creating labels',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
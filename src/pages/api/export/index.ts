@@ -0,0 +1,126 @@
+import type { APIRoute } from 'astro';
+import { exportQuerySchema } from '../../../lib/validation/export.schema';
+import { ExportService } from '../../../lib/services/export.service';
+import type { ErrorResponseDTO } from '../../../types';
+
+export const prerender = false;
+
+/**
+ * GET /api/export
+ *
+ * Downloads the authenticated user's inventory. The file is streamed while
+ * it is being read from the database, so large inventories are never held
+ * in memory.
+ *
+ * Query Parameters:
+ * - format: "csv" | "json" (optional, default: "csv")
+ *   - csv: one row per item with category, container, location, status,
+ *     quantity, barcode and image URLs (compatible with the CSV import)
+ *   - json: InventoryExportDTO with sites, rooms, categories, tags,
+ *     containers, items and image metadata
+ *
+ * Image URLs are signed and valid for 7 days.
+ *
+ * Response:
+ * - 200: File download (inventory-YYYY-MM-DD.csv or inventory-YYYY-MM-DD.json)
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (invalid query parameters)
+ * - 500: Internal Server Error
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  console.log('[GET /api/export] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 2: Extract query parameters
+    const url = new URL(request.url);
+    const queryParams = {
+      format: url.searchParams.get('format') ?? undefined,
+    };
+
+    // Step 3: Validate query parameters with Zod schema (guard clause)
+    const validation = exportQuerySchema.safeParse(queryParams);
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'unknown',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid query parameters',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Call service layer to start the export stream
+    const { format } = validation.data;
+    const stream =
+      format === 'csv'
+        ? await ExportService.exportItemsCsv(locals.supabase, user.id)
+        : await ExportService.exportInventoryJson(locals.supabase, user.id);
+
+    // Step 5: Return streamed file download
+    const fileName = `inventory-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    return new Response(
+      stream,
+      {
+        status: 200,
+        headers: {
+          'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${fileName}"`,
+          'Cache-Control': 'no-store'
+        }
+      }
+    );
+
+  } catch (error: any) {
+    // Log unexpected errors with context for debugging
+    console.error('[GET /api/export] Unexpected error:', {
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while exporting the inventory',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
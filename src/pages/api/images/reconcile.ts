@@ -0,0 +1,138 @@
+import type { APIRoute } from 'astro';
+import { reconcileImagesSchema } from '../../../lib/validation/image.schema';
+import { ImageReconciliationService } from '../../../lib/services/image-reconciliation.service';
+import type { ReconcileImagesCommand, ErrorResponseDTO } from '../../../types';
+
+export const prerender = false;
+
+/**
+ * POST /api/images/reconcile
+ *
+ * Finds image rows whose item or container no longer exists and storage files
+ * under the user's folder that no image row references. Optionally deletes both.
+ *
+ * Request Body (optional):
+ * - dryRun: boolean (optional, default true) - report only, delete nothing
+ *
+ * Response:
+ * - 200: ImageReconciliationReportDTO
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (validation error)
+ * - 500: Internal Server Error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  console.log('[POST /api/images/reconcile] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = locals.supabase;
+
+    // Step 2: Parse request body, an empty body means defaults (guard clause)
+    let body: unknown;
+    try {
+      const text = await request.text();
+      body = text.trim() ? JSON.parse(text) : {};
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid JSON payload',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 3: Validate request body with Zod schema (guard clause)
+    const validation = reconcileImagesSchema.safeParse(body);
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'body',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Create command object
+    const command: ReconcileImagesCommand = {
+      dryRun: validation.data.dryRun,
+    };
+
+    // Step 5: Call service layer
+    const report = await ImageReconciliationService.reconcileImages(supabase, user.id, command.dryRun);
+
+    console.log('[POST /api/images/reconcile] Reconciliation finished:', {
+      dryRun: report.dryRun,
+      orphanedRows: report.orphanedRows.length,
+      orphanedFiles: report.orphanedFiles.length,
+      deletedRows: report.deletedRows,
+      deletedFiles: report.deletedFiles,
+    });
+
+    // Step 6: Return success response (happy path)
+    return new Response(
+      JSON.stringify(report),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Log unexpected errors with context for debugging
+    console.error('[POST /api/images/reconcile] Unexpected error:', {
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while reconciling images',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
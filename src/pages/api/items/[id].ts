@@ -0,0 +1,452 @@
+import type { APIRoute } from 'astro';
+import { updateItemSchema, itemIdParamSchema } from '../../../lib/validation/item.schema';
+import { ItemService } from '../../../lib/services/item.service';
+import type { UpdateItemCommand, ErrorResponseDTO, DeleteResponseDTO } from '../../../types';
+
+export const prerender = false;
+
+/**
+ * GET /api/items/:id
+ *
+ * Retrieves a single item with its category, tags, container, images and
+ * recent movements (up to 20 container changes, newest first).
+ *
+ * Route Parameters:
+ * - id: string (UUID) - ID of the item to retrieve
+ *
+ * Response:
+ * - 200: ItemDetailDTO
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (invalid UUID format)
+ * - 404: Not Found (item doesn't exist or user doesn't own it)
+ * - 500: Internal Server Error
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  console.log('[GET /api/items/:id] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = locals.supabase;
+
+    // Step 2: Validate route parameter (guard clause)
+    const paramValidation = itemIdParamSchema.safeParse({ id: params.id });
+
+    if (!paramValidation.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid item ID format',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 3: Call service layer
+    const item = await ItemService.getItem(
+      supabase,
+      user.id,
+      paramValidation.data.id
+    );
+
+    // Step 4: Check if item was found (guard clause)
+    if (!item) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Item not found',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 5: Return success response (happy path)
+    return new Response(
+      JSON.stringify(item),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Log unexpected errors with context for debugging
+    console.error('[GET /api/items/:id] Unexpected error:', {
+      itemId: params?.id || 'unknown',
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
+
+/**
+ * PATCH /api/items/:id
+ *
+ * Updates an existing item for the authenticated user.
+ *
+ * Route Parameters:
+ * - id: string (UUID) - ID of the item to update
+ *
+ * Request Body (at least one field required):
+ * - name: string (optional, 1-255 characters, trimmed)
+ * - description: string | null (optional, max 10,000 characters)
+ * - categoryId: string (optional, UUID of user's category)
+ * - tagIds: string[] (optional, up to 20 UUIDs of user's tags, replaces all tags)
+ * - containerId: string (optional, UUID of user's container)
+ * - isIn: boolean (optional)
+ * - quantity: number | null (optional, positive integer)
+ * - barcode: string | null (optional, max 64 characters, no spaces)
+ * - moveReason: string | null (optional, max 500 characters, only with containerId)
+ *
+ * Container changes are recorded in the item's movement history.
+ *
+ * Response:
+ * - 200: ItemDetailDTO with updated data
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (validation error or invalid category/tag/container)
+ * - 404: Not Found (item doesn't exist or user doesn't own it)
+ * - 500: Internal Server Error
+ */
+export const PATCH: APIRoute = async ({ request, params, locals }) => {
+  console.log('[PATCH /api/items/:id] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = locals.supabase;
+
+    // Step 2: Validate route parameter (guard clause)
+    const paramValidation = itemIdParamSchema.safeParse({ id: params.id });
+
+    if (!paramValidation.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid item ID format',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const itemId = paramValidation.data.id;
+
+    // Step 3: Parse request body (guard clause)
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid JSON payload',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Validate request body with Zod schema (guard clause)
+    const validation = updateItemSchema.safeParse(body);
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'body',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 5: Create command object
+    const command: UpdateItemCommand = {
+      name: validation.data.name,
+      description: validation.data.description,
+      categoryId: validation.data.categoryId,
+      tagIds: validation.data.tagIds,
+      containerId: validation.data.containerId,
+      isIn: validation.data.isIn,
+      quantity: validation.data.quantity,
+      barcode: validation.data.barcode,
+      moveReason: validation.data.moveReason,
+    };
+
+    // Step 6: Call service layer
+    const item = await ItemService.updateItem(
+      supabase,
+      user.id,
+      itemId,
+      command
+    );
+
+    // Step 7: Check if item was found (guard clause)
+    if (!item) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Item not found',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 8: Return success response (happy path)
+    return new Response(
+      JSON.stringify(item),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Handle category/tag/container ownership violations
+    if (error?.message?.includes('does not exist or does not belong to user')) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: [
+              {
+                field: error.message.startsWith('Category')
+                  ? 'categoryId'
+                  : error.message.startsWith('Tag')
+                    ? 'tagIds'
+                    : 'containerId',
+                message: error.message,
+              },
+            ],
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Log unexpected errors with context for debugging
+    console.error('[PATCH /api/items/:id] Unexpected error:', {
+      itemId: params?.id || 'unknown',
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
+
+/**
+ * DELETE /api/items/:id
+ *
+ * Deletes an existing item for the authenticated user.
+ *
+ * Route Parameters:
+ * - id: string (UUID) - ID of the item to delete
+ *
+ * Request Body: None
+ *
+ * Response:
+ * - 200: DeleteResponseDTO with success message and item ID
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (invalid UUID format)
+ * - 404: Not Found (item doesn't exist or user doesn't own it)
+ * - 500: Internal Server Error
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  console.log('[DELETE /api/items/:id] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = locals.supabase;
+
+    // Step 2: Validate route parameter (guard clause)
+    const paramValidation = itemIdParamSchema.safeParse({ id: params.id });
+
+    if (!paramValidation.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid item ID format',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 3: Call service layer to delete item
+    const result = await ItemService.deleteItem(
+      supabase,
+      user.id,
+      paramValidation.data.id
+    );
+
+    // Step 4: Check if item was found (guard clause)
+    if (!result) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Item not found',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 5: Return success response (happy path)
+    return new Response(
+      JSON.stringify({
+        message: 'Item deleted successfully',
+        id: result.id,
+      } satisfies DeleteResponseDTO),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Log unexpected errors with context for debugging
+    console.error('[DELETE /api/items/:id] Unexpected error:', {
+      itemId: params?.id || 'unknown',
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while deleting the item',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
@@ -0,0 +1,191 @@
+import type { APIRoute } from 'astro';
+import { itemIdParamSchema } from '../../../../lib/validation/item.schema';
+import { checkoutItemSchema } from '../../../../lib/validation/loan.schema';
+import { LoanService } from '../../../../lib/services/loan.service';
+import type { CheckoutItemCommand, ErrorResponseDTO } from '../../../../types';
+
+export const prerender = false;
+
+/**
+ * POST /api/items/:id/checkout
+ *
+ * Checks an item out of storage and records the loan.
+ * Sets the item's status to out (isIn = false).
+ *
+ * Route Parameters:
+ * - id: string (UUID) - ID of the item
+ *
+ * Request Body (optional, empty body allowed):
+ * - borrower: string | null (optional, max 255 characters)
+ * - dueDate: string | null (optional, YYYY-MM-DD)
+ * - note: string | null (optional, max 1,000 characters)
+ *
+ * Response:
+ * - 201: ItemLoanDTO of the opened loan
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (validation error)
+ * - 404: Not Found (item doesn't exist or user doesn't own it)
+ * - 409: Conflict (item is already checked out)
+ * - 500: Internal Server Error
+ */
+export const POST: APIRoute = async ({ request, params, locals }) => {
+  console.log('[POST /api/items/:id/checkout] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = locals.supabase;
+
+    // Step 2: Validate route parameter (guard clause)
+    const paramValidation = itemIdParamSchema.safeParse({ id: params.id });
+
+    if (!paramValidation.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid item ID format',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 3: Parse request body, an empty body means no details (guard clause)
+    let body: unknown;
+    try {
+      const text = await request.text();
+      body = text.trim() ? JSON.parse(text) : {};
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid JSON payload',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Validate request body with Zod schema (guard clause)
+    const validation = checkoutItemSchema.safeParse(body);
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'body',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 5: Create command object
+    const command: CheckoutItemCommand = {
+      borrower: validation.data.borrower,
+      dueDate: validation.data.dueDate,
+      note: validation.data.note,
+    };
+
+    // Step 6: Call service layer
+    const loan = await LoanService.checkoutItem(supabase, paramValidation.data.id, command);
+
+    // Step 7: Check if item was found (guard clause)
+    if (!loan) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Item not found',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 8: Return success response (happy path)
+    return new Response(
+      JSON.stringify(loan),
+      {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Handle item status conflict (business rule violation)
+    if (error?.message === 'Item is already checked out') {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'CONFLICT',
+            message: error.message,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Log unexpected errors with context for debugging
+    console.error('[POST /api/items/:id/checkout] Unexpected error:', {
+      itemId: params?.id || 'unknown',
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while checking out the item',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
@@ -0,0 +1,153 @@
+import type { APIRoute } from 'astro';
+import { itemIdParamSchema } from '../../../../lib/validation/item.schema';
+import { itemHistoryQuerySchema } from '../../../../lib/validation/loan.schema';
+import { LoanService } from '../../../../lib/services/loan.service';
+import type { ErrorResponseDTO } from '../../../../types';
+
+export const prerender = false;
+
+/**
+ * GET /api/items/:id/history
+ *
+ * Retrieves the check-out / check-in history of an item, newest first.
+ *
+ * Route Parameters:
+ * - id: string (UUID) - ID of the item
+ *
+ * Query Parameters:
+ * - page: number (optional, default: 1) - Page number
+ * - limit: number (optional, default: 20, max: 100) - Loans per page
+ *
+ * Response:
+ * - 200: ItemHistoryResponseDTO with loans and pagination metadata
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (invalid ID format or query parameters)
+ * - 404: Not Found (item doesn't exist or user doesn't own it)
+ * - 500: Internal Server Error
+ */
+export const GET: APIRoute = async ({ request, params, locals }) => {
+  console.log('[GET /api/items/:id/history] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 2: Validate route parameter (guard clause)
+    const paramValidation = itemIdParamSchema.safeParse({ id: params.id });
+
+    if (!paramValidation.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid item ID format',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 3: Validate query parameters (missing values fall back to schema defaults)
+    const url = new URL(request.url);
+    const validation = itemHistoryQuerySchema.safeParse({
+      page: url.searchParams.get('page') ?? undefined,
+      limit: url.searchParams.get('limit') ?? undefined,
+    });
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'unknown',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid query parameters',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Call service layer to retrieve history
+    const history = await LoanService.getItemHistory(
+      locals.supabase,
+      user.id,
+      paramValidation.data.id,
+      validation.data.page,
+      validation.data.limit
+    );
+
+    // Step 5: Check if item was found (guard clause)
+    if (!history) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Item not found',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 6: Return success response
+    return new Response(
+      JSON.stringify(history),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Log unexpected errors with context for debugging
+    console.error('[GET /api/items/:id/history] Unexpected error:', {
+      itemId: params?.id || 'unknown',
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while fetching item history',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
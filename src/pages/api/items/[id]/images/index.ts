@@ -0,0 +1,215 @@
+import type { APIRoute } from 'astro';
+import { itemIdParamSchema } from '../../../../../lib/validation/item.schema';
+import { uploadImageSchema } from '../../../../../lib/validation/image.schema';
+import { ImageService } from '../../../../../lib/services/image.service';
+import type { UploadImageCommand, ErrorResponseDTO } from '../../../../../types';
+
+export const prerender = false;
+
+/**
+ * POST /api/items/:id/images
+ *
+ * Uploads an image and attaches it to an item of the authenticated user.
+ * Thumbnail, medium and full variants are generated and stored next to the original.
+ *
+ * Route Parameters:
+ * - id: string (UUID) - ID of the item
+ *
+ * Request Body (multipart/form-data):
+ * - file: File (required, JPEG/PNG/WebP, max 5MB)
+ * - displayOrder: number (optional, 1-5, auto-assigned if not provided)
+ *
+ * Response:
+ * - 201: ImageDTO
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (validation error)
+ * - 404: Not Found (item doesn't exist or user doesn't own it)
+ * - 409: Conflict (image limit reached or display order already taken)
+ * - 500: Internal Server Error
+ */
+export const POST: APIRoute = async ({ request, params, locals }) => {
+  console.log('[POST /api/items/:id/images] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = locals.supabase;
+
+    // Step 2: Validate route parameter (guard clause)
+    const paramValidation = itemIdParamSchema.safeParse({ id: params.id });
+
+    if (!paramValidation.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid item ID format',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 3: Parse multipart form data (guard clause)
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid multipart form data',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Validate form fields with Zod schema (guard clause)
+    const displayOrderField = formData.get('displayOrder');
+    const validation = uploadImageSchema.safeParse({
+      file: formData.get('file'),
+      displayOrder: displayOrderField === null || displayOrderField === '' ? undefined : displayOrderField,
+    });
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'file',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 5: Create command object
+    const command: UploadImageCommand = {
+      file: validation.data.file,
+      displayOrder: validation.data.displayOrder,
+    };
+
+    // Step 6: Call service layer
+    const image = await ImageService.uploadImage(
+      supabase,
+      user.id,
+      'item',
+      paramValidation.data.id,
+      command
+    );
+
+    // Step 7: Check if item was found (guard clause)
+    if (!image) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Item not found',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 8: Return success response (happy path)
+    return new Response(
+      JSON.stringify(image),
+      {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Handle files that pass type checks but cannot be decoded
+    if (error?.message === 'File is not a valid image') {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: [{ field: 'file', message: error.message }],
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Handle image limit and display order conflicts (business rule violations)
+    if (error?.message?.includes('Cannot add more than') || error?.message?.includes('Display order already exists')) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'CONFLICT',
+            message: error.message,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Log unexpected errors with context for debugging
+    console.error('[POST /api/items/:id/images] Unexpected error:', {
+      itemId: params?.id || 'unknown',
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while uploading the image',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
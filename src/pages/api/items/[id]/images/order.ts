@@ -0,0 +1,192 @@
+import type { APIRoute } from 'astro';
+import { itemIdParamSchema } from '../../../../../lib/validation/item.schema';
+import { reorderImagesSchema } from '../../../../../lib/validation/image.schema';
+import { ImageService } from '../../../../../lib/services/image.service';
+import type { ReorderImagesCommand, ErrorResponseDTO } from '../../../../../types';
+
+export const prerender = false;
+
+/**
+ * PUT /api/items/:id/images/order
+ *
+ * Replaces the display order of all images of an item in one atomic operation.
+ * The first image in the list becomes the thumbnail.
+ *
+ * Route Parameters:
+ * - id: string (UUID) - ID of the item
+ *
+ * Request Body:
+ * - imageIds: string[] (required, every image ID of the item exactly once)
+ *
+ * Response:
+ * - 200: ImageDTO[] in the new order
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (validation error or incomplete ordering)
+ * - 404: Not Found (item doesn't exist or user doesn't own it)
+ * - 500: Internal Server Error
+ */
+export const PUT: APIRoute = async ({ request, params, locals }) => {
+  console.log('[PUT /api/items/:id/images/order] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = locals.supabase;
+
+    // Step 2: Validate route parameter (guard clause)
+    const paramValidation = itemIdParamSchema.safeParse({ id: params.id });
+
+    if (!paramValidation.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid item ID format',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 3: Parse request body (guard clause)
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid JSON payload',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Validate request body with Zod schema (guard clause)
+    const validation = reorderImagesSchema.safeParse(body);
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'imageIds',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 5: Create command object
+    const command: ReorderImagesCommand = {
+      imageIds: validation.data.imageIds,
+    };
+
+    // Step 6: Call service layer
+    const images = await ImageService.reorderImages(
+      supabase,
+      user.id,
+      'item',
+      paramValidation.data.id,
+      command
+    );
+
+    // Step 7: Check if item was found (guard clause)
+    if (!images) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Item not found',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 8: Return success response (happy path)
+    return new Response(
+      JSON.stringify(images),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Handle incomplete or mismatched ordering
+    if (error?.message?.includes('Image order must include')) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.message,
+            details: [{ field: 'imageIds', message: error.message }],
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Log unexpected errors with context for debugging
+    console.error('[PUT /api/items/:id/images/order] Unexpected error:', {
+      itemId: params?.id || 'unknown',
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while reordering images',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
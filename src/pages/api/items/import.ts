@@ -0,0 +1,174 @@
+import type { APIRoute } from 'astro';
+import { importItemsSchema } from '../../../lib/validation/import.schema';
+import { ImportService } from '../../../lib/services/import.service';
+import type { ErrorResponseDTO, ImportItemsCommand, ImportItemsReportDTO } from '../../../types';
+
+export const prerender = false;
+
+/**
+ * POST /api/items/import
+ *
+ * Imports items from a CSV file. Columns are mapped to item fields by
+ * header name; categories and containers are given by name, matched
+ * case-insensitively and created when missing. A dry run validates every
+ * row and reports what would be created without writing anything. The
+ * import itself is all-or-nothing.
+ *
+ * Request Body:
+ * - csv: string (required, max 2,000,000 characters, max 2000 data rows) - CSV text with a header row,
+ *   comma or semicolon separated
+ * - mapping: object (required) - CSV header name per item field:
+ *   name, category, container (required); description, quantity, status, barcode (optional)
+ * - dryRun: boolean (optional, default: true) - Validate and report only
+ *
+ * Status values: empty or in/out, yes/no, true/false, 1/0 (empty means in).
+ *
+ * Response:
+ * - 200: ImportItemsReportDTO for a dry run (errors are listed in the report)
+ * - 201: ImportItemsReportDTO with the number of imported items
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (invalid body, or invalid rows when not a dry run;
+ *   details use the fields "csv", "mapping.<field>" and "rows.<row>.<field>")
+ * - 409: Conflict (a container name became ambiguous during the import)
+ * - 500: Internal Server Error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  console.log('[POST /api/items/import] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 2: Parse request body (guard clause)
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid JSON payload',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 3: Validate with Zod schema (guard clause)
+    const validation = importItemsSchema.safeParse(body);
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'unknown',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Create command object
+    const command: ImportItemsCommand = {
+      csv: validation.data.csv,
+      mapping: validation.data.mapping,
+      dryRun: validation.data.dryRun,
+    };
+
+    // Step 5: Call service layer to validate and import
+    const report = await ImportService.importItems(locals.supabase, user.id, command);
+
+    // Step 6: Reject the import if any row is invalid (guard clause)
+    if (!command.dryRun && report.errors.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Import failed, nothing was imported',
+            details: report.errors,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 7: Return report
+    return new Response(
+      JSON.stringify(report satisfies ImportItemsReportDTO),
+      {
+        status: command.dryRun ? 200 : 201,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Handle container names duplicated by a concurrent change
+    if (error?.message === 'Container name matches more than one container') {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'CONFLICT',
+            message: 'A container name matches more than one container, nothing was imported',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Log unexpected errors with context for debugging
+    console.error('[POST /api/items/import] Unexpected error:', {
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while importing items',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
@@ -0,0 +1,311 @@
+import type { APIRoute } from 'astro';
+import { createItemSchema, listItemsQuerySchema } from '../../../lib/validation/item.schema';
+import { ItemService } from '../../../lib/services/item.service';
+import type { CreateItemCommand, ErrorResponseDTO } from '../../../types';
+
+export const prerender = false;
+
+/**
+ * POST /api/items
+ *
+ * Creates a new item for the authenticated user.
+ *
+ * Request Body:
+ * - name: string (required, 1-255 characters, trimmed)
+ * - description: string | null (optional, max 10,000 characters)
+ * - categoryId: string (required, UUID of user's category)
+ * - tagIds: string[] (optional, up to 20 UUIDs of user's tags)
+ * - containerId: string (required, UUID of user's container)
+ * - isIn: boolean (required)
+ * - quantity: number | null (optional, positive integer)
+ * - barcode: string | null (optional, max 64 characters, no spaces)
+ *
+ * Response:
+ * - 201: ItemDetailDTO
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (validation error or invalid category/tag/container)
+ * - 500: Internal Server Error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  console.log('[POST /api/items] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = locals.supabase;
+
+    // Step 2: Parse request body (guard clause)
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid JSON payload',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 3: Validate with Zod schema (guard clause)
+    const validation = createItemSchema.safeParse(body);
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'body',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Create command object
+    const command: CreateItemCommand = {
+      name: validation.data.name, // Already trimmed by Zod
+      description: validation.data.description ?? null,
+      categoryId: validation.data.categoryId,
+      tagIds: validation.data.tagIds ?? [],
+      containerId: validation.data.containerId,
+      isIn: validation.data.isIn,
+      quantity: validation.data.quantity ?? null,
+      barcode: validation.data.barcode ?? null,
+    };
+
+    // Step 5: Call service layer
+    const item = await ItemService.createItem(
+      supabase,
+      user.id,
+      command
+    );
+
+    // Step 6: Return success response
+    return new Response(
+      JSON.stringify(item),
+      {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Handle category/tag/container ownership violations
+    if (error?.message?.includes('does not exist or does not belong to user')) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: [
+              {
+                field: error.message.startsWith('Category')
+                  ? 'categoryId'
+                  : error.message.startsWith('Tag')
+                    ? 'tagIds'
+                    : 'containerId',
+                message: error.message,
+              },
+            ],
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Log unexpected errors with context for debugging
+    console.error('[POST /api/items] Unexpected error:', {
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
+
+/**
+ * GET /api/items
+ *
+ * Retrieves a filtered, sorted and paginated list of items for the authenticated user.
+ *
+ * Query Parameters:
+ * - page: number (optional, default: 1) - Page number
+ * - limit: number (optional, default: 20, max: 100) - Items per page
+ * - search: string (optional) - Case-insensitive prefix search on item name
+ * - category: string (optional) - Category UUID or comma-separated UUIDs (includes subcategories)
+ * - container: string (optional) - Container UUID or comma-separated UUIDs
+ * - site: string (optional) - Site UUID or comma-separated UUIDs
+ * - room: string (optional) - Room UUID or comma-separated UUIDs
+ * - tag: string (optional) - Tag UUID or comma-separated UUIDs
+ * - tagMatch: string (optional, default: "any") - Items with any or all of the tags ("any" | "all")
+ * - status: string (optional, default: "all") - In/out status ("in" | "out" | "all")
+ * - sort: string (optional, default: "created_at") - Field to sort by ("name" | "created_at" | "updated_at")
+ * - order: string (optional, default: "desc") - Sort direction ("asc" | "desc")
+ *
+ * Response:
+ * - 200: ItemListResponseDTO with items and pagination metadata
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (invalid query parameters)
+ * - 500: Internal Server Error
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  console.log('[GET /api/items] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = locals.supabase;
+
+    // Step 2: Extract query parameters (missing values fall back to schema defaults)
+    const url = new URL(request.url);
+    const queryParams = {
+      page: url.searchParams.get('page') ?? undefined,
+      limit: url.searchParams.get('limit') ?? undefined,
+      search: url.searchParams.get('search') ?? undefined,
+      category: url.searchParams.get('category') ?? undefined,
+      container: url.searchParams.get('container') ?? undefined,
+      site: url.searchParams.get('site') ?? undefined,
+      room: url.searchParams.get('room') ?? undefined,
+      tag: url.searchParams.get('tag') ?? undefined,
+      tagMatch: url.searchParams.get('tagMatch') ?? undefined,
+      status: url.searchParams.get('status') ?? undefined,
+      sort: url.searchParams.get('sort') ?? undefined,
+      order: url.searchParams.get('order') ?? undefined,
+    };
+
+    // Step 3: Validate query parameters with Zod schema (guard clause)
+    const validation = listItemsQuerySchema.safeParse(queryParams);
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'unknown',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid query parameters',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Call service layer to retrieve items
+    const response = await ItemService.listItems(supabase, user.id, {
+      page: validation.data.page,
+      limit: validation.data.limit,
+      search: validation.data.search,
+      categoryIds: validation.data.category,
+      containerIds: validation.data.container,
+      siteIds: validation.data.site,
+      roomIds: validation.data.room,
+      tagIds: validation.data.tag,
+      tagMatch: validation.data.tagMatch,
+      status: validation.data.status,
+      sort: validation.data.sort,
+      order: validation.data.order,
+    });
+
+    // Step 5: Return success response
+    return new Response(
+      JSON.stringify(response),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Log unexpected errors with context for debugging
+    console.error('[GET /api/items] Unexpected error:', {
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
@@ -0,0 +1,114 @@
+import type { APIRoute } from 'astro';
+import { barcodeLookupQuerySchema } from '../../../lib/validation/item.schema';
+import { ItemService } from '../../../lib/services/item.service';
+import type { BarcodeLookupResponseDTO, ErrorResponseDTO } from '../../../types';
+
+export const prerender = false;
+
+/**
+ * GET /api/items/lookup
+ *
+ * Scan-to-find: returns the authenticated user's items carrying a scanned
+ * manufacturer barcode, with their container and location path. An empty
+ * list means the product is not in storage yet.
+ *
+ * Query Parameters:
+ * - barcode: string (required, 1-64 characters) - Scanned UPC, EAN, GTIN or other code.
+ *   Numeric codes match regardless of leading zeros (UPC-A vs EAN-13).
+ *
+ * Response:
+ * - 200: BarcodeLookupResponseDTO with matching items ordered by name (max 100)
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (invalid query parameters)
+ * - 500: Internal Server Error
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  console.log('[GET /api/items/lookup] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 2: Extract query parameters
+    const url = new URL(request.url);
+    const queryParams = {
+      barcode: url.searchParams.get('barcode') ?? undefined,
+    };
+
+    // Step 3: Validate query parameters with Zod schema (guard clause)
+    const validation = barcodeLookupQuerySchema.safeParse(queryParams);
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'unknown',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid query parameters',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Call service layer to find matching items
+    const items = await ItemService.findItemsByBarcode(locals.supabase, user.id, validation.data.barcode);
+
+    // Step 5: Return success response
+    return new Response(
+      JSON.stringify({
+        barcode: validation.data.barcode,
+        data: items,
+      } satisfies BarcodeLookupResponseDTO),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Log unexpected errors with context for debugging
+    console.error('[GET /api/items/lookup] Unexpected error:', {
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while looking up the barcode',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
@@ -0,0 +1,117 @@
+import type { APIRoute } from 'astro';
+import { listCheckedOutItemsQuerySchema } from '../../../lib/validation/loan.schema';
+import { LoanService } from '../../../lib/services/loan.service';
+import type { ErrorResponseDTO } from '../../../types';
+
+export const prerender = false;
+
+/**
+ * GET /api/loans
+ *
+ * Lists items that are currently checked out (isIn = false) with their open
+ * loan, ordered by due date. Loans without a due date come last.
+ *
+ * Query Parameters:
+ * - page: number (optional, default: 1) - Page number
+ * - limit: number (optional, default: 20, max: 100) - Items per page
+ * - overdue: "true" | "false" (optional, default: "false") - Only loans past their due date
+ *
+ * Response:
+ * - 200: CheckedOutItemListResponseDTO with items, days overdue and pagination metadata
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (invalid query parameters)
+ * - 500: Internal Server Error
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  console.log('[GET /api/loans] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 2: Extract query parameters (missing values fall back to schema defaults)
+    const url = new URL(request.url);
+    const queryParams = {
+      page: url.searchParams.get('page') ?? undefined,
+      limit: url.searchParams.get('limit') ?? undefined,
+      overdue: url.searchParams.get('overdue') ?? undefined,
+    };
+
+    // Step 3: Validate query parameters with Zod schema (guard clause)
+    const validation = listCheckedOutItemsQuerySchema.safeParse(queryParams);
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'unknown',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid query parameters',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Call service layer to retrieve checked-out items
+    const response = await LoanService.listCheckedOutItems(locals.supabase, user.id, {
+      page: validation.data.page,
+      limit: validation.data.limit,
+      overdueOnly: validation.data.overdue,
+    });
+
+    // Step 5: Return success response
+    return new Response(
+      JSON.stringify(response),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Log unexpected errors with context for debugging
+    console.error('[GET /api/loans] Unexpected error:', {
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while fetching checked-out items',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
@@ -0,0 +1,339 @@
+import type { APIRoute } from 'astro';
+import { updateRoomSchema, roomIdParamSchema } from '../../../lib/validation/location.schema';
+import { LocationService } from '../../../lib/services/location.service';
+import type { UpdateRoomCommand, ErrorResponseDTO, DeleteResponseDTO } from '../../../types';
+
+export const prerender = false;
+
+/**
+ * PATCH /api/rooms/:id
+ *
+ * Renames a room or moves it (with all its containers) to another site.
+ *
+ * Route Parameters:
+ * - id: string (UUID) - ID of the room to update
+ *
+ * Request Body (at least one field required):
+ * - name: string (optional, 1-255 characters, trimmed)
+ * - siteId: string (optional, UUID of the new site)
+ *
+ * Response:
+ * - 200: RoomDTO with updated data
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (validation error or site not owned by user)
+ * - 404: Not Found (room doesn't exist or user doesn't own it)
+ * - 409: Conflict (duplicate room name within the site)
+ * - 500: Internal Server Error
+ */
+export const PATCH: APIRoute = async ({ request, params, locals }) => {
+  console.log('[PATCH /api/rooms/:id] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = locals.supabase;
+
+    // Step 2: Validate route parameter (guard clause)
+    const paramValidation = roomIdParamSchema.safeParse({ id: params.id });
+
+    if (!paramValidation.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid room ID format',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 3: Parse request body (guard clause)
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid JSON payload',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Validate request body with Zod schema (guard clause)
+    const validation = updateRoomSchema.safeParse(body);
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'body',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 5: Create command object
+    const command: UpdateRoomCommand = {
+      name: validation.data.name,
+      siteId: validation.data.siteId,
+    };
+
+    // Step 6: Call service layer
+    const room = await LocationService.updateRoom(
+      supabase,
+      user.id,
+      paramValidation.data.id,
+      command
+    );
+
+    // Step 7: Check if room was found (guard clause)
+    if (!room) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Room not found',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 8: Return success response (happy path)
+    return new Response(
+      JSON.stringify(room),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Handle site ownership violation
+    if (error?.message?.includes('does not exist or does not belong to user')) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: [{ field: 'siteId', message: error.message }],
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Handle unique constraint violation (duplicate room name within the site)
+    if (error?.code === '23505') {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'CONFLICT',
+            message: 'A room with this name already exists in this site',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Log unexpected errors with context for debugging
+    console.error('[PATCH /api/rooms/:id] Unexpected error:', {
+      roomId: params?.id || 'unknown',
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
+
+/**
+ * DELETE /api/rooms/:id
+ *
+ * Deletes an existing room of the authenticated user.
+ * Only rooms without containers can be deleted (enforces referential integrity).
+ *
+ * Route Parameters:
+ * - id: string (UUID) - ID of the room to delete
+ *
+ * Response:
+ * - 200: DeleteResponseDTO with success message and room ID
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (invalid UUID format)
+ * - 404: Not Found (room doesn't exist or user doesn't own it)
+ * - 409: Conflict (room contains containers)
+ * - 500: Internal Server Error
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  console.log('[DELETE /api/rooms/:id] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = locals.supabase;
+
+    // Step 2: Validate route parameter (guard clause)
+    const paramValidation = roomIdParamSchema.safeParse({ id: params.id });
+
+    if (!paramValidation.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid room ID format',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 3: Call service layer to delete room
+    const result = await LocationService.deleteRoom(supabase, user.id, paramValidation.data.id);
+
+    // Step 4: Check if room was found (guard clause)
+    if (!result) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Room not found',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 5: Return success response (happy path)
+    return new Response(
+      JSON.stringify({
+        message: 'Room deleted successfully',
+        id: result.id,
+      } satisfies DeleteResponseDTO),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Handle room with containers conflict (business rule violation)
+    if (error?.message?.includes('Cannot delete')) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'CONFLICT',
+            message: error.message,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Log unexpected errors with context for debugging
+    console.error('[DELETE /api/rooms/:id] Unexpected error:', {
+      roomId: params?.id || 'unknown',
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while deleting the room',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
@@ -0,0 +1,112 @@
+import type { APIRoute } from 'astro';
+import { searchSuggestQuerySchema } from '../../../lib/validation/search.schema';
+import { SearchService } from '../../../lib/services/search.service';
+import type { ErrorResponseDTO, SearchSuggestResponseDTO } from '../../../types';
+
+export const prerender = false;
+
+/**
+ * GET /api/search/suggest
+ *
+ * Autocomplete for the global search box. Matches item, container and
+ * category names while the user types, tolerating typos ("drll" finds "Drill").
+ *
+ * Query Parameters:
+ * - q: string (required, min 2 characters) - Text typed so far
+ * - limit: number (optional, default: 8, max: 20) - Maximum number of suggestions
+ *
+ * Response:
+ * - 200: SearchSuggestResponseDTO with suggestions ordered best first,
+ *   each with its entity type and container
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (invalid query parameters)
+ * - 500: Internal Server Error
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  console.log('[GET /api/search/suggest] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 2: Extract query parameters (missing values fall back to schema defaults)
+    const url = new URL(request.url);
+    const queryParams = {
+      q: url.searchParams.get('q') ?? undefined,
+      limit: url.searchParams.get('limit') ?? undefined,
+    };
+
+    // Step 3: Validate query parameters with Zod schema (guard clause)
+    const validation = searchSuggestQuerySchema.safeParse(queryParams);
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'unknown',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid query parameters',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Call service layer to find suggestions
+    const suggestions = await SearchService.suggest(locals.supabase, validation.data.q, validation.data.limit);
+
+    // Step 5: Return success response
+    return new Response(
+      JSON.stringify({ data: suggestions } satisfies SearchSuggestResponseDTO),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Log unexpected errors with context for debugging
+    console.error('[GET /api/search/suggest] Unexpected error:', {
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred while fetching suggestions',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
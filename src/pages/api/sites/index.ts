@@ -0,0 +1,214 @@
+import type { APIRoute } from 'astro';
+import { createSiteSchema } from '../../../lib/validation/location.schema';
+import { LocationService } from '../../../lib/services/location.service';
+import type { CreateSiteCommand, ErrorResponseDTO, SiteListResponseDTO } from '../../../types';
+
+export const prerender = false;
+
+/**
+ * POST /api/sites
+ *
+ * Creates a new site (home, cabin, storage unit) for the authenticated user.
+ *
+ * Request Body:
+ * - name: string (required, 1-255 characters, trimmed)
+ *
+ * Response:
+ * - 201: SiteDTO
+ * - 401: Unauthorized (no valid session)
+ * - 400: Bad Request (validation error)
+ * - 409: Conflict (duplicate site name)
+ * - 500: Internal Server Error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  console.log('[POST /api/sites] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = locals.supabase;
+
+    // Step 2: Parse request body (guard clause)
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid JSON payload',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 3: Validate with Zod schema (guard clause)
+    const validation = createSiteSchema.safeParse(body);
+
+    if (!validation.success) {
+      const details = validation.error.errors.map((err) => ({
+        field: err.path.join('.') || 'name',
+        message: err.message,
+      }));
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details,
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 4: Create command object
+    const command: CreateSiteCommand = {
+      name: validation.data.name, // Already trimmed by Zod
+    };
+
+    // Step 5: Call service layer
+    const site = await LocationService.createSite(supabase, user.id, command);
+
+    // Step 6: Return success response
+    return new Response(
+      JSON.stringify(site),
+      {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Handle unique constraint violation (duplicate site name)
+    if (error?.code === '23505') {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'CONFLICT',
+            message: 'A site with this name already exists',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Log unexpected errors with context for debugging
+    console.error('[POST /api/sites] Unexpected error:', {
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
+
+/**
+ * GET /api/sites
+ *
+ * Retrieves all sites of the authenticated user with their rooms
+ * and the number of containers in each room.
+ *
+ * Response:
+ * - 200: SiteListResponseDTO
+ * - 401: Unauthorized (no valid session)
+ * - 500: Internal Server Error
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  console.log('[GET /api/sites] Request received');
+
+  try {
+    // Step 1: Authentication check (guard clause)
+    const user = locals.user;
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        } satisfies ErrorResponseDTO),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Step 2: Call service layer to retrieve sites
+    const sites = await LocationService.listSites(locals.supabase, user.id);
+
+    // Step 3: Return success response
+    return new Response(
+      JSON.stringify({ data: sites } satisfies SiteListResponseDTO),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error: any) {
+    // Log unexpected errors with context for debugging
+    console.error('[GET /api/sites] Unexpected error:', {
+      error: error?.message || 'Unknown error',
+      code: error?.code || 'N/A',
+      timestamp: new Date().toISOString(),
+    });
+
+    // Return generic error response (never expose internal details)
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      } satisfies ErrorResponseDTO),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+};
@@ -6,7 +6,7 @@
  * and consistency with the underlying data model.
  */
 
-import type { Tables, TablesInsert, TablesUpdate, Enums } from "./db/database.types";
+import type { Tables, TablesInsert, TablesUpdate, Enums, Json } from "./db/database.types";
 
 // =============================================================================
 // Base Entity Types (Aliases for Database Tables)
@@ -17,6 +17,12 @@ export type Container = Tables<"containers">;
 export type Item = Tables<"items">;
 export type Image = Tables<"images">;
 export type Profile = Tables<"profiles">;
+export type Site = Tables<"sites">;
+export type Room = Tables<"rooms">;
+export type ItemLoan = Tables<"item_loans">;
+export type ItemMovement = Tables<"item_movements">;
+export type AuditLogEntry = Tables<"audit_log">;
+export type Tag = Tables<"tags">;
 
 export type EntityType = Enums<"entity_type_enum">;
 
@@ -49,12 +55,50 @@ export interface PaginatedResponseDTO<T> {
  */
 export type CategoryRefDTO = Pick<Category, "id" | "name">;
 
+/**
+ * Simple reference to an item (used in nested objects)
+ * Derived from: Items table (subset of fields)
+ */
+export type ItemRefDTO = Pick<Item, "id" | "name">;
+
+/**
+ * Simple reference to a tag (used in nested objects)
+ * Derived from: Tags table (subset of fields)
+ */
+export type TagRefDTO = Pick<Tag, "id" | "name">;
+
 /**
  * Simple reference to a container (used in nested objects)
  * Derived from: Containers table (subset of fields)
  */
 export type ContainerRefDTO = Pick<Container, "id" | "name">;
 
+/**
+ * Site reference (used in nested objects)
+ * Derived from: Sites table (subset)
+ */
+export type SiteRefDTO = Pick<Site, "id" | "name">;
+
+/**
+ * Room reference (used in nested objects)
+ * Derived from: Rooms table (subset)
+ */
+export type RoomRefDTO = Pick<Room, "id" | "name">;
+
+/**
+ * Single segment of a location path
+ * Derived from: Sites, Rooms and Containers tables (subset)
+ *
+ * Note: A location path lists the site, the room and every container
+ * from the top-level one down, e.g. Home > Garage > Shelf 2 > Blue tub.
+ * Site and room segments are omitted for containers without a room.
+ */
+export interface LocationSegmentDTO {
+  type: "site" | "room" | "container";
+  id: string;
+  name: string;
+}
+
 // =============================================================================
 // Image DTOs
 // =============================================================================
@@ -63,12 +107,16 @@ export type ContainerRefDTO = Pick<Container, "id" | "name">;
  * Image data transfer object with computed URLs
  * Derived from: Images table + computed URL fields
  *
- * Note: url and thumbnailUrl are computed from storage_path
+ * Note: All URLs point to resized variants computed from storage_path
+ * (full, 256px square thumbnail, 800px medium). srcSet lists medium and
+ * full with width descriptors for responsive <img srcset> usage.
  */
 export interface ImageDTO {
   id: Image["id"];
   url: string;
   thumbnailUrl: string;
+  mediumUrl: string;
+  srcSet: string;
   displayOrder: Image["display_order"];
   createdAt?: Image["created_at"];
   updatedAt?: Image["updated_at"];
@@ -94,6 +142,50 @@ export type UpdateImageDisplayOrderCommand = Pick<TablesUpdate<"images">, "displ
   displayOrder: number; // Make required for this command
 };
 
+/**
+ * Command for replacing the full image order of an entity
+ * Used for: PUT /api/items/:id/images/order and PUT /api/containers/:id/images/order
+ *
+ * Note: The first image becomes display order 1 (the thumbnail)
+ */
+export interface ReorderImagesCommand {
+  imageIds: Image["id"][];
+}
+
+/**
+ * Command for running image reconciliation
+ * Used for: POST /api/images/reconcile
+ */
+export interface ReconcileImagesCommand {
+  dryRun: boolean; // Report only, nothing is deleted
+}
+
+/**
+ * Image row whose parent item or container no longer exists
+ * Derived from: Images table (subset)
+ */
+export interface OrphanedImageDTO {
+  id: Image["id"];
+  entityType: Image["entity_type"];
+  entityId: Image["entity_id"];
+  storagePath: Image["storage_path"];
+}
+
+/**
+ * Image reconciliation report
+ * Used for: POST /api/images/reconcile
+ *
+ * Note: orphanedFiles are storage objects under the user's folder that
+ * are neither an images row's original file nor one of its variants
+ */
+export interface ImageReconciliationReportDTO {
+  orphanedRows: OrphanedImageDTO[];
+  orphanedFiles: string[];
+  dryRun: boolean;
+  deletedRows: number;
+  deletedFiles: number;
+}
+
 // =============================================================================
 // Dashboard DTOs
 // =============================================================================
@@ -107,7 +199,9 @@ export interface RecentItemDTO {
   name: Item["name"];
   thumbnail: string | null;
   category: CategoryRefDTO["name"];
+  tags: TagRefDTO[];
   container: ContainerRefDTO["name"];
+  locationPath: LocationSegmentDTO[];
   isIn: Item["is_in"];
   createdAt: Item["created_at"];
 }
@@ -123,9 +217,92 @@ export interface DashboardStatsDTO {
   totalContainers: number;
   totalCategories: number;
   itemsOut: number;
+  overdueItems: number;
+  overdueLoans: CheckedOutItemDTO[];
+  sites: SiteStatsDTO[];
   recentItems: RecentItemDTO[];
 }
 
+/**
+ * Per-site totals for dashboard
+ * Derived from: Sites table + computed aggregations
+ *
+ * Note: site is null for the group of containers without a room
+ */
+export interface SiteStatsDTO {
+  site: SiteRefDTO | null;
+  totalContainers: number;
+  totalItems: number;
+  itemsOut: number;
+}
+
+// =============================================================================
+// Location DTOs
+// =============================================================================
+
+/**
+ * Room with computed container count
+ * Derived from: Rooms table + computed aggregation
+ * Used for: GET /api/rooms (list response), nested in SiteDTO
+ */
+export interface RoomDTO {
+  id: Room["id"];
+  name: Room["name"];
+  siteId: Room["site_id"];
+  containerCount: number;
+  createdAt: Room["created_at"];
+  updatedAt: Room["updated_at"];
+}
+
+/**
+ * Site with its rooms
+ * Derived from: Sites table + related rooms
+ * Used for: GET /api/sites (list response)
+ */
+export interface SiteDTO {
+  id: Site["id"];
+  name: Site["name"];
+  rooms: RoomDTO[];
+  createdAt: Site["created_at"];
+  updatedAt: Site["updated_at"];
+}
+
+/**
+ * Command for creating a new site
+ * Derived from: Sites Insert type (user-provided fields only)
+ * Used for: POST /api/sites
+ */
+export type CreateSiteCommand = Pick<TablesInsert<"sites">, "name">;
+
+/**
+ * Command for updating an existing site
+ * Derived from: Sites Update type (user-modifiable fields only)
+ * Used for: PATCH /api/sites/:id
+ */
+export type UpdateSiteCommand = Pick<TablesUpdate<"sites">, "name">;
+
+/**
+ * Command for creating a new room
+ * Derived from: Rooms Insert type (user-provided fields)
+ * Used for: POST /api/rooms
+ */
+export interface CreateRoomCommand {
+  name: Room["name"];
+  siteId: Room["site_id"];
+}
+
+/**
+ * Command for updating an existing room
+ * Derived from: Rooms Update type (user-modifiable fields)
+ * Used for: PATCH /api/rooms/:id
+ *
+ * Note: Changing siteId moves the room and all its containers to another site
+ */
+export interface UpdateRoomCommand {
+  name?: Room["name"];
+  siteId?: Room["site_id"];
+}
+
 // =============================================================================
 // Container DTOs
 // =============================================================================
@@ -134,14 +311,24 @@ export interface DashboardStatsDTO {
  * Container list item with computed fields
  * Derived from: Containers table + computed aggregations
  * Used for: GET /api/containers (list response)
+ *
+ * Note: path is the breadcrumb from the top-level container down to this
+ * container (inclusive). itemCount covers items directly inside the
+ * container, totalItemCount also includes all nested containers.
+ * Nested containers report the site and room of their top-level container.
  */
 export interface ContainerListItemDTO {
   id: Container["id"];
   name: Container["name"];
   description: Container["description"];
+  parentId: Container["parent_id"];
+  path: ContainerRefDTO[];
+  site: SiteRefDTO | null;
+  room: RoomRefDTO | null;
   thumbnail: string | null;
   imageCount: number;
   itemCount: number;
+  totalItemCount: number;
   createdAt: Container["created_at"];
   updatedAt: Container["updated_at"];
 }
@@ -158,18 +345,39 @@ export interface ContainerItemSummaryDTO {
   isIn: Item["is_in"];
 }
 
+/**
+ * Child container summary for container detail view
+ * Derived from: Containers table + computed aggregations
+ */
+export interface ContainerChildSummaryDTO {
+  id: Container["id"];
+  name: Container["name"];
+  thumbnail: string | null;
+  itemCount: number;
+  totalItemCount: number;
+}
+
 /**
  * Detailed container information with related data
- * Derived from: Containers table + related images + related items
+ * Derived from: Containers table + related images + related items + child containers
  * Used for: GET /api/containers/:id (single item response)
+ *
+ * Note: path and counts follow the same rules as ContainerListItemDTO
  */
 export interface ContainerDetailDTO {
   id: Container["id"];
   name: Container["name"];
+  shortCode: Container["short_code"];
   description: Container["description"];
+  parent: ContainerRefDTO | null;
+  path: ContainerRefDTO[];
+  site: SiteRefDTO | null;
+  room: RoomRefDTO | null;
   images: ImageDTO[];
+  children: ContainerChildSummaryDTO[];
   items: ContainerItemSummaryDTO[];
   itemCount: number;
+  totalItemCount: number;
   createdAt: Container["created_at"];
   updatedAt: Container["updated_at"];
 }
@@ -179,28 +387,66 @@ export interface ContainerDetailDTO {
  * Derived from: Containers Insert type (user-provided fields only)
  * Used for: POST /api/containers
  */
-export type CreateContainerCommand = Pick<TablesInsert<"containers">, "name" | "description">;
+export type CreateContainerCommand = Pick<TablesInsert<"containers">, "name" | "description"> & {
+  parentId?: Container["parent_id"]; // null or omitted for a top-level container
+  roomId?: Container["room_id"]; // top-level containers only, nested ones inherit
+};
 
 /**
  * Command for updating an existing container
  * Derived from: Containers Update type (user-modifiable fields only)
  * Used for: PATCH /api/containers/:id
  */
-export type UpdateContainerCommand = Pick<TablesUpdate<"containers">, "name" | "description">;
+export type UpdateContainerCommand = Pick<TablesUpdate<"containers">, "name" | "description"> & {
+  parentId?: Container["parent_id"]; // null moves the container to the top level
+  roomId?: Container["room_id"]; // top-level containers only, null unassigns
+};
+
+/**
+ * Label sheet layouts supported by the label PDF
+ * a4: plain A4 sheet with 3 x 8 labels (70 x 37 mm); avery-*: Avery product codes
+ */
+export type LabelLayoutId =
+  | "a4"
+  | "avery-l7160"
+  | "avery-l7163"
+  | "avery-l7165"
+  | "avery-l7651"
+  | "avery-5160"
+  | "avery-5163";
+
+/**
+ * Command for printing QR code labels
+ * Used for: POST /api/containers/labels
+ *
+ * Note: exactly one of containerIds or roomId is given
+ */
+export interface CreateContainerLabelsCommand {
+  containerIds?: Container["id"][]; // printed in the given order
+  roomId?: Room["id"]; // all containers in the room, ordered by name
+  layout: LabelLayoutId;
+  skip: number; // label positions to leave empty on the first sheet
+}
 
 // =============================================================================
 // Category DTOs
 // =============================================================================
 
 /**
- * Category list item with computed fields
- * Derived from: Categories table + computed item count
- * Used for: GET /api/categories (list response)
+ * Category tree node with computed fields
+ * Derived from: Categories table + computed item counts + subcategories
+ * Used for: GET /api/categories (list response, top-level categories)
+ *
+ * Note: itemCount covers items directly in the category, totalItemCount
+ * also includes all subcategories. children are sorted like the list.
  */
 export interface CategoryListItemDTO {
   id: Category["id"];
   name: Category["name"];
+  parentId: Category["parent_id"];
   itemCount: number;
+  totalItemCount: number;
+  children: CategoryListItemDTO[];
   createdAt: Category["created_at"];
   updatedAt: Category["updated_at"];
 }
@@ -220,14 +466,85 @@ export type CategoryDetailDTO = CategoryListItemDTO;
  * Derived from: Categories Insert type (user-provided fields only)
  * Used for: POST /api/categories
  */
-export type CreateCategoryCommand = Pick<TablesInsert<"categories">, "name">;
+export type CreateCategoryCommand = Pick<TablesInsert<"categories">, "name"> & {
+  parentId?: Category["parent_id"]; // null or omitted for a top-level category
+};
 
 /**
  * Command for updating an existing category
  * Derived from: Categories Update type (user-modifiable fields only)
  * Used for: PATCH /api/categories/:id
  */
-export type UpdateCategoryCommand = Pick<TablesUpdate<"categories">, "name">;
+export type UpdateCategoryCommand = Pick<TablesUpdate<"categories">, "name"> & {
+  parentId?: Category["parent_id"]; // null moves the category to the top level
+};
+
+/**
+ * Command for deleting a category
+ * Used for: DELETE /api/categories/:id
+ */
+export interface DeleteCategoryCommand {
+  reassignTo?: Category["id"] | "uncategorized"; // Destination of the items; "uncategorized" uses or creates the fallback
+}
+
+/**
+ * Result of deleting a category, with the destination of its items
+ * Used for: DELETE /api/categories/:id (response)
+ */
+export interface DeleteCategoryResponseDTO extends DeleteResponseDTO {
+  reassignedTo: Category["id"] | null; // Null if the category had no items to move
+  movedItemCount: number;
+}
+
+/**
+ * Command for merging a category into another one
+ * Used for: POST /api/categories/:id/merge
+ */
+export interface MergeCategoryCommand {
+  targetId: Category["id"];
+}
+
+/**
+ * Result of merging a category; the source category (id) no longer exists
+ * Used for: POST /api/categories/:id/merge (response)
+ */
+export interface MergeCategoryResponseDTO {
+  message: string;
+  id: Category["id"];
+  targetId: Category["id"];
+  movedItemCount: number;
+}
+
+// =============================================================================
+// Tag DTOs
+// =============================================================================
+
+/**
+ * Tag list item with computed fields
+ * Derived from: Tags table + computed item count
+ * Used for: GET /api/tags (list response)
+ */
+export interface TagListItemDTO {
+  id: Tag["id"];
+  name: Tag["name"];
+  itemCount: number;
+  createdAt: Tag["created_at"];
+  updatedAt: Tag["updated_at"];
+}
+
+/**
+ * Command for creating a new tag
+ * Derived from: Tags Insert type (user-provided fields only)
+ * Used for: POST /api/tags
+ */
+export type CreateTagCommand = Pick<TablesInsert<"tags">, "name">;
+
+/**
+ * Command for updating an existing tag
+ * Derived from: Tags Update type (user-modifiable fields only)
+ * Used for: PATCH /api/tags/:id
+ */
+export type UpdateTagCommand = Pick<TablesUpdate<"tags">, "name">;
 
 // =============================================================================
 // Item DTOs
@@ -235,15 +552,19 @@ export type UpdateCategoryCommand = Pick<TablesUpdate<"categories">, "name">;
 
 /**
  * Item list item with related entity references
- * Derived from: Items table + category + container references
+ * Derived from: Items table + category + tag + container references
  * Used for: GET /api/items (list response)
+ *
+ * Note: tags are ordered by name
  */
 export interface ItemListItemDTO {
   id: Item["id"];
   name: Item["name"];
   thumbnail: string | null;
   category: CategoryRefDTO;
+  tags: TagRefDTO[];
   container: ContainerRefDTO;
+  locationPath: LocationSegmentDTO[];
   isIn: Item["is_in"];
   quantity: Item["quantity"];
   createdAt: Item["created_at"];
@@ -252,18 +573,25 @@ export interface ItemListItemDTO {
 
 /**
  * Detailed item information with related data
- * Derived from: Items table + category + container + images
+ * Derived from: Items table + category + tags + container + images
  * Used for: GET /api/items/:id (single item response)
+ *
+ * Note: tags are ordered by name
  */
 export interface ItemDetailDTO {
   id: Item["id"];
   name: Item["name"];
+  shortCode: Item["short_code"];
   description: Item["description"];
   category: CategoryRefDTO;
+  tags: TagRefDTO[];
   container: ContainerRefDTO;
+  locationPath: LocationSegmentDTO[];
   isIn: Item["is_in"];
   quantity: Item["quantity"];
+  barcode: Item["barcode"];
   images: ImageDTO[];
+  movements: ItemMovementDTO[];
   createdAt: Item["created_at"];
   updatedAt: Item["updated_at"];
 }
@@ -279,9 +607,11 @@ export interface CreateItemCommand {
   name: Item["name"];
   description?: Item["description"];
   categoryId: Item["category_id"];
+  tagIds?: Tag["id"][];
   containerId: Item["container_id"];
   isIn: Item["is_in"];
   quantity?: Item["quantity"];
+  barcode?: Item["barcode"];
 }
 
 /**
@@ -295,9 +625,401 @@ export interface UpdateItemCommand {
   name?: Item["name"];
   description?: Item["description"];
   categoryId?: Item["category_id"];
+  tagIds?: Tag["id"][]; // Replaces all tags of the item
   containerId?: Item["container_id"];
   isIn?: Item["is_in"];
   quantity?: Item["quantity"];
+  barcode?: Item["barcode"];
+  moveReason?: ItemMovement["reason"]; // Only with containerId, stored in the movement history
+}
+
+/**
+ * Single check-out of an item, closed when the item is checked back in
+ * Derived from: Item loans table
+ * Used for: POST /api/items/:id/checkout, POST /api/items/:id/checkin,
+ * GET /api/items/:id/history
+ *
+ * Note: checkedInAt is null while the item is out
+ */
+export interface ItemLoanDTO {
+  id: ItemLoan["id"];
+  itemId: ItemLoan["item_id"];
+  borrower: ItemLoan["borrower"];
+  dueDate: ItemLoan["due_date"];
+  note: ItemLoan["note"];
+  checkedOutAt: ItemLoan["checked_out_at"];
+  checkedInAt: ItemLoan["checked_in_at"];
+  returnNote: ItemLoan["return_note"];
+}
+
+/**
+ * Command for checking an item out
+ * Used for: POST /api/items/:id/checkout
+ *
+ * Note: dueDate is a calendar date (YYYY-MM-DD)
+ */
+export interface CheckoutItemCommand {
+  borrower?: ItemLoan["borrower"];
+  dueDate?: ItemLoan["due_date"];
+  note?: ItemLoan["note"];
+}
+
+/**
+ * Command for checking an item back in
+ * Used for: POST /api/items/:id/checkin
+ */
+export interface CheckinItemCommand {
+  note?: ItemLoan["return_note"];
+}
+
+/**
+ * Item that is currently checked out, with its open loan
+ * Derived from: Item loans table + item + container references
+ * Used for: GET /api/loans, nested in DashboardStatsDTO (overdueLoans)
+ *
+ * Note: daysOverdue is null when the loan has no due date and 0 until
+ * the due date has passed (dates are compared in UTC)
+ */
+export interface CheckedOutItemDTO {
+  item: ItemRefDTO;
+  container: ContainerRefDTO;
+  loan: ItemLoanDTO;
+  daysOverdue: number | null;
+  isOverdue: boolean;
+}
+
+/**
+ * Container reference kept in the relocation history
+ * Derived from: Item movements table (container ID and name snapshot)
+ *
+ * Note: id is null when the container has since been deleted;
+ * name is the container name at the time of the move
+ */
+export interface MovedContainerRefDTO {
+  id: Container["id"] | null;
+  name: Container["name"];
+}
+
+/**
+ * Single container change of an item
+ * Derived from: Item movements table
+ * Used for: GET /api/items/:id (movements, newest first)
+ */
+export interface ItemMovementDTO {
+  id: ItemMovement["id"];
+  from: MovedContainerRefDTO;
+  to: MovedContainerRefDTO;
+  reason: ItemMovement["reason"];
+  movedAt: ItemMovement["moved_at"];
+}
+
+/**
+ * Container change with the moved item
+ * Used for: GET /api/movements (recently moved feed)
+ */
+export interface RecentMovementDTO extends ItemMovementDTO {
+  item: ItemRefDTO;
+}
+
+// =============================================================================
+// Search DTOs
+// =============================================================================
+
+/**
+ * Entity types covered by full-text search
+ */
+export type SearchEntityType = "item" | "container" | "category";
+
+/**
+ * Single full-text search match
+ * Derived from: search_inventory function result
+ * Used for: GET /api/search (grouped results)
+ *
+ * Note: highlightedName and snippet are HTML-escaped text with matched
+ * terms wrapped in <mark> elements. snippet is null when the entity has
+ * no description.
+ */
+export interface SearchResultDTO {
+  type: SearchEntityType;
+  id: string;
+  name: string;
+  highlightedName: string;
+  snippet: string | null;
+  rank: number;
+}
+
+/**
+ * Full-text search response grouped by entity type
+ * Each group is ordered by rank (best match first)
+ * Used for: GET /api/search
+ */
+export interface SearchResponseDTO {
+  query: string;
+  items: SearchResultDTO[];
+  containers: SearchResultDTO[];
+  categories: SearchResultDTO[];
+}
+
+/**
+ * Autocomplete suggestion matched by name (typo-tolerant)
+ * Derived from: suggest_inventory function result
+ * Used for: GET /api/search/suggest
+ *
+ * Note: container is the item's container, the parent of a nested
+ * container, and null for top-level containers and categories
+ */
+export interface SearchSuggestionDTO {
+  type: SearchEntityType;
+  id: string;
+  name: string;
+  container: ContainerRefDTO | null;
+  score: number;
+}
+
+// =============================================================================
+// Import DTOs
+// =============================================================================
+
+/**
+ * Item fields a CSV column can be mapped to
+ * category and container are names, matched case-insensitively
+ */
+export type ItemImportField = "name" | "description" | "category" | "container" | "quantity" | "status" | "barcode";
+
+/**
+ * Command for importing items from a CSV file
+ * Used for: POST /api/items/import
+ *
+ * Note: mapping maps item fields to CSV header names; name, category
+ * and container are required
+ */
+export interface ImportItemsCommand {
+  csv: string;
+  mapping: Partial<Record<ItemImportField, string>>;
+  dryRun: boolean; // Validate and report only, nothing is created
+}
+
+/**
+ * Per-row validation error, in the shape of ErrorResponseDTO details
+ * field is "rows.<row>.<field>" (row numbers count the header as row 1),
+ * "mapping.<field>" or "csv"
+ */
+export type ImportErrorDTO = NonNullable<ErrorResponseDTO["error"]["details"]>[number];
+
+/**
+ * CSV import report
+ * Used for: POST /api/items/import
+ *
+ * Note: newCategories and newContainers list the names that are (dry run)
+ * or were created; importedItems is 0 for a dry run
+ */
+export interface ImportItemsReportDTO {
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  errors: ImportErrorDTO[];
+  newCategories: string[];
+  newContainers: string[];
+  importedItems: number;
+}
+
+// =============================================================================
+// Export DTOs
+// =============================================================================
+
+/**
+ * Export file format
+ * - csv: one row per item (spreadsheets)
+ * - json: InventoryExportDTO with all entities (backups)
+ */
+export type ExportFormat = "csv" | "json";
+
+/**
+ * Site as written to the JSON export
+ */
+export interface ExportSiteDTO {
+  id: Site["id"];
+  name: Site["name"];
+  createdAt: Site["created_at"];
+  updatedAt: Site["updated_at"];
+}
+
+/**
+ * Room as written to the JSON export
+ */
+export interface ExportRoomDTO {
+  id: Room["id"];
+  siteId: Room["site_id"];
+  name: Room["name"];
+  createdAt: Room["created_at"];
+  updatedAt: Room["updated_at"];
+}
+
+/**
+ * Category as written to the JSON export
+ */
+export interface ExportCategoryDTO {
+  id: Category["id"];
+  name: Category["name"];
+  parentId: Category["parent_id"];
+  createdAt: Category["created_at"];
+  updatedAt: Category["updated_at"];
+}
+
+/**
+ * Tag as written to the JSON export
+ */
+export interface ExportTagDTO {
+  id: Tag["id"];
+  name: Tag["name"];
+  createdAt: Tag["created_at"];
+  updatedAt: Tag["updated_at"];
+}
+
+/**
+ * Container as written to the JSON export
+ */
+export interface ExportContainerDTO {
+  id: Container["id"];
+  name: Container["name"];
+  description: Container["description"];
+  shortCode: Container["short_code"];
+  parentId: Container["parent_id"];
+  roomId: Container["room_id"];
+  createdAt: Container["created_at"];
+  updatedAt: Container["updated_at"];
+}
+
+/**
+ * Item as written to the JSON export
+ */
+export interface ExportItemDTO {
+  id: Item["id"];
+  name: Item["name"];
+  description: Item["description"];
+  shortCode: Item["short_code"];
+  barcode: Item["barcode"];
+  categoryId: Item["category_id"];
+  containerId: Item["container_id"];
+  tagIds: Tag["id"][];
+  isIn: Item["is_in"];
+  quantity: Item["quantity"];
+  createdAt: Item["created_at"];
+  updatedAt: Item["updated_at"];
+}
+
+/**
+ * Image metadata as written to the JSON export
+ * url is a signed URL of the full-size image (valid for 7 days)
+ */
+export interface ExportImageDTO {
+  id: Image["id"];
+  entityType: Image["entity_type"];
+  entityId: Image["entity_id"];
+  storagePath: Image["storage_path"];
+  displayOrder: Image["display_order"];
+  url: string | null;
+  createdAt: Image["created_at"];
+  updatedAt: Image["updated_at"];
+}
+
+/**
+ * Full inventory export document
+ * Used for: GET /api/export?format=json (streamed)
+ *
+ * Note: version is incremented when the document shape changes
+ */
+export interface InventoryExportDTO {
+  version: number;
+  exportedAt: string;
+  sites: ExportSiteDTO[];
+  rooms: ExportRoomDTO[];
+  categories: ExportCategoryDTO[];
+  tags: ExportTagDTO[];
+  containers: ExportContainerDTO[];
+  items: ExportItemDTO[];
+  images: ExportImageDTO[];
+}
+
+// =============================================================================
+// Backup DTOs
+// =============================================================================
+
+/**
+ * Command for restoring a backup archive
+ * Used for: POST /api/backup/restore (multipart/form-data)
+ *
+ * Note: file is a zip created by GET /api/backup
+ */
+export interface RestoreBackupCommand {
+  file: File;
+}
+
+/**
+ * Image of a backup that could not be restored
+ */
+export interface RestoreImageErrorDTO {
+  id: Image["id"]; // ID in the backup
+  message: string;
+}
+
+/**
+ * Backup restore report with the number of restored entities
+ * Used for: POST /api/backup/restore
+ *
+ * Note: all entities except images are restored in one transaction;
+ * images are uploaded afterwards, failures are listed in failedImages
+ */
+export interface RestoreReportDTO {
+  sites: number;
+  rooms: number;
+  categories: number;
+  tags: number;
+  containers: number;
+  items: number;
+  images: number;
+  failedImages: RestoreImageErrorDTO[];
+}
+
+// =============================================================================
+// Activity (Audit Log) DTOs
+// =============================================================================
+
+/**
+ * Entity types recorded in the audit log
+ */
+export type ActivityEntityType = "item" | "container" | "category" | "image";
+
+/**
+ * Kind of change recorded in the audit log
+ */
+export type ActivityAction = "insert" | "update" | "delete";
+
+/**
+ * Old and new value of a single changed column
+ * Note: old is null on insert, new is null on delete
+ */
+export interface ActivityChangeDTO {
+  old: Json;
+  new: Json;
+}
+
+/**
+ * Single audit log entry
+ * Derived from: Audit log table (written by the record_audit_log trigger)
+ * Used for: GET /api/activity (newest first)
+ *
+ * Note: changes is keyed by database column name; actorId is null for
+ * changes made outside a user session
+ */
+export interface ActivityEntryDTO {
+  id: AuditLogEntry["id"];
+  entityType: ActivityEntityType;
+  entityId: AuditLogEntry["entity_id"];
+  action: ActivityAction;
+  actorId: AuditLogEntry["actor_id"];
+  changes: Record<string, ActivityChangeDTO>;
+  createdAt: AuditLogEntry["created_at"];
 }
 
 // =============================================================================
@@ -311,7 +1033,27 @@ export type ContainerListResponseDTO = PaginatedResponseDTO<ContainerListItemDTO
 export interface CategoryListResponseDTO {
   data: CategoryListItemDTO[];
 }
+export interface TagListResponseDTO {
+  data: TagListItemDTO[];
+}
 export type ItemListResponseDTO = PaginatedResponseDTO<ItemListItemDTO>;
+export type ItemHistoryResponseDTO = PaginatedResponseDTO<ItemLoanDTO>;
+export type CheckedOutItemListResponseDTO = PaginatedResponseDTO<CheckedOutItemDTO>;
+export type RecentMovementListResponseDTO = PaginatedResponseDTO<RecentMovementDTO>;
+export type ActivityListResponseDTO = PaginatedResponseDTO<ActivityEntryDTO>;
+export interface SiteListResponseDTO {
+  data: SiteDTO[];
+}
+export interface RoomListResponseDTO {
+  data: RoomDTO[];
+}
+export interface SearchSuggestResponseDTO {
+  data: SearchSuggestionDTO[];
+}
+export interface BarcodeLookupResponseDTO {
+  barcode: string;
+  data: ItemListItemDTO[];
+}
 
 /**
  * Standard success response for delete operations
@@ -0,0 +1,71 @@
+-- =====================================================
+-- Migration: Image Storage Bucket
+-- Created: 2026-01-26
+-- Description: Creates the Supabase Storage bucket for item and
+--   container images, including:
+--   - item-images bucket (5MB limit, JPEG/PNG/WebP only)
+--   - storage.objects RLS policies scoped to the user's folder
+-- =====================================================
+
+-- =====================================================
+-- 1. STORAGE BUCKET
+-- =====================================================
+
+-- Objects are stored as user_id/entity_type/entity_id/image_id.ext
+-- (see images.storage_path). Limits mirror application-level validation.
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'item-images',
+  'item-images',
+  true,
+  5242880,
+  array['image/jpeg', 'image/png', 'image/webp']
+)
+on conflict (id) do nothing;
+
+-- =====================================================
+-- 2. ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 2.1 Storage Object Policies
+-- The first path segment is the owner's user_id, so each user
+-- can only access objects inside their own folder
+-- -----------------------------------------------------
+
+-- SELECT: Users can view their own image files
+create policy "Users can view own image files"
+  on storage.objects for select
+  using (
+    bucket_id = 'item-images'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- INSERT: Users can upload image files into their own folder
+create policy "Users can upload own image files"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'item-images'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- UPDATE: Users can update their own image files
+create policy "Users can update own image files"
+  on storage.objects for update
+  using (
+    bucket_id = 'item-images'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  )
+  with check (
+    bucket_id = 'item-images'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- DELETE: Users can delete their own image files
+-- Used to roll back uploads whose metadata insert failed
+create policy "Users can delete own image files"
+  on storage.objects for delete
+  using (
+    bucket_id = 'item-images'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,86 @@
+-- =====================================================
+-- Migration: Atomic Image Reordering
+-- Created: 2026-01-28
+-- Description: Allows image display order to be rewritten in one
+--   statement, including:
+--   - deferrable unique constraint replacing idx_images_entity_order_unique
+--   - reorder_images function applying a full ordering atomically
+-- =====================================================
+
+-- =====================================================
+-- 1. CONSTRAINTS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 Replace unique index with deferrable unique constraint
+-- A plain unique index is checked row by row, so swapping two
+-- images (1 <-> 2) collides halfway through the UPDATE.
+-- DEFERRABLE INITIALLY IMMEDIATE checks at the end of the statement
+-- while keeping the same guarantee for regular inserts and updates.
+-- -----------------------------------------------------
+drop index if exists idx_images_entity_order_unique;
+
+alter table images
+  add constraint images_entity_order_unique
+  unique (entity_type, entity_id, display_order)
+  deferrable initially immediate;
+
+-- =====================================================
+-- 2. FUNCTIONS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 2.1 Function to apply a complete image ordering for one entity
+-- p_image_ids lists every image of the entity; position 1 becomes
+-- display_order 1 (the thumbnail), position 2 becomes 2, and so on.
+-- Runs as the caller (security invoker), so images RLS policies apply.
+-- -----------------------------------------------------
+create or replace function reorder_images(
+  p_entity_type entity_type_enum,
+  p_entity_id uuid,
+  p_image_ids uuid[]
+)
+returns setof images
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  existing_ids uuid[];
+begin
+  -- Lock the entity's images so concurrent uploads or reorders wait
+  select array_agg(id)
+  into existing_ids
+  from (
+    select id
+    from images
+    where entity_type = p_entity_type
+      and entity_id = p_entity_id
+      and user_id = auth.uid()
+    for update
+  ) as locked;
+
+  if existing_ids is null then
+    raise exception 'No images found for this %', p_entity_type
+      using errcode = 'P0002';
+  end if;
+
+  -- The new ordering must contain every existing image exactly once
+  if cardinality(p_image_ids) <> cardinality(existing_ids)
+    or not (p_image_ids @> existing_ids and existing_ids @> p_image_ids) then
+    raise exception 'Image order must include every image of the % exactly once', p_entity_type
+      using errcode = '22023';
+  end if;
+
+  -- Single statement: uniqueness is verified once all rows are updated
+  return query
+  update images as i
+  set display_order = ordering.position::integer
+  from unnest(p_image_ids) with ordinality as ordering(id, position)
+  where i.id = ordering.id
+  returning i.*;
+end;
+$$;
+
+-- Add comment explaining function purpose
+comment on function reorder_images is 'Atomically rewrites display_order for all images of one entity. The first image in p_image_ids becomes the thumbnail (display_order = 1).';
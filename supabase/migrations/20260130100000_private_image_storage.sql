@@ -0,0 +1,19 @@
+-- =====================================================
+-- Migration: Private Image Storage
+-- Created: 2026-01-30
+-- Description: Stops serving item and container photos publicly:
+--   - item-images bucket is switched to private
+--   - files are only reachable through short-lived signed URLs,
+--     which storage.objects RLS allows only for the owner's folder
+-- =====================================================
+
+-- =====================================================
+-- 1. STORAGE BUCKET
+-- =====================================================
+
+-- Public buckets bypass RLS for reads via /object/public/ URLs,
+-- so anyone who guessed a path could download a photo.
+-- Private buckets require a signed URL or an authenticated request.
+update storage.buckets
+set public = false
+where id = 'item-images';
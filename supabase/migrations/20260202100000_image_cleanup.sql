@@ -0,0 +1,76 @@
+-- =====================================================
+-- Migration: Polymorphic Image Cleanup
+-- Created: 2026-02-02
+-- Description: Keeps images metadata consistent with its parent
+--   entities, including:
+--   - delete_entity_images trigger function (emulates ON DELETE CASCADE)
+--   - triggers on items and containers
+--   - list_image_storage_paths function for storage reconciliation
+-- =====================================================
+
+-- =====================================================
+-- 1. FUNCTIONS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 Function to delete image rows of a deleted item or container
+-- images.entity_id has no FK (polymorphic), so ON DELETE CASCADE
+-- cannot be declared. TG_ARGV[0] carries the entity type.
+-- Storage files are removed by the application after the delete.
+-- -----------------------------------------------------
+create or replace function delete_entity_images()
+returns trigger as $$
+begin
+  delete from images
+  where entity_type = tg_argv[0]::entity_type_enum
+    and entity_id = old.id;
+
+  return old;
+end;
+$$ language plpgsql;
+
+-- Add comment explaining function purpose
+comment on function delete_entity_images is 'Trigger function emulating ON DELETE CASCADE for the polymorphic images table. Entity type is passed as trigger argument.';
+
+-- -----------------------------------------------------
+-- 1.2 Function to list the caller's objects in the images bucket
+-- Used to find storage files that have no images row.
+-- Runs as the caller (security invoker), so storage.objects RLS
+-- limits results to the user's own folder.
+-- -----------------------------------------------------
+create or replace function list_image_storage_paths()
+returns setof text
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select name
+  from storage.objects
+  where bucket_id = 'item-images'
+    and (storage.foldername(name))[1] = auth.uid()::text;
+$$;
+
+-- Add comment explaining function purpose
+comment on function list_image_storage_paths is 'Lists storage paths of all files the authenticated user owns in the item-images bucket. Used by image reconciliation.';
+
+-- =====================================================
+-- 2. TRIGGERS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 2.1 Triggers to delete images together with their parent entity
+-- Run AFTER DELETE so a failed parent delete leaves images untouched
+-- -----------------------------------------------------
+
+-- Items table trigger
+create trigger delete_item_images
+  after delete on items
+  for each row
+  execute function delete_entity_images('item');
+
+-- Containers table trigger
+create trigger delete_container_images
+  after delete on containers
+  for each row
+  execute function delete_entity_images('container');
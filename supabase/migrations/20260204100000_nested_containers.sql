@@ -0,0 +1,188 @@
+-- =====================================================
+-- Migration: Nested Containers
+-- Created: 2026-02-04
+-- Description: Allows containers to be placed inside other containers
+--   (e.g. Garage > Shelf 2 > Blue tub), including:
+--   - containers.parent_id self-reference
+--   - enforce_container_hierarchy trigger (ownership, cycles, max depth)
+--   - get_container_summaries function (breadcrumb path, item counts)
+-- =====================================================
+
+-- =====================================================
+-- 1. SCHEMA CHANGES
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 Parent container reference
+-- NULL means a top-level container.
+-- ON DELETE RESTRICT prevents deleting containers that still have
+-- child containers (same rule as items).
+-- -----------------------------------------------------
+alter table containers
+  add column parent_id uuid references containers(id) on delete restrict,
+  add constraint containers_parent_not_self check (parent_id <> id);
+
+-- Update comments to describe the hierarchy
+comment on table containers is 'Physical storage locations. Containers can be nested up to 5 levels deep via parent_id. Each container belongs to one user.';
+comment on column containers.parent_id is 'Optional reference to the enclosing container. NULL for top-level containers. ON DELETE RESTRICT prevents deleting containers with children.';
+
+-- =====================================================
+-- 2. INDEXES
+-- =====================================================
+
+-- Children lookup and hierarchy traversal (descendants, delete checks)
+create index idx_containers_parent_id on containers(parent_id);
+
+-- List containers by parent within user scope (top-level or children)
+create index idx_containers_user_parent on containers(user_id, parent_id);
+
+-- =====================================================
+-- 3. FUNCTIONS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 3.1 Function to keep the container hierarchy a valid tree
+-- Rejects parents owned by another user, cycles (moving a container
+-- into itself or one of its descendants) and trees deeper than 5 levels.
+-- Depth counts the moved container's own subtree, so moving a tub with
+-- two nested boxes needs room for three levels.
+-- -----------------------------------------------------
+create or replace function enforce_container_hierarchy()
+returns trigger as $$
+declare
+  max_depth constant integer := 5;
+  parent_depth integer;
+  subtree_height integer;
+  creates_cycle boolean;
+begin
+  if new.parent_id is null then
+    return new;
+  end if;
+
+  -- Serialize hierarchy changes per user so two concurrent moves
+  -- cannot create a cycle that neither sees on its own
+  perform pg_advisory_xact_lock(hashtext('containers:' || new.user_id::text));
+
+  -- Parent must exist and belong to the same user
+  if not exists (
+    select 1 from containers where id = new.parent_id and user_id = new.user_id
+  ) then
+    raise exception 'Parent container does not exist or does not belong to user'
+      using errcode = '23503';
+  end if;
+
+  -- Walk up from the new parent; depth 1 is the parent itself
+  with recursive ancestors as (
+    select id, parent_id, 1 as depth
+    from containers
+    where id = new.parent_id
+    union all
+    select c.id, c.parent_id, a.depth + 1
+    from ancestors a
+    join containers c on c.id = a.parent_id
+  )
+  select max(depth), coalesce(bool_or(id = new.id), false)
+  into parent_depth, creates_cycle
+  from ancestors;
+
+  if creates_cycle then
+    raise exception 'Container cannot be placed inside itself or one of its descendants'
+      using errcode = '23514';
+  end if;
+
+  -- Height of the subtree rooted at this container (1 for a leaf or new row)
+  with recursive subtree as (
+    select id, 1 as depth
+    from containers
+    where parent_id = new.id
+    union all
+    select c.id, s.depth + 1
+    from subtree s
+    join containers c on c.parent_id = s.id
+  )
+  select coalesce(max(depth), 0) + 1
+  into subtree_height
+  from subtree;
+
+  if parent_depth + subtree_height > max_depth then
+    raise exception 'Container nesting cannot exceed % levels', max_depth
+      using errcode = '23514';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+-- Add comment explaining function purpose
+comment on function enforce_container_hierarchy is 'Trigger function validating containers.parent_id: same owner, no cycles, maximum nesting depth of 5 levels.';
+
+-- -----------------------------------------------------
+-- 3.2 Function to summarize containers within the hierarchy
+-- Returns for each requested container:
+-- - path_ids / path_names: breadcrumb from the top-level container
+--   down to the container itself
+-- - item_count: items directly inside the container
+-- - total_item_count: items inside the container and all descendants
+-- Runs as the caller (security invoker), so containers and items RLS
+-- policies apply.
+-- -----------------------------------------------------
+create or replace function get_container_summaries(p_container_ids uuid[])
+returns table (
+  container_id uuid,
+  path_ids uuid[],
+  path_names text[],
+  item_count bigint,
+  total_item_count bigint
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with recursive ancestors as (
+    select c.id as container_id, c.parent_id, array[c.id] as path_ids, array[c.name::text] as path_names
+    from containers c
+    where c.id = any(p_container_ids)
+    union all
+    select a.container_id, p.parent_id, p.id || a.path_ids, p.name::text || a.path_names
+    from ancestors a
+    join containers p on p.id = a.parent_id
+  ),
+  descendants as (
+    select c.id as container_id, c.id
+    from containers c
+    where c.id = any(p_container_ids)
+    union all
+    select d.container_id, c.id
+    from descendants d
+    join containers c on c.parent_id = d.id
+  ),
+  counts as (
+    select
+      d.container_id,
+      count(i.id) filter (where i.container_id = d.container_id) as item_count,
+      count(i.id) as total_item_count
+    from descendants d
+    left join items i on i.container_id = d.id
+    group by d.container_id
+  )
+  select a.container_id, a.path_ids, a.path_names, counts.item_count, counts.total_item_count
+  from ancestors a
+  join counts on counts.container_id = a.container_id
+  where a.parent_id is null;
+$$;
+
+-- Add comment explaining function purpose
+comment on function get_container_summaries is 'Returns breadcrumb path (top-level first) and direct/total item counts for the given containers.';
+
+-- =====================================================
+-- 4. TRIGGERS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 4.1 Trigger to validate the hierarchy on insert and parent change
+-- -----------------------------------------------------
+create trigger enforce_container_hierarchy
+  before insert or update of parent_id on containers
+  for each row
+  execute function enforce_container_hierarchy();
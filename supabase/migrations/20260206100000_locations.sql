@@ -0,0 +1,366 @@
+-- =====================================================
+-- Migration: Locations (Sites and Rooms)
+-- Created: 2026-02-06
+-- Description: Adds a two-level location model above containers
+--   (site -> room -> container), including:
+--   - sites table (properties: home, cabin, storage unit)
+--   - rooms table (rooms within a site)
+--   - containers.room_id reference, inherited by nested containers
+--   - get_container_summaries extended with site and room
+--   - get_site_stats function for the dashboard breakdown
+-- =====================================================
+
+-- =====================================================
+-- 1. TABLES
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 sites
+-- Top-level locations (a property or address)
+-- -----------------------------------------------------
+create table sites (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references profiles(id) on delete cascade on update cascade,
+  name varchar(255) not null check (length(trim(name)) >= 1 and length(name) <= 255),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Enable Row Level Security
+alter table sites enable row level security;
+
+-- Add comment explaining table purpose
+comment on table sites is 'Top-level locations such as a home, cabin or rented storage unit. Each user can define their own sites with case-insensitive unique names.';
+
+-- -----------------------------------------------------
+-- 1.2 rooms
+-- Rooms within a site; containers are assigned to rooms
+-- -----------------------------------------------------
+create table rooms (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references profiles(id) on delete cascade on update cascade,
+  site_id uuid not null references sites(id) on delete restrict,
+  name varchar(255) not null check (length(trim(name)) >= 1 and length(name) <= 255),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Enable Row Level Security
+alter table rooms enable row level security;
+
+-- Add comments explaining table purpose and constraints
+comment on table rooms is 'Rooms within a site. Room names are case-insensitive unique per site. ON DELETE RESTRICT prevents deleting sites that have rooms.';
+comment on column rooms.site_id is 'Required reference to sites. Site must belong to the same user (validated by app).';
+
+-- -----------------------------------------------------
+-- 1.3 Container room reference
+-- Top-level containers are assigned to a room directly; nested
+-- containers always carry the room of their parent (see triggers).
+-- -----------------------------------------------------
+alter table containers
+  add column room_id uuid references rooms(id) on delete restrict;
+
+comment on column containers.room_id is 'Optional reference to rooms. Set on top-level containers and inherited by nested containers. ON DELETE RESTRICT prevents deleting rooms that have containers.';
+
+-- =====================================================
+-- 2. INDEXES
+-- =====================================================
+
+-- Foreign key indexes
+create index idx_sites_user_id on sites(user_id);
+create index idx_rooms_user_id on rooms(user_id);
+create index idx_rooms_site_id on rooms(site_id);
+create index idx_containers_room_id on containers(room_id);
+
+-- Filter containers by room within user scope
+create index idx_containers_user_room on containers(user_id, room_id);
+
+-- Case-insensitive unique site names per user
+create unique index idx_sites_user_name_unique on sites(user_id, lower(name));
+
+-- Case-insensitive unique room names per site
+create unique index idx_rooms_site_name_unique on rooms(site_id, lower(name));
+
+-- =====================================================
+-- 3. FUNCTIONS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 3.1 Function to copy the parent's room onto nested containers
+-- Runs BEFORE INSERT/UPDATE so a nested container can never point
+-- at a different room than the container it sits in.
+-- -----------------------------------------------------
+create or replace function inherit_container_room()
+returns trigger as $$
+begin
+  if new.parent_id is not null then
+    select room_id
+    into new.room_id
+    from containers
+    where id = new.parent_id;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+-- Add comment explaining function purpose
+comment on function inherit_container_room is 'Trigger function setting room_id of nested containers to the room of their parent container.';
+
+-- -----------------------------------------------------
+-- 3.2 Function to push a room change down to child containers
+-- Runs AFTER UPDATE; each child update fires the same trigger,
+-- so the change reaches the whole subtree.
+-- -----------------------------------------------------
+create or replace function propagate_container_room()
+returns trigger as $$
+begin
+  update containers
+  set room_id = new.room_id
+  where parent_id = new.id
+    and room_id is distinct from new.room_id;
+
+  return null;
+end;
+$$ language plpgsql;
+
+-- Add comment explaining function purpose
+comment on function propagate_container_room is 'Trigger function copying a container''s room_id to its child containers after it changes.';
+
+-- -----------------------------------------------------
+-- 3.3 Extend container summaries with site and room
+-- Same breadcrumb and counts as before, plus the location the
+-- container is assigned to. Return type changes, so drop first.
+-- -----------------------------------------------------
+drop function if exists get_container_summaries(uuid[]);
+
+create function get_container_summaries(p_container_ids uuid[])
+returns table (
+  container_id uuid,
+  path_ids uuid[],
+  path_names text[],
+  item_count bigint,
+  total_item_count bigint,
+  room_id uuid,
+  room_name text,
+  site_id uuid,
+  site_name text
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with recursive ancestors as (
+    select c.id as container_id, c.parent_id, array[c.id] as path_ids, array[c.name::text] as path_names
+    from containers c
+    where c.id = any(p_container_ids)
+    union all
+    select a.container_id, p.parent_id, p.id || a.path_ids, p.name::text || a.path_names
+    from ancestors a
+    join containers p on p.id = a.parent_id
+  ),
+  descendants as (
+    select c.id as container_id, c.id
+    from containers c
+    where c.id = any(p_container_ids)
+    union all
+    select d.container_id, c.id
+    from descendants d
+    join containers c on c.parent_id = d.id
+  ),
+  counts as (
+    select
+      d.container_id,
+      count(i.id) filter (where i.container_id = d.container_id) as item_count,
+      count(i.id) as total_item_count
+    from descendants d
+    left join items i on i.container_id = d.id
+    group by d.container_id
+  )
+  select
+    a.container_id,
+    a.path_ids,
+    a.path_names,
+    counts.item_count,
+    counts.total_item_count,
+    r.id,
+    r.name::text,
+    s.id,
+    s.name::text
+  from ancestors a
+  join counts on counts.container_id = a.container_id
+  join containers c on c.id = a.container_id
+  left join rooms r on r.id = c.room_id
+  left join sites s on s.id = r.site_id
+  where a.parent_id is null;
+$$;
+
+-- Add comment explaining function purpose
+comment on function get_container_summaries is 'Returns breadcrumb path (top-level first), direct/total item counts, and assigned room and site for the given containers.';
+
+-- -----------------------------------------------------
+-- 3.4 Function to aggregate totals per site
+-- Containers without a room are grouped under a NULL site, listed
+-- after the named sites (ordered by name).
+-- Runs as the caller (security invoker), so RLS policies apply.
+-- -----------------------------------------------------
+create or replace function get_site_stats()
+returns table (
+  site_id uuid,
+  site_name text,
+  total_containers bigint,
+  total_items bigint,
+  items_out bigint
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with container_sites as (
+    select c.id as container_id, s.id as site_id, s.name::text as site_name
+    from containers c
+    left join rooms r on r.id = c.room_id
+    left join sites s on s.id = r.site_id
+    where c.user_id = auth.uid()
+  ),
+  container_totals as (
+    select site_id, site_name, count(*) as total_containers
+    from container_sites
+    group by site_id, site_name
+  ),
+  item_totals as (
+    select
+      cs.site_id,
+      count(*) as total_items,
+      count(*) filter (where not i.is_in) as items_out
+    from items i
+    join container_sites cs on cs.container_id = i.container_id
+    group by cs.site_id
+  )
+  select
+    s.id,
+    s.name::text,
+    coalesce(ct.total_containers, 0),
+    coalesce(it.total_items, 0),
+    coalesce(it.items_out, 0)
+  from sites s
+  left join container_totals ct on ct.site_id = s.id
+  left join item_totals it on it.site_id = s.id
+  where s.user_id = auth.uid()
+  union all
+  select
+    null,
+    null,
+    ct.total_containers,
+    coalesce(it.total_items, 0),
+    coalesce(it.items_out, 0)
+  from container_totals ct
+  left join item_totals it on it.site_id is null
+  where ct.site_id is null
+  order by 2 nulls last;
+$$;
+
+-- Add comment explaining function purpose
+comment on function get_site_stats is 'Returns container, item and checked-out item totals per site for the authenticated user. A row with NULL site covers containers without a room.';
+
+-- =====================================================
+-- 4. TRIGGERS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 4.1 Triggers for automatic updated_at timestamp updates
+-- -----------------------------------------------------
+
+-- Sites table trigger
+create trigger update_sites_updated_at
+  before update on sites
+  for each row
+  execute function update_updated_at_column();
+
+-- Rooms table trigger
+create trigger update_rooms_updated_at
+  before update on rooms
+  for each row
+  execute function update_updated_at_column();
+
+-- -----------------------------------------------------
+-- 4.2 Triggers keeping nested containers in their parent's room
+-- -----------------------------------------------------
+
+-- Copy parent room on insert and when room or parent changes
+create trigger inherit_container_room
+  before insert or update of parent_id, room_id on containers
+  for each row
+  execute function inherit_container_room();
+
+-- Cascade room changes to child containers
+create trigger propagate_container_room
+  after update of room_id on containers
+  for each row
+  when (old.room_id is distinct from new.room_id)
+  execute function propagate_container_room();
+
+-- =====================================================
+-- 5. ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 5.1 Sites Table Policies
+-- Users can only access their own sites
+-- -----------------------------------------------------
+
+-- SELECT: Users can view their own sites
+create policy "Users can view own sites"
+  on sites for select
+  using (auth.uid() = user_id);
+
+-- INSERT: Users can insert their own sites
+-- WITH CHECK ensures user_id matches authenticated user
+create policy "Users can insert own sites"
+  on sites for insert
+  with check (auth.uid() = user_id);
+
+-- UPDATE: Users can update their own sites
+-- Both USING and WITH CHECK ensure ownership
+create policy "Users can update own sites"
+  on sites for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- DELETE: Users can delete their own sites
+-- Note: ON DELETE RESTRICT on rooms table prevents deleting sites with rooms
+create policy "Users can delete own sites"
+  on sites for delete
+  using (auth.uid() = user_id);
+
+-- -----------------------------------------------------
+-- 5.2 Rooms Table Policies
+-- Users can only access their own rooms
+-- -----------------------------------------------------
+
+-- SELECT: Users can view their own rooms
+create policy "Users can view own rooms"
+  on rooms for select
+  using (auth.uid() = user_id);
+
+-- INSERT: Users can insert their own rooms
+-- WITH CHECK ensures user_id matches authenticated user
+-- Note: Referenced site_id must also belong to user (validated by app)
+create policy "Users can insert own rooms"
+  on rooms for insert
+  with check (auth.uid() = user_id);
+
+-- UPDATE: Users can update their own rooms
+-- Both USING and WITH CHECK ensure ownership
+create policy "Users can update own rooms"
+  on rooms for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- DELETE: Users can delete their own rooms
+-- Note: ON DELETE RESTRICT on containers table prevents deleting rooms with containers
+create policy "Users can delete own rooms"
+  on rooms for delete
+  using (auth.uid() = user_id);
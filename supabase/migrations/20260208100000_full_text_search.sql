@@ -0,0 +1,140 @@
+-- =====================================================
+-- Migration: Full-Text Search
+-- Created: 2026-02-08
+-- Description: Adds Postgres full-text search over items, containers
+--   and categories, including:
+--   - generated search_vector columns (weighted name/description)
+--   - GIN indexes on the search vectors
+--   - search_inventory function (ranked matches with highlighted snippets)
+-- =====================================================
+
+-- =====================================================
+-- 1. SCHEMA CHANGES
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 Search vectors
+-- Names are weighted A and descriptions B, so a name match ranks
+-- above a match that only appears in the description.
+-- Stored generated columns keep the vectors in sync on every write.
+-- -----------------------------------------------------
+alter table items
+  add column search_vector tsvector generated always as (
+    setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+  ) stored;
+
+alter table containers
+  add column search_vector tsvector generated always as (
+    setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+  ) stored;
+
+alter table categories
+  add column search_vector tsvector generated always as (
+    setweight(to_tsvector('english', coalesce(name, '')), 'A')
+  ) stored;
+
+-- Add comments explaining the generated columns
+comment on column items.search_vector is 'Generated full-text search vector over name (weight A) and description (weight B).';
+comment on column containers.search_vector is 'Generated full-text search vector over name (weight A) and description (weight B).';
+comment on column categories.search_vector is 'Generated full-text search vector over name (weight A).';
+
+-- =====================================================
+-- 2. INDEXES
+-- =====================================================
+
+-- Full-text search indexes
+-- Support @@ matching of search_inventory queries
+create index idx_items_search_vector on items using gin(search_vector);
+create index idx_containers_search_vector on containers using gin(search_vector);
+create index idx_categories_search_vector on categories using gin(search_vector);
+
+-- =====================================================
+-- 3. FUNCTIONS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 3.1 Function to search items, containers and categories
+-- Parses the query with websearch_to_tsquery, so users can type
+-- plain words, "quoted phrases", OR and -excluded words.
+-- Returns at most p_limit matches per entity type, best first.
+-- Highlighted terms are wrapped in chr(2) / chr(3) markers rather
+-- than HTML, so the application can escape user text before
+-- turning the markers into markup.
+-- Runs as the caller (security invoker), so RLS policies apply.
+-- -----------------------------------------------------
+create or replace function search_inventory(p_query text, p_limit integer default 10)
+returns table (
+  entity_type text,
+  entity_id uuid,
+  name text,
+  name_highlight text,
+  snippet text,
+  rank real
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with search as (
+    select
+      websearch_to_tsquery('english', p_query) as query,
+      'StartSel="' || chr(2) || '", StopSel="' || chr(3) || '", HighlightAll=true' as name_options,
+      'StartSel="' || chr(2) || '", StopSel="' || chr(3) || '", MaxWords=25, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "' as snippet_options
+  ),
+  item_matches as (
+    select
+      'item'::text as entity_type,
+      i.id as entity_id,
+      i.name::text as name,
+      ts_headline('english', i.name, s.query, s.name_options) as name_highlight,
+      case when i.description is not null then ts_headline('english', i.description, s.query, s.snippet_options) end as snippet,
+      ts_rank(i.search_vector, s.query) as rank
+    from items i
+    cross join search s
+    where i.user_id = auth.uid()
+      and i.search_vector @@ s.query
+    order by rank desc, i.name
+    limit p_limit
+  ),
+  container_matches as (
+    select
+      'container'::text as entity_type,
+      c.id as entity_id,
+      c.name::text as name,
+      ts_headline('english', c.name, s.query, s.name_options) as name_highlight,
+      case when c.description is not null then ts_headline('english', c.description, s.query, s.snippet_options) end as snippet,
+      ts_rank(c.search_vector, s.query) as rank
+    from containers c
+    cross join search s
+    where c.user_id = auth.uid()
+      and c.search_vector @@ s.query
+    order by rank desc, c.name
+    limit p_limit
+  ),
+  category_matches as (
+    select
+      'category'::text as entity_type,
+      c.id as entity_id,
+      c.name::text as name,
+      ts_headline('english', c.name, s.query, s.name_options) as name_highlight,
+      null::text as snippet,
+      ts_rank(c.search_vector, s.query) as rank
+    from categories c
+    cross join search s
+    where c.user_id = auth.uid()
+      and c.search_vector @@ s.query
+    order by rank desc, c.name
+    limit p_limit
+  )
+  select * from item_matches
+  union all
+  select * from container_matches
+  union all
+  select * from category_matches;
+$$;
+
+-- Add comment explaining function purpose
+comment on function search_inventory is 'Full-text search over the authenticated user''s items, containers and categories. Returns up to p_limit ranked matches per entity type with highlighted name and description snippet.';
@@ -0,0 +1,123 @@
+-- =====================================================
+-- Migration: Fuzzy Search and Autocomplete
+-- Created: 2026-02-10
+-- Description: Adds typo-tolerant name matching with pg_trgm, including:
+--   - pg_trgm extension
+--   - trigram GIN indexes on item, container and category names
+--   - suggest_inventory function (top name matches while typing)
+-- =====================================================
+
+-- =====================================================
+-- 1. EXTENSIONS
+-- =====================================================
+
+-- Trigram matching (similarity, word_similarity, <% operator)
+create extension if not exists pg_trgm with schema extensions;
+
+-- =====================================================
+-- 2. INDEXES
+-- =====================================================
+
+-- Trigram indexes on names
+-- Support the <% (word similarity) operator used by suggest_inventory.
+-- Trigrams are case-insensitive, so no lower() is needed.
+create index idx_items_name_trgm on items using gin(name extensions.gin_trgm_ops);
+create index idx_containers_name_trgm on containers using gin(name extensions.gin_trgm_ops);
+create index idx_categories_name_trgm on categories using gin(name extensions.gin_trgm_ops);
+
+-- =====================================================
+-- 3. FUNCTIONS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 3.1 Function to suggest items, containers and categories by name
+-- Uses word similarity, so a partial or misspelled word matches a
+-- word inside the name ("drll" -> "Cordless drill",
+-- "scredriver" -> "Flat screwdriver"). Names starting with the typed
+-- text score highest, so results stay stable while typing.
+-- For items the container is the item's container; for containers it
+-- is the parent container (NULL for top-level containers).
+-- Runs as the caller (security invoker), so RLS policies apply.
+-- -----------------------------------------------------
+create or replace function suggest_inventory(p_query text, p_limit integer default 8)
+returns table (
+  entity_type text,
+  entity_id uuid,
+  name text,
+  container_id uuid,
+  container_name text,
+  score real
+)
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  with item_matches as (
+    select
+      'item'::text as entity_type,
+      i.id as entity_id,
+      i.name::text as name,
+      c.id as container_id,
+      c.name::text as container_name,
+      case
+        when starts_with(lower(i.name), lower(p_query)) then 1
+        else word_similarity(p_query, i.name)
+      end::real as score
+    from items i
+    join containers c on c.id = i.container_id
+    where i.user_id = auth.uid()
+      and p_query <% i.name
+    order by score desc, i.name
+    limit p_limit
+  ),
+  container_matches as (
+    select
+      'container'::text as entity_type,
+      c.id as entity_id,
+      c.name::text as name,
+      p.id as container_id,
+      p.name::text as container_name,
+      case
+        when starts_with(lower(c.name), lower(p_query)) then 1
+        else word_similarity(p_query, c.name)
+      end::real as score
+    from containers c
+    left join containers p on p.id = c.parent_id
+    where c.user_id = auth.uid()
+      and p_query <% c.name
+    order by score desc, c.name
+    limit p_limit
+  ),
+  category_matches as (
+    select
+      'category'::text as entity_type,
+      c.id as entity_id,
+      c.name::text as name,
+      null::uuid as container_id,
+      null::text as container_name,
+      case
+        when starts_with(lower(c.name), lower(p_query)) then 1
+        else word_similarity(p_query, c.name)
+      end::real as score
+    from categories c
+    where c.user_id = auth.uid()
+      and p_query <% c.name
+    order by score desc, c.name
+    limit p_limit
+  ),
+  matches as (
+    select * from item_matches
+    union all
+    select * from container_matches
+    union all
+    select * from category_matches
+  )
+  select *
+  from matches
+  order by score desc, name
+  limit p_limit;
+$$;
+
+-- Add comment explaining function purpose
+comment on function suggest_inventory is 'Typo-tolerant autocomplete over the authenticated user''s item, container and category names. Returns the top p_limit matches with the related container.';
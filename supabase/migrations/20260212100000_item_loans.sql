@@ -0,0 +1,261 @@
+-- =====================================================
+-- Migration: Item Loans (Check-out / Check-in History)
+-- Created: 2026-02-12
+-- Description: Records every check-out and check-in of an item, including:
+--   - item_loans table (borrower, due date, notes, timestamps)
+--   - sync_item_loans trigger keeping loans in line with items.is_in
+--   - checkout_item / checkin_item functions (atomic status changes)
+--   - backfill of open loans for items currently checked out
+-- =====================================================
+
+-- =====================================================
+-- 1. TABLES
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 item_loans
+-- One row per check-out; checked_in_at is set when the item returns.
+-- An item is checked out (is_in = false) exactly while it has an
+-- open loan (checked_in_at is null).
+-- -----------------------------------------------------
+create table item_loans (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references profiles(id) on delete cascade on update cascade,
+  item_id uuid not null references items(id) on delete cascade,
+  borrower varchar(255) check (length(trim(borrower)) >= 1),
+  due_date date,
+  note text check (length(note) <= 1000),
+  checked_out_at timestamptz not null default now(),
+  checked_in_at timestamptz check (checked_in_at >= checked_out_at),
+  return_note text check (length(return_note) <= 1000),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Enable Row Level Security
+alter table item_loans enable row level security;
+
+-- Add comments explaining table purpose and columns
+comment on table item_loans is 'Check-out / check-in history of items. One row per check-out; an open loan (checked_in_at IS NULL) means the item is currently out. Deleted together with the item.';
+comment on column item_loans.borrower is 'Optional name of the person who took the item.';
+comment on column item_loans.due_date is 'Optional date the item is expected back.';
+comment on column item_loans.note is 'Optional note recorded at check-out.';
+comment on column item_loans.checked_in_at is 'When the item was checked back in. NULL while the item is out.';
+comment on column item_loans.return_note is 'Optional note recorded at check-in.';
+
+-- =====================================================
+-- 2. INDEXES
+-- =====================================================
+
+-- Foreign key indexes
+create index idx_item_loans_user_id on item_loans(user_id);
+
+-- Item history, newest first
+create index idx_item_loans_item_checked_out on item_loans(item_id, checked_out_at desc);
+
+-- At most one open loan per item
+create unique index idx_item_loans_item_open_unique on item_loans(item_id) where checked_in_at is null;
+
+-- =====================================================
+-- 3. FUNCTIONS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 3.1 Function to keep loans in line with items.is_in
+-- Covers status changes made outside checkout_item / checkin_item
+-- (e.g. PATCH /api/items/:id with isIn, or creating an item that is
+-- already out): opens a loan without details, or closes the open one.
+-- checkout_item / checkin_item write the loan first, so this is a no-op
+-- for them.
+-- -----------------------------------------------------
+create or replace function sync_item_loans()
+returns trigger as $$
+begin
+  if not new.is_in and (tg_op = 'INSERT' or old.is_in) then
+    insert into item_loans (user_id, item_id)
+    select new.user_id, new.id
+    where not exists (
+      select 1 from item_loans where item_id = new.id and checked_in_at is null
+    );
+  elsif new.is_in and tg_op = 'UPDATE' and not old.is_in then
+    update item_loans
+    set checked_in_at = now()
+    where item_id = new.id
+      and checked_in_at is null;
+  end if;
+
+  return null;
+end;
+$$ language plpgsql;
+
+-- Add comment explaining function purpose
+comment on function sync_item_loans is 'Trigger function opening or closing item_loans rows when items.is_in changes outside the check-out/check-in functions.';
+
+-- -----------------------------------------------------
+-- 3.2 Function to check an item out
+-- Locks the item row so concurrent check-outs of the same item
+-- cannot both succeed.
+-- Runs as the caller (security invoker), so RLS policies apply.
+-- -----------------------------------------------------
+create or replace function checkout_item(
+  p_item_id uuid,
+  p_borrower text default null,
+  p_due_date date default null,
+  p_note text default null
+)
+returns item_loans
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  item_is_in boolean;
+  loan item_loans;
+begin
+  select is_in
+  into item_is_in
+  from items
+  where id = p_item_id
+    and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Item not found'
+      using errcode = 'P0002';
+  end if;
+
+  if not item_is_in then
+    raise exception 'Item is already checked out'
+      using errcode = '55000';
+  end if;
+
+  insert into item_loans (user_id, item_id, borrower, due_date, note)
+  values (auth.uid(), p_item_id, p_borrower, p_due_date, p_note)
+  returning * into loan;
+
+  update items
+  set is_in = false
+  where id = p_item_id;
+
+  return loan;
+end;
+$$;
+
+-- Add comment explaining function purpose
+comment on function checkout_item is 'Atomically opens a loan for an item that is in storage and sets items.is_in to false. Returns the new loan.';
+
+-- -----------------------------------------------------
+-- 3.3 Function to check an item back in
+-- Closes the open loan and sets the item back in storage.
+-- Runs as the caller (security invoker), so RLS policies apply.
+-- -----------------------------------------------------
+create or replace function checkin_item(
+  p_item_id uuid,
+  p_note text default null
+)
+returns item_loans
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  item_is_in boolean;
+  loan item_loans;
+begin
+  select is_in
+  into item_is_in
+  from items
+  where id = p_item_id
+    and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Item not found'
+      using errcode = 'P0002';
+  end if;
+
+  if item_is_in then
+    raise exception 'Item is not checked out'
+      using errcode = '55000';
+  end if;
+
+  update item_loans
+  set checked_in_at = now(),
+      return_note = p_note
+  where item_id = p_item_id
+    and checked_in_at is null
+  returning * into loan;
+
+  update items
+  set is_in = true
+  where id = p_item_id;
+
+  return loan;
+end;
+$$;
+
+-- Add comment explaining function purpose
+comment on function checkin_item is 'Atomically closes the open loan of a checked-out item and sets items.is_in to true. Returns the closed loan.';
+
+-- =====================================================
+-- 4. TRIGGERS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 4.1 Trigger for automatic updated_at timestamp updates
+-- -----------------------------------------------------
+create trigger update_item_loans_updated_at
+  before update on item_loans
+  for each row
+  execute function update_updated_at_column();
+
+-- -----------------------------------------------------
+-- 4.2 Trigger keeping loans in line with items.is_in
+-- -----------------------------------------------------
+create trigger sync_item_loans
+  after insert or update of is_in on items
+  for each row
+  execute function sync_item_loans();
+
+-- =====================================================
+-- 5. DATA BACKFILL
+-- =====================================================
+
+-- Items already checked out get an open loan without details.
+-- The last update is the best available guess for when they left.
+insert into item_loans (user_id, item_id, checked_out_at)
+select user_id, id, updated_at
+from items
+where not is_in;
+
+-- =====================================================
+-- 6. ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 6.1 Item Loans Table Policies
+-- Users can only access loans of their own items
+-- -----------------------------------------------------
+
+-- SELECT: Users can view their own loans
+create policy "Users can view own item loans"
+  on item_loans for select
+  using (auth.uid() = user_id);
+
+-- INSERT: Users can insert their own loans
+-- WITH CHECK ensures user_id matches authenticated user
+create policy "Users can insert own item loans"
+  on item_loans for insert
+  with check (auth.uid() = user_id);
+
+-- UPDATE: Users can update their own loans
+-- Both USING and WITH CHECK ensure ownership
+create policy "Users can update own item loans"
+  on item_loans for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- DELETE: Users can delete their own loans
+create policy "Users can delete own item loans"
+  on item_loans for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,19 @@
+-- =====================================================
+-- Migration: Overdue Loans
+-- Created: 2026-02-14
+-- Description: Supports listing items that are currently checked out
+--   ordered by due date, including:
+--   - partial index on open loans per user and due date
+-- =====================================================
+
+-- =====================================================
+-- 1. INDEXES
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 Open loans by due date
+-- Only open loans (items currently out) are indexed, so the index
+-- stays small as the history grows. Serves the checked-out list
+-- (ordered by due date) and the overdue filter (due_date < today).
+-- -----------------------------------------------------
+create index idx_item_loans_user_open_due on item_loans(user_id, due_date) where checked_in_at is null;
@@ -0,0 +1,133 @@
+-- =====================================================
+-- Migration: Item Movements (Relocation History)
+-- Created: 2026-02-16
+-- Description: Records every container change of an item, including:
+--   - item_movements table (from, to, when, optional reason)
+--   - record_item_movement trigger on items.container_id
+-- =====================================================
+
+-- =====================================================
+-- 1. TABLES
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 item_movements
+-- One row per container change. Container names are copied at the
+-- time of the move, so the history stays readable after a former
+-- container is renamed or deleted.
+-- -----------------------------------------------------
+create table item_movements (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references profiles(id) on delete cascade on update cascade,
+  item_id uuid not null references items(id) on delete cascade,
+  from_container_id uuid references containers(id) on delete set null,
+  from_container_name varchar(255) not null,
+  to_container_id uuid references containers(id) on delete set null,
+  to_container_name varchar(255) not null,
+  reason text check (length(reason) <= 500),
+  moved_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+-- Enable Row Level Security
+alter table item_movements enable row level security;
+
+-- Add comments explaining table purpose and columns
+comment on table item_movements is 'Relocation history of items. One row per container change, recorded by the record_item_movement trigger. Deleted together with the item.';
+comment on column item_movements.from_container_id is 'Container the item was moved out of. Set to NULL if that container is deleted later; from_container_name keeps its name.';
+comment on column item_movements.to_container_id is 'Container the item was moved into. Set to NULL if that container is deleted later; to_container_name keeps its name.';
+comment on column item_movements.reason is 'Optional reason for the move, added by the application after the update.';
+
+-- =====================================================
+-- 2. INDEXES
+-- =====================================================
+
+-- Foreign key indexes (also serve ON DELETE SET NULL)
+create index idx_item_movements_from_container_id on item_movements(from_container_id);
+create index idx_item_movements_to_container_id on item_movements(to_container_id);
+
+-- Item history, newest first
+create index idx_item_movements_item_moved on item_movements(item_id, moved_at desc);
+
+-- Recently moved feed within user scope
+create index idx_item_movements_user_moved on item_movements(user_id, moved_at desc);
+
+-- =====================================================
+-- 3. FUNCTIONS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 3.1 Function to record a container change
+-- Runs for every change of items.container_id, whichever code path
+-- makes it, so the history cannot be skipped.
+-- -----------------------------------------------------
+create or replace function record_item_movement()
+returns trigger as $$
+begin
+  insert into item_movements (
+    user_id,
+    item_id,
+    from_container_id,
+    from_container_name,
+    to_container_id,
+    to_container_name
+  )
+  select
+    new.user_id,
+    new.id,
+    old.container_id,
+    from_container.name,
+    new.container_id,
+    to_container.name
+  from containers from_container, containers to_container
+  where from_container.id = old.container_id
+    and to_container.id = new.container_id;
+
+  return null;
+end;
+$$ language plpgsql;
+
+-- Add comment explaining function purpose
+comment on function record_item_movement is 'Trigger function inserting an item_movements row with the old and new container when items.container_id changes.';
+
+-- =====================================================
+-- 4. TRIGGERS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 4.1 Trigger recording container changes
+-- -----------------------------------------------------
+create trigger record_item_movement
+  after update of container_id on items
+  for each row
+  when (old.container_id is distinct from new.container_id)
+  execute function record_item_movement();
+
+-- =====================================================
+-- 5. ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 5.1 Item Movements Table Policies
+-- Users can only access movements of their own items.
+-- There is no DELETE policy: history is only removed together
+-- with the item (ON DELETE CASCADE).
+-- -----------------------------------------------------
+
+-- SELECT: Users can view their own movements
+create policy "Users can view own item movements"
+  on item_movements for select
+  using (auth.uid() = user_id);
+
+-- INSERT: Users can insert their own movements
+-- WITH CHECK ensures user_id matches authenticated user
+create policy "Users can insert own item movements"
+  on item_movements for insert
+  with check (auth.uid() = user_id);
+
+-- UPDATE: Users can update their own movements (used to add the reason)
+-- Both USING and WITH CHECK ensure ownership
+create policy "Users can update own item movements"
+  on item_movements for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
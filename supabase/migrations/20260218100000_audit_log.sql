@@ -0,0 +1,168 @@
+-- =====================================================
+-- Migration: Audit Log
+-- Created: 2026-02-18
+-- Description: Records every insert, update and delete on user data
+--   (items, containers, categories, images), including:
+--   - audit_log table (actor, timestamp, JSON diff of changed columns)
+--   - record_audit_log trigger function (security definer)
+--   - audit triggers on items, containers, categories and images
+-- =====================================================
+
+-- =====================================================
+-- 1. TABLES
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 audit_log
+-- Append-only: rows are written by triggers only. Users can read
+-- the log of their own data but cannot insert, change or delete it.
+-- -----------------------------------------------------
+create table audit_log (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references profiles(id) on delete cascade on update cascade,
+  actor_id uuid,
+  entity_type text not null check (entity_type in ('item', 'container', 'category', 'image')),
+  entity_id uuid not null,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  changes jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+-- Enable Row Level Security
+alter table audit_log enable row level security;
+
+-- Add comments explaining table purpose and columns
+comment on table audit_log is 'Append-only audit trail of inserts, updates and deletes on items, containers, categories and images. Written by the record_audit_log trigger.';
+comment on column audit_log.user_id is 'Owner of the changed row. The log is removed together with the user profile.';
+comment on column audit_log.actor_id is 'Authenticated user who made the change (auth.uid()). NULL for changes made outside a user session, e.g. migrations or the service role.';
+comment on column audit_log.entity_id is 'ID of the changed row. No FK constraint - the row may have been deleted.';
+comment on column audit_log.changes is 'Changed columns as {"column": {"old": value, "new": value}}. old is null on insert, new is null on delete. id, user_id, timestamps and generated columns are omitted.';
+
+-- =====================================================
+-- 2. INDEXES
+-- =====================================================
+
+-- Activity feed within user scope, newest first
+create index idx_audit_log_user_created on audit_log(user_id, created_at desc);
+
+-- Activity feed filtered by entity type
+create index idx_audit_log_user_entity_created on audit_log(user_id, entity_type, created_at desc);
+
+-- History of a single row
+create index idx_audit_log_entity on audit_log(entity_type, entity_id, created_at desc);
+
+-- =====================================================
+-- 3. FUNCTIONS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 3.1 Function to write one audit entry per changed row
+-- TG_ARGV[0] is the entity type recorded for the table.
+-- Runs as the function owner (security definer) so it can write to
+-- audit_log, which has no insert policy for users.
+-- Updates that change no audited column (e.g. only updated_at) are
+-- not logged. Changes cascading from a deleted profile are not
+-- logged either, since the log itself is removed with the profile.
+-- -----------------------------------------------------
+create or replace function record_audit_log()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ignored_columns constant text[] := array['id', 'user_id', 'created_at', 'updated_at', 'search_vector'];
+  old_row jsonb;
+  new_row jsonb;
+  owner_id uuid;
+  row_id uuid;
+  diff jsonb;
+begin
+  if tg_op <> 'INSERT' then
+    old_row := to_jsonb(old);
+  end if;
+
+  if tg_op <> 'DELETE' then
+    new_row := to_jsonb(new);
+  end if;
+
+  owner_id := (coalesce(new_row, old_row) ->> 'user_id')::uuid;
+  row_id := (coalesce(new_row, old_row) ->> 'id')::uuid;
+
+  -- Owner is being deleted: its audit log is deleted with it
+  if not exists (select 1 from profiles where id = owner_id) then
+    return null;
+  end if;
+
+  old_row := old_row - ignored_columns;
+  new_row := new_row - ignored_columns;
+
+  select coalesce(
+    jsonb_object_agg(column_name, jsonb_build_object('old', old_row -> column_name, 'new', new_row -> column_name)),
+    '{}'::jsonb
+  )
+  into diff
+  from jsonb_object_keys(coalesce(new_row, old_row)) as column_name
+  where (old_row -> column_name) is distinct from (new_row -> column_name);
+
+  if tg_op = 'UPDATE' and diff = '{}'::jsonb then
+    return null;
+  end if;
+
+  insert into audit_log (user_id, actor_id, entity_type, entity_id, action, changes)
+  values (owner_id, auth.uid(), tg_argv[0], row_id, lower(tg_op), diff);
+
+  return null;
+end;
+$$;
+
+-- Add comment explaining function purpose
+comment on function record_audit_log is 'Trigger function writing an audit_log row with the actor and a JSON diff of the changed columns. Argument: entity type of the table.';
+
+-- =====================================================
+-- 4. TRIGGERS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 4.1 Audit triggers on user data tables
+-- -----------------------------------------------------
+
+-- Items table trigger
+create trigger audit_items
+  after insert or update or delete on items
+  for each row
+  execute function record_audit_log('item');
+
+-- Containers table trigger
+create trigger audit_containers
+  after insert or update or delete on containers
+  for each row
+  execute function record_audit_log('container');
+
+-- Categories table trigger
+create trigger audit_categories
+  after insert or update or delete on categories
+  for each row
+  execute function record_audit_log('category');
+
+-- Images table trigger
+create trigger audit_images
+  after insert or update or delete on images
+  for each row
+  execute function record_audit_log('image');
+
+-- =====================================================
+-- 5. ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 5.1 Audit Log Table Policies
+-- Users can only read the audit log of their own data.
+-- There are no INSERT, UPDATE or DELETE policies: entries are written
+-- by the security definer trigger function only.
+-- -----------------------------------------------------
+
+-- SELECT: Users can view their own audit log
+create policy "Users can view own audit log"
+  on audit_log for select
+  using (auth.uid() = user_id);
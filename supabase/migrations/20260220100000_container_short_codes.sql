@@ -0,0 +1,69 @@
+-- =====================================================
+-- Migration: Container Short Codes
+-- Created: 2026-02-20
+-- Description: Short, random codes printed on container labels, including:
+--   - pgcrypto extension (random bytes)
+--   - generate_short_code function
+--   - containers.short_code column (backfilled for existing rows)
+-- =====================================================
+
+-- =====================================================
+-- 1. EXTENSIONS
+-- =====================================================
+
+-- Cryptographically secure random bytes for short codes
+create extension if not exists pgcrypto with schema extensions;
+
+-- =====================================================
+-- 2. FUNCTIONS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 2.1 Function to generate a random short code
+-- 10 characters from a 32-character alphabet (50 random bits).
+-- The alphabet leaves out 0, 1, I and O, which are easily
+-- confused when a code is read off a printed label.
+-- -----------------------------------------------------
+create or replace function generate_short_code()
+returns text
+language plpgsql
+volatile
+set search_path = public, extensions
+as $$
+declare
+  alphabet constant text := '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+  random_bytes bytea := gen_random_bytes(10);
+  code text := '';
+begin
+  for i in 0..9 loop
+    code := code || substr(alphabet, (get_byte(random_bytes, i) % 32) + 1, 1);
+  end loop;
+
+  return code;
+end;
+$$;
+
+-- Add comment explaining function purpose
+comment on function generate_short_code is 'Returns a random 10-character code (alphabet without 0, 1, I, O) for printed labels.';
+
+-- =====================================================
+-- 3. COLUMNS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 3.1 containers.short_code
+-- The volatile default is evaluated per row, so existing
+-- containers each get their own code.
+-- -----------------------------------------------------
+alter table containers
+  add column short_code text not null default generate_short_code()
+  check (short_code ~ '^[2-9A-HJ-NP-Z]{10}$');
+
+comment on column containers.short_code is 'Random code printed on the container label. Stable for the lifetime of the container.';
+
+-- =====================================================
+-- 4. INDEXES
+-- =====================================================
+
+-- Codes are unique across all users (one code identifies one container)
+create unique index idx_containers_short_code on containers(short_code);
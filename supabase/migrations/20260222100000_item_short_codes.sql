@@ -0,0 +1,30 @@
+-- =====================================================
+-- Migration: Item Short Codes
+-- Created: 2026-02-22
+-- Description: Short, random codes for scan-to-open links, including:
+--   - items.short_code column (backfilled for existing rows)
+--   Containers received their codes in 20260220100000_container_short_codes.
+--   Links: /c/:code opens a container, /i/:code opens an item.
+-- =====================================================
+
+-- =====================================================
+-- 1. COLUMNS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 items.short_code
+-- The volatile default is evaluated per row, so existing
+-- items each get their own code.
+-- -----------------------------------------------------
+alter table items
+  add column short_code text not null default generate_short_code()
+  check (short_code ~ '^[2-9A-HJ-NP-Z]{10}$');
+
+comment on column items.short_code is 'Random code used in the /i/:code link. Stable for the lifetime of the item.';
+
+-- =====================================================
+-- 2. INDEXES
+-- =====================================================
+
+-- Codes are unique across all users (one code identifies one item)
+create unique index idx_items_short_code on items(short_code);
@@ -0,0 +1,28 @@
+-- =====================================================
+-- Migration: Item Barcodes
+-- Created: 2026-02-24
+-- Description: Optional manufacturer barcode on items, including:
+--   - items.barcode column (UPC, EAN, GTIN or any other printed code)
+--   - per-user index for scan-to-find lookups
+-- =====================================================
+
+-- =====================================================
+-- 1. COLUMNS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 items.barcode
+-- Stored as entered (trimmed, no whitespace). Not unique: the same
+-- product can be stored in several containers.
+-- -----------------------------------------------------
+alter table items
+  add column barcode text check (barcode ~ '^\S{1,64}$');
+
+comment on column items.barcode is 'Optional manufacturer barcode (UPC, EAN, GTIN or other). Numeric codes are matched ignoring leading zeros, so UPC-A and EAN-13 forms of a product find each other.';
+
+-- =====================================================
+-- 2. INDEXES
+-- =====================================================
+
+-- Barcode lookup within user scope (partial: most items have no barcode)
+create index idx_items_user_barcode on items(user_id, barcode) where barcode is not null;
@@ -0,0 +1,99 @@
+-- =====================================================
+-- Migration: Item Import
+-- Created: 2026-02-26
+-- Description: All-or-nothing bulk import of items, including:
+--   - import_items function (creates missing categories and
+--     containers by name, then inserts the items)
+-- =====================================================
+
+-- =====================================================
+-- 1. FUNCTIONS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 Function to import validated item rows
+-- p_rows is a JSON array of objects with the keys name, description,
+-- category, container, quantity, is_in and barcode. category and
+-- container are names, matched case-insensitively (like
+-- idx_categories_user_name_unique); missing ones are created, new
+-- containers at the top level.
+-- Runs in a single transaction: if any row fails, nothing is imported.
+-- Security invoker: RLS policies apply to all inserts.
+-- -----------------------------------------------------
+create or replace function import_items(p_rows jsonb)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_ambiguous text;
+  v_count integer;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  -- Step 1: Create missing categories (first spelling wins)
+  insert into categories (user_id, name)
+  select distinct on (lower(r ->> 'category')) v_user_id, r ->> 'category'
+  from jsonb_array_elements(p_rows) with ordinality as rows(r, position)
+  order by lower(r ->> 'category'), position
+  on conflict (user_id, lower(name)) do nothing;
+
+  -- Step 2: Create missing containers (first spelling wins)
+  insert into containers (user_id, name)
+  select distinct on (lower(r ->> 'container')) v_user_id, r ->> 'container'
+  from jsonb_array_elements(p_rows) with ordinality as rows(r, position)
+  where not exists (
+    select 1
+    from containers c
+    where c.user_id = v_user_id
+      and lower(c.name) = lower(r ->> 'container')
+  )
+  order by lower(r ->> 'container'), position;
+
+  -- Step 3: Container names are not unique, so reject ambiguous names
+  select min(c.name)
+  into v_ambiguous
+  from containers c
+  where c.user_id = v_user_id
+    and lower(c.name) in (select lower(r ->> 'container') from jsonb_array_elements(p_rows) as r)
+  group by lower(c.name)
+  having count(*) > 1
+  limit 1;
+
+  if v_ambiguous is not null then
+    raise exception 'Container name "%" matches more than one container', v_ambiguous
+      using errcode = '21000';
+  end if;
+
+  -- Step 4: Insert items in file order
+  insert into items (user_id, name, description, category_id, container_id, is_in, quantity, barcode)
+  select
+    v_user_id,
+    r ->> 'name',
+    r ->> 'description',
+    category.id,
+    container.id,
+    coalesce((r ->> 'is_in')::boolean, true),
+    (r ->> 'quantity')::integer,
+    r ->> 'barcode'
+  from jsonb_array_elements(p_rows) with ordinality as rows(r, position)
+  join categories category
+    on category.user_id = v_user_id
+    and lower(category.name) = lower(r ->> 'category')
+  join containers container
+    on container.user_id = v_user_id
+    and lower(container.name) = lower(r ->> 'container')
+  order by position;
+
+  get diagnostics v_count = row_count;
+
+  return v_count;
+end;
+$$;
+
+-- Add comment explaining function purpose
+comment on function import_items is 'Imports item rows in one transaction. Creates missing categories and top-level containers by case-insensitive name. Raises 21000 if a container name is ambiguous. Returns the number of imported items.';
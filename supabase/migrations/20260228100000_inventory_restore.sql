@@ -0,0 +1,168 @@
+-- =====================================================
+-- Migration: Inventory Restore
+-- Created: 2026-02-28
+-- Description: Rebuilds an inventory from a backup archive, including:
+--   - restore_inventory function (inserts sites, rooms, categories,
+--     containers and items with new IDs in one transaction)
+-- =====================================================
+
+-- =====================================================
+-- 1. FUNCTIONS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 Function to restore an inventory backup
+-- p_inventory is the inventory.json document of a backup archive
+-- (InventoryExportDTO, version 1). Every entity gets a new ID; references
+-- between entities are remapped. Names, descriptions and timestamps are
+-- kept. Short codes are kept so printed labels keep working, unless a
+-- code is already taken on this instance, in which case a new one is
+-- generated.
+-- Images are not part of this function: their files are uploaded by the
+-- application, which then inserts the image rows using the returned IDs.
+-- The inventory must be empty. Runs in a single transaction: if any row
+-- fails, nothing is restored.
+-- Security invoker: RLS policies apply to all inserts.
+-- -----------------------------------------------------
+create or replace function restore_inventory(p_inventory jsonb)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  -- Step 1: Refuse to mix a backup into existing data
+  if exists (select 1 from sites where user_id = v_user_id)
+    or exists (select 1 from categories where user_id = v_user_id)
+    or exists (select 1 from containers where user_id = v_user_id) then
+    raise exception 'Inventory must be empty to restore a backup' using errcode = '55000';
+  end if;
+
+  -- Step 2: Assign new IDs (duplicate IDs in the backup violate the key)
+  create temporary table restore_id_map (
+    entity text not null,
+    old_id uuid not null,
+    new_id uuid not null default gen_random_uuid(),
+    primary key (entity, old_id)
+  ) on commit drop;
+
+  insert into restore_id_map (entity, old_id)
+  select 'site', (e ->> 'id')::uuid from jsonb_array_elements(p_inventory -> 'sites') as e
+  union all
+  select 'room', (e ->> 'id')::uuid from jsonb_array_elements(p_inventory -> 'rooms') as e
+  union all
+  select 'category', (e ->> 'id')::uuid from jsonb_array_elements(p_inventory -> 'categories') as e
+  union all
+  select 'container', (e ->> 'id')::uuid from jsonb_array_elements(p_inventory -> 'containers') as e
+  union all
+  select 'item', (e ->> 'id')::uuid from jsonb_array_elements(p_inventory -> 'items') as e;
+
+  -- Step 3: Sites, rooms and categories
+  insert into sites (id, user_id, name, created_at, updated_at)
+  select m.new_id, v_user_id, e ->> 'name', (e ->> 'createdAt')::timestamptz, (e ->> 'updatedAt')::timestamptz
+  from jsonb_array_elements(p_inventory -> 'sites') as e
+  join restore_id_map m on m.entity = 'site' and m.old_id = (e ->> 'id')::uuid;
+
+  insert into rooms (id, user_id, site_id, name, created_at, updated_at)
+  select m.new_id, v_user_id, site.new_id, e ->> 'name', (e ->> 'createdAt')::timestamptz, (e ->> 'updatedAt')::timestamptz
+  from jsonb_array_elements(p_inventory -> 'rooms') as e
+  join restore_id_map m on m.entity = 'room' and m.old_id = (e ->> 'id')::uuid
+  left join restore_id_map site on site.entity = 'site' and site.old_id = (e ->> 'siteId')::uuid;
+
+  insert into categories (id, user_id, name, created_at, updated_at)
+  select m.new_id, v_user_id, e ->> 'name', (e ->> 'createdAt')::timestamptz, (e ->> 'updatedAt')::timestamptz
+  from jsonb_array_elements(p_inventory -> 'categories') as e
+  join restore_id_map m on m.entity = 'category' and m.old_id = (e ->> 'id')::uuid;
+
+  -- Step 4: Containers, level by level (parents before children, as
+  -- required by enforce_container_hierarchy)
+  create temporary table restore_containers on commit drop as
+  select
+    m.new_id as id,
+    parent.new_id as parent_id,
+    (e ->> 'parentId') is not null as has_parent,
+    room.new_id as room_id,
+    e ->> 'name' as name,
+    e ->> 'description' as description,
+    e ->> 'shortCode' as short_code,
+    (e ->> 'createdAt')::timestamptz as created_at,
+    (e ->> 'updatedAt')::timestamptz as updated_at,
+    'pending'::text as state
+  from jsonb_array_elements(p_inventory -> 'containers') as e
+  join restore_id_map m on m.entity = 'container' and m.old_id = (e ->> 'id')::uuid
+  left join restore_id_map parent on parent.entity = 'container' and parent.old_id = (e ->> 'parentId')::uuid
+  left join restore_id_map room on room.entity = 'room' and room.old_id = (e ->> 'roomId')::uuid;
+
+  loop
+    update restore_containers
+    set state = 'level'
+    where state = 'pending'
+      and (not has_parent or parent_id in (select id from restore_containers where state = 'done'));
+
+    exit when not found;
+
+    insert into containers (id, user_id, parent_id, room_id, name, description, short_code, created_at, updated_at)
+    select id, v_user_id, parent_id, room_id, name, description, short_code, created_at, updated_at
+    from restore_containers
+    where state = 'level'
+    on conflict do nothing;
+
+    -- Short codes already taken on this instance get a new code
+    insert into containers (id, user_id, parent_id, room_id, name, description, created_at, updated_at)
+    select rc.id, v_user_id, rc.parent_id, rc.room_id, rc.name, rc.description, rc.created_at, rc.updated_at
+    from restore_containers rc
+    where rc.state = 'level'
+      and not exists (select 1 from containers c where c.id = rc.id);
+
+    update restore_containers set state = 'done' where state = 'level';
+  end loop;
+
+  if exists (select 1 from restore_containers where state = 'pending') then
+    raise exception 'Backup contains containers whose parent is missing or circular' using errcode = '22023';
+  end if;
+
+  -- Step 5: Items (keeping short codes where possible, like containers)
+  create temporary table restore_items on commit drop as
+  select
+    m.new_id as id,
+    category.new_id as category_id,
+    container.new_id as container_id,
+    e ->> 'name' as name,
+    e ->> 'description' as description,
+    e ->> 'shortCode' as short_code,
+    e ->> 'barcode' as barcode,
+    coalesce((e ->> 'isIn')::boolean, true) as is_in,
+    (e ->> 'quantity')::integer as quantity,
+    (e ->> 'createdAt')::timestamptz as created_at,
+    (e ->> 'updatedAt')::timestamptz as updated_at
+  from jsonb_array_elements(p_inventory -> 'items') as e
+  join restore_id_map m on m.entity = 'item' and m.old_id = (e ->> 'id')::uuid
+  left join restore_id_map category on category.entity = 'category' and category.old_id = (e ->> 'categoryId')::uuid
+  left join restore_id_map container on container.entity = 'container' and container.old_id = (e ->> 'containerId')::uuid;
+
+  insert into items (id, user_id, category_id, container_id, name, description, short_code, barcode, is_in, quantity, created_at, updated_at)
+  select id, v_user_id, category_id, container_id, name, description, short_code, barcode, is_in, quantity, created_at, updated_at
+  from restore_items
+  on conflict do nothing;
+
+  insert into items (id, user_id, category_id, container_id, name, description, barcode, is_in, quantity, created_at, updated_at)
+  select ri.id, v_user_id, ri.category_id, ri.container_id, ri.name, ri.description, ri.barcode, ri.is_in, ri.quantity, ri.created_at, ri.updated_at
+  from restore_items ri
+  where not exists (select 1 from items i where i.id = ri.id);
+
+  -- Step 6: Return the new IDs of entities that can have images
+  return jsonb_build_object(
+    'container', coalesce((select jsonb_object_agg(old_id, new_id) from restore_id_map where entity = 'container'), '{}'::jsonb),
+    'item', coalesce((select jsonb_object_agg(old_id, new_id) from restore_id_map where entity = 'item'), '{}'::jsonb)
+  );
+end;
+$$;
+
+-- Add comment explaining function purpose
+comment on function restore_inventory is 'Restores sites, rooms, categories, containers and items of a backup into an empty inventory in one transaction, with new IDs. Keeps short codes unless taken. Raises 55000 if the inventory is not empty and 22023 for broken container references. Returns {container: {oldId: newId}, item: {oldId: newId}} for re-attaching images.';
@@ -0,0 +1,188 @@
+-- =====================================================
+-- Migration: Item Tags
+-- Created: 2026-03-02
+-- Description: Adds free-form labels for items, including:
+--   - tags table (user-scoped, case-insensitive unique names)
+--   - item_tags join table (many-to-many between items and tags)
+--   - set_item_tags function (atomic replacement of an item's tags)
+-- =====================================================
+
+-- =====================================================
+-- 1. TABLES
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 tags
+-- Labels an item can carry any number of, unlike its single category.
+-- -----------------------------------------------------
+create table tags (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references profiles(id) on delete cascade on update cascade,
+  name varchar(50) not null check (length(trim(name)) >= 1 and length(name) <= 50),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Enable Row Level Security
+alter table tags enable row level security;
+
+-- Add comment explaining table purpose
+comment on table tags is 'Free-form labels for items. Each user can define their own tags with case-insensitive unique names. An item can carry any number of tags.';
+
+-- -----------------------------------------------------
+-- 1.2 item_tags
+-- One row per tag assigned to an item. Rows are removed together with
+-- the item or the tag.
+-- -----------------------------------------------------
+create table item_tags (
+  item_id uuid not null references items(id) on delete cascade,
+  tag_id uuid not null references tags(id) on delete cascade,
+  user_id uuid not null references profiles(id) on delete cascade on update cascade,
+  created_at timestamptz not null default now(),
+  primary key (item_id, tag_id)
+);
+
+-- Enable Row Level Security
+alter table item_tags enable row level security;
+
+-- Add comments explaining table purpose and columns
+comment on table item_tags is 'Many-to-many assignment of tags to items. Deleted together with the item or the tag.';
+comment on column item_tags.user_id is 'Owner of the item and the tag; denormalized for RLS.';
+
+-- =====================================================
+-- 2. INDEXES
+-- =====================================================
+
+-- Foreign key indexes
+create index idx_tags_user_id on tags(user_id);
+create index idx_item_tags_user_id on item_tags(user_id);
+
+-- Items carrying a tag (tag filters on the items list, item counts)
+-- item_id lookups use the primary key
+create index idx_item_tags_tag_id on item_tags(tag_id);
+
+-- Case-insensitive unique tag names per user
+-- Same rule as idx_categories_user_name_unique
+create unique index idx_tags_user_name_unique on tags(user_id, lower(name));
+
+-- =====================================================
+-- 3. FUNCTIONS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 3.1 Function to replace the tags of an item
+-- p_tag_ids is the complete new set; tags not in it are removed.
+-- Tags that do not belong to the caller are ignored (the application
+-- validates them first).
+-- Runs as the caller (security invoker), so RLS policies apply.
+-- -----------------------------------------------------
+create or replace function set_item_tags(
+  p_item_id uuid,
+  p_tag_ids uuid[]
+)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  perform 1
+  from items
+  where id = p_item_id
+    and user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'Item not found'
+      using errcode = 'P0002';
+  end if;
+
+  delete from item_tags
+  where item_id = p_item_id
+    and tag_id <> all (p_tag_ids);
+
+  insert into item_tags (item_id, tag_id, user_id)
+  select p_item_id, t.id, v_user_id
+  from tags t
+  where t.id = any (p_tag_ids)
+    and t.user_id = v_user_id
+  on conflict do nothing;
+end;
+$$;
+
+-- Add comment explaining function purpose
+comment on function set_item_tags is 'Atomically replaces the tags of an item with p_tag_ids, ignoring tags of other users. Raises P0002 if the item does not exist.';
+
+-- =====================================================
+-- 4. TRIGGERS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 4.1 Trigger for automatic updated_at timestamp updates
+-- -----------------------------------------------------
+create trigger update_tags_updated_at
+  before update on tags
+  for each row
+  execute function update_updated_at_column();
+
+-- =====================================================
+-- 5. ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 5.1 Tags Table Policies
+-- Users can only access their own tags
+-- -----------------------------------------------------
+
+-- SELECT: Users can view their own tags
+create policy "Users can view own tags"
+  on tags for select
+  using (auth.uid() = user_id);
+
+-- INSERT: Users can insert their own tags
+-- WITH CHECK ensures user_id matches authenticated user
+create policy "Users can insert own tags"
+  on tags for insert
+  with check (auth.uid() = user_id);
+
+-- UPDATE: Users can update their own tags
+-- Both USING and WITH CHECK ensure ownership
+create policy "Users can update own tags"
+  on tags for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- DELETE: Users can delete their own tags
+-- Note: ON DELETE CASCADE removes the tag from all items
+create policy "Users can delete own tags"
+  on tags for delete
+  using (auth.uid() = user_id);
+
+-- -----------------------------------------------------
+-- 5.2 Item Tags Table Policies
+-- Users can only access tag assignments of their own items
+-- -----------------------------------------------------
+
+-- SELECT: Users can view their own tag assignments
+create policy "Users can view own item tags"
+  on item_tags for select
+  using (auth.uid() = user_id);
+
+-- INSERT: Users can insert their own tag assignments
+-- WITH CHECK ensures user_id matches authenticated user
+-- Note: Referenced item_id and tag_id must also belong to user (validated by set_item_tags)
+create policy "Users can insert own item tags"
+  on item_tags for insert
+  with check (auth.uid() = user_id);
+
+-- DELETE: Users can delete their own tag assignments
+-- Assignments are never updated, only inserted and deleted
+create policy "Users can delete own item tags"
+  on item_tags for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,305 @@
+-- =====================================================
+-- Migration: Category Hierarchy
+-- Created: 2026-03-04
+-- Description: Allows categories to be nested under other categories
+--   (e.g. Tools > Power tools), including:
+--   - categories.parent_id self-reference
+--   - enforce_category_hierarchy trigger (ownership, cycles, max depth)
+--   - restore_inventory function keeping category nesting of backups
+-- =====================================================
+
+-- =====================================================
+-- 1. SCHEMA CHANGES
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 Parent category reference
+-- NULL means a top-level category.
+-- ON DELETE RESTRICT prevents deleting categories that still have
+-- subcategories (same rule as items).
+-- -----------------------------------------------------
+alter table categories
+  add column parent_id uuid references categories(id) on delete restrict,
+  add constraint categories_parent_not_self check (parent_id <> id);
+
+-- Update comments to describe the hierarchy
+comment on table categories is 'Logical classification system for items. Each user can define their own categories with case-insensitive unique names. Categories can be nested up to 5 levels deep via parent_id.';
+comment on column categories.parent_id is 'Optional reference to the enclosing category. NULL for top-level categories. ON DELETE RESTRICT prevents deleting categories with subcategories.';
+
+-- =====================================================
+-- 2. INDEXES
+-- =====================================================
+
+-- Subcategory lookup (delete checks)
+create index idx_categories_parent_id on categories(parent_id);
+
+-- =====================================================
+-- 3. FUNCTIONS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 3.1 Function to keep the category hierarchy a valid tree
+-- Same rules as enforce_container_hierarchy: rejects parents owned by
+-- another user, cycles and trees deeper than 5 levels (counting the
+-- moved category's own subtree).
+-- -----------------------------------------------------
+create or replace function enforce_category_hierarchy()
+returns trigger as $$
+declare
+  max_depth constant integer := 5;
+  parent_depth integer;
+  subtree_height integer;
+  creates_cycle boolean;
+begin
+  if new.parent_id is null then
+    return new;
+  end if;
+
+  -- Serialize hierarchy changes per user so two concurrent moves
+  -- cannot create a cycle that neither sees on its own
+  perform pg_advisory_xact_lock(hashtext('categories:' || new.user_id::text));
+
+  -- Parent must exist and belong to the same user
+  if not exists (
+    select 1 from categories where id = new.parent_id and user_id = new.user_id
+  ) then
+    raise exception 'Parent category does not exist or does not belong to user'
+      using errcode = '23503';
+  end if;
+
+  -- Walk up from the new parent; depth 1 is the parent itself
+  with recursive ancestors as (
+    select id, parent_id, 1 as depth
+    from categories
+    where id = new.parent_id
+    union all
+    select c.id, c.parent_id, a.depth + 1
+    from ancestors a
+    join categories c on c.id = a.parent_id
+  )
+  select max(depth), coalesce(bool_or(id = new.id), false)
+  into parent_depth, creates_cycle
+  from ancestors;
+
+  if creates_cycle then
+    raise exception 'Category cannot be placed inside itself or one of its subcategories'
+      using errcode = '23514';
+  end if;
+
+  -- Height of the subtree rooted at this category (1 for a leaf or new row)
+  with recursive subtree as (
+    select id, 1 as depth
+    from categories
+    where parent_id = new.id
+    union all
+    select c.id, s.depth + 1
+    from subtree s
+    join categories c on c.parent_id = s.id
+  )
+  select coalesce(max(depth), 0) + 1
+  into subtree_height
+  from subtree;
+
+  if parent_depth + subtree_height > max_depth then
+    raise exception 'Category nesting cannot exceed % levels', max_depth
+      using errcode = '23514';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+-- Add comment explaining function purpose
+comment on function enforce_category_hierarchy is 'Trigger function validating categories.parent_id: same owner, no cycles, maximum nesting depth of 5 levels.';
+
+-- -----------------------------------------------------
+-- 3.2 Function to restore an inventory backup
+-- Replaces the version from the inventory restore migration: categories
+-- are now inserted level by level with their parentId (optional in the
+-- backup; older backups restore as flat categories). Everything else is
+-- unchanged.
+-- -----------------------------------------------------
+create or replace function restore_inventory(p_inventory jsonb)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  -- Step 1: Refuse to mix a backup into existing data
+  if exists (select 1 from sites where user_id = v_user_id)
+    or exists (select 1 from categories where user_id = v_user_id)
+    or exists (select 1 from containers where user_id = v_user_id) then
+    raise exception 'Inventory must be empty to restore a backup' using errcode = '55000';
+  end if;
+
+  -- Step 2: Assign new IDs (duplicate IDs in the backup violate the key)
+  create temporary table restore_id_map (
+    entity text not null,
+    old_id uuid not null,
+    new_id uuid not null default gen_random_uuid(),
+    primary key (entity, old_id)
+  ) on commit drop;
+
+  insert into restore_id_map (entity, old_id)
+  select 'site', (e ->> 'id')::uuid from jsonb_array_elements(p_inventory -> 'sites') as e
+  union all
+  select 'room', (e ->> 'id')::uuid from jsonb_array_elements(p_inventory -> 'rooms') as e
+  union all
+  select 'category', (e ->> 'id')::uuid from jsonb_array_elements(p_inventory -> 'categories') as e
+  union all
+  select 'container', (e ->> 'id')::uuid from jsonb_array_elements(p_inventory -> 'containers') as e
+  union all
+  select 'item', (e ->> 'id')::uuid from jsonb_array_elements(p_inventory -> 'items') as e;
+
+  -- Step 3: Sites, rooms and categories
+  insert into sites (id, user_id, name, created_at, updated_at)
+  select m.new_id, v_user_id, e ->> 'name', (e ->> 'createdAt')::timestamptz, (e ->> 'updatedAt')::timestamptz
+  from jsonb_array_elements(p_inventory -> 'sites') as e
+  join restore_id_map m on m.entity = 'site' and m.old_id = (e ->> 'id')::uuid;
+
+  insert into rooms (id, user_id, site_id, name, created_at, updated_at)
+  select m.new_id, v_user_id, site.new_id, e ->> 'name', (e ->> 'createdAt')::timestamptz, (e ->> 'updatedAt')::timestamptz
+  from jsonb_array_elements(p_inventory -> 'rooms') as e
+  join restore_id_map m on m.entity = 'room' and m.old_id = (e ->> 'id')::uuid
+  left join restore_id_map site on site.entity = 'site' and site.old_id = (e ->> 'siteId')::uuid;
+
+  -- Categories, level by level (parents before children, as required by
+  -- enforce_category_hierarchy); backups without parentId are flat
+  create temporary table restore_categories on commit drop as
+  select
+    m.new_id as id,
+    parent.new_id as parent_id,
+    (e ->> 'parentId') is not null as has_parent,
+    e ->> 'name' as name,
+    (e ->> 'createdAt')::timestamptz as created_at,
+    (e ->> 'updatedAt')::timestamptz as updated_at,
+    'pending'::text as state
+  from jsonb_array_elements(p_inventory -> 'categories') as e
+  join restore_id_map m on m.entity = 'category' and m.old_id = (e ->> 'id')::uuid
+  left join restore_id_map parent on parent.entity = 'category' and parent.old_id = (e ->> 'parentId')::uuid;
+
+  loop
+    update restore_categories
+    set state = 'level'
+    where state = 'pending'
+      and (not has_parent or parent_id in (select id from restore_categories where state = 'done'));
+
+    exit when not found;
+
+    insert into categories (id, user_id, parent_id, name, created_at, updated_at)
+    select id, v_user_id, parent_id, name, created_at, updated_at
+    from restore_categories
+    where state = 'level';
+
+    update restore_categories set state = 'done' where state = 'level';
+  end loop;
+
+  if exists (select 1 from restore_categories where state = 'pending') then
+    raise exception 'Backup contains categories whose parent is missing or circular' using errcode = '22023';
+  end if;
+
+  -- Step 4: Containers, level by level (parents before children, as
+  -- required by enforce_container_hierarchy)
+  create temporary table restore_containers on commit drop as
+  select
+    m.new_id as id,
+    parent.new_id as parent_id,
+    (e ->> 'parentId') is not null as has_parent,
+    room.new_id as room_id,
+    e ->> 'name' as name,
+    e ->> 'description' as description,
+    e ->> 'shortCode' as short_code,
+    (e ->> 'createdAt')::timestamptz as created_at,
+    (e ->> 'updatedAt')::timestamptz as updated_at,
+    'pending'::text as state
+  from jsonb_array_elements(p_inventory -> 'containers') as e
+  join restore_id_map m on m.entity = 'container' and m.old_id = (e ->> 'id')::uuid
+  left join restore_id_map parent on parent.entity = 'container' and parent.old_id = (e ->> 'parentId')::uuid
+  left join restore_id_map room on room.entity = 'room' and room.old_id = (e ->> 'roomId')::uuid;
+
+  loop
+    update restore_containers
+    set state = 'level'
+    where state = 'pending'
+      and (not has_parent or parent_id in (select id from restore_containers where state = 'done'));
+
+    exit when not found;
+
+    insert into containers (id, user_id, parent_id, room_id, name, description, short_code, created_at, updated_at)
+    select id, v_user_id, parent_id, room_id, name, description, short_code, created_at, updated_at
+    from restore_containers
+    where state = 'level'
+    on conflict do nothing;
+
+    -- Short codes already taken on this instance get a new code
+    insert into containers (id, user_id, parent_id, room_id, name, description, created_at, updated_at)
+    select rc.id, v_user_id, rc.parent_id, rc.room_id, rc.name, rc.description, rc.created_at, rc.updated_at
+    from restore_containers rc
+    where rc.state = 'level'
+      and not exists (select 1 from containers c where c.id = rc.id);
+
+    update restore_containers set state = 'done' where state = 'level';
+  end loop;
+
+  if exists (select 1 from restore_containers where state = 'pending') then
+    raise exception 'Backup contains containers whose parent is missing or circular' using errcode = '22023';
+  end if;
+
+  -- Step 5: Items (keeping short codes where possible, like containers)
+  create temporary table restore_items on commit drop as
+  select
+    m.new_id as id,
+    category.new_id as category_id,
+    container.new_id as container_id,
+    e ->> 'name' as name,
+    e ->> 'description' as description,
+    e ->> 'shortCode' as short_code,
+    e ->> 'barcode' as barcode,
+    coalesce((e ->> 'isIn')::boolean, true) as is_in,
+    (e ->> 'quantity')::integer as quantity,
+    (e ->> 'createdAt')::timestamptz as created_at,
+    (e ->> 'updatedAt')::timestamptz as updated_at
+  from jsonb_array_elements(p_inventory -> 'items') as e
+  join restore_id_map m on m.entity = 'item' and m.old_id = (e ->> 'id')::uuid
+  left join restore_id_map category on category.entity = 'category' and category.old_id = (e ->> 'categoryId')::uuid
+  left join restore_id_map container on container.entity = 'container' and container.old_id = (e ->> 'containerId')::uuid;
+
+  insert into items (id, user_id, category_id, container_id, name, description, short_code, barcode, is_in, quantity, created_at, updated_at)
+  select id, v_user_id, category_id, container_id, name, description, short_code, barcode, is_in, quantity, created_at, updated_at
+  from restore_items
+  on conflict do nothing;
+
+  insert into items (id, user_id, category_id, container_id, name, description, barcode, is_in, quantity, created_at, updated_at)
+  select ri.id, v_user_id, ri.category_id, ri.container_id, ri.name, ri.description, ri.barcode, ri.is_in, ri.quantity, ri.created_at, ri.updated_at
+  from restore_items ri
+  where not exists (select 1 from items i where i.id = ri.id);
+
+  -- Step 6: Return the new IDs of entities that can have images
+  return jsonb_build_object(
+    'container', coalesce((select jsonb_object_agg(old_id, new_id) from restore_id_map where entity = 'container'), '{}'::jsonb),
+    'item', coalesce((select jsonb_object_agg(old_id, new_id) from restore_id_map where entity = 'item'), '{}'::jsonb)
+  );
+end;
+$$;
+
+-- Add comment explaining function purpose
+comment on function restore_inventory is 'Restores sites, rooms, categories (with nesting), containers and items of a backup into an empty inventory in one transaction, with new IDs. Keeps short codes unless taken. Raises 55000 if the inventory is not empty and 22023 for broken category or container references. Returns {container: {oldId: newId}, item: {oldId: newId}} for re-attaching images.';
+
+-- =====================================================
+-- 4. TRIGGERS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 4.1 Trigger to validate the hierarchy on insert and parent change
+-- -----------------------------------------------------
+create trigger enforce_category_hierarchy
+  before insert or update of parent_id on categories
+  for each row
+  execute function enforce_category_hierarchy();
@@ -0,0 +1,104 @@
+-- =====================================================
+-- Migration: Category Merge
+-- Created: 2026-03-06
+-- Description: Allows duplicate categories (e.g. "Tool" and "Tools") to be
+--   combined, including:
+--   - merge_categories function (moves items and subcategories to the
+--     target category and deletes the source in one transaction)
+-- =====================================================
+
+-- =====================================================
+-- 1. FUNCTIONS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 Function to merge one category into another
+-- Items and direct subcategories of the source move to the target, then
+-- the source is deleted. Subcategory moves go through
+-- enforce_category_hierarchy, so the maximum depth still applies.
+-- Runs as the caller (security invoker), so RLS policies apply.
+-- -----------------------------------------------------
+create or replace function merge_categories(
+  p_source_id uuid,
+  p_target_id uuid
+)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_moved_items integer;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_source_id = p_target_id then
+    raise exception 'Category cannot be merged into itself'
+      using errcode = '22023';
+  end if;
+
+  perform 1
+  from categories
+  where id = p_source_id
+    and user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'Category not found'
+      using errcode = 'P0002';
+  end if;
+
+  perform 1
+  from categories
+  where id = p_target_id
+    and user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'Target category does not exist or does not belong to user'
+      using errcode = '23503';
+  end if;
+
+  -- The target must not be inside the source (its subcategories would
+  -- otherwise be moved under themselves)
+  if exists (
+    with recursive ancestors as (
+      select id, parent_id
+      from categories
+      where id = p_target_id
+      union all
+      select c.id, c.parent_id
+      from ancestors a
+      join categories c on c.id = a.parent_id
+    )
+    select 1 from ancestors where id = p_source_id
+  ) then
+    raise exception 'Category cannot be merged into one of its subcategories'
+      using errcode = '22023';
+  end if;
+
+  update items
+  set category_id = p_target_id
+  where category_id = p_source_id
+    and user_id = v_user_id;
+
+  get diagnostics v_moved_items = row_count;
+
+  update categories
+  set parent_id = p_target_id
+  where parent_id = p_source_id
+    and user_id = v_user_id;
+
+  delete from categories
+  where id = p_source_id
+    and user_id = v_user_id;
+
+  return v_moved_items;
+end;
+$$;
+
+-- Add comment explaining function purpose
+comment on function merge_categories is 'Atomically moves all items and subcategories of p_source_id to p_target_id and deletes the source category. Returns the number of moved items. Raises P0002 if the source does not exist, 23503 if the target does not exist and 22023 if the target is the source or one of its subcategories.';
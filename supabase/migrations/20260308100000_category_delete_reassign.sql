@@ -0,0 +1,103 @@
+-- =====================================================
+-- Migration: Category Delete With Reassignment
+-- Created: 2026-03-08
+-- Description: Allows deleting a category that still has items, including:
+--   - delete_category function (moves the items to another category,
+--     optionally a created "Uncategorized" fallback, and deletes the
+--     category in one transaction)
+-- =====================================================
+
+-- =====================================================
+-- 1. FUNCTIONS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 Function to delete a category and reassign its items
+-- Items move to p_reassign_to, or with p_use_fallback to the user's
+-- "Uncategorized" category (matched case-insensitively, created as a
+-- top-level category if missing). Subcategories still block the delete
+-- (ON DELETE RESTRICT).
+-- Runs as the caller (security invoker), so RLS policies apply.
+-- -----------------------------------------------------
+create or replace function delete_category(
+  p_category_id uuid,
+  p_reassign_to uuid default null,
+  p_use_fallback boolean default false
+)
+returns table (target_id uuid, moved_item_count integer)
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_target_id uuid := p_reassign_to;
+  v_moved_items integer;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  perform 1
+  from categories
+  where id = p_category_id
+    and user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'Category not found'
+      using errcode = 'P0002';
+  end if;
+
+  if p_use_fallback then
+    select id into v_target_id
+    from categories
+    where user_id = v_user_id
+      and lower(name) = 'uncategorized'
+    for update;
+
+    if v_target_id is null then
+      insert into categories (user_id, name)
+      values (v_user_id, 'Uncategorized')
+      returning id into v_target_id;
+    end if;
+  elsif v_target_id is not null then
+    perform 1
+    from categories
+    where id = v_target_id
+      and user_id = v_user_id
+    for update;
+
+    if not found then
+      raise exception 'Target category does not exist or does not belong to user'
+        using errcode = '23503';
+    end if;
+  end if;
+
+  if v_target_id = p_category_id then
+    raise exception 'Items cannot be reassigned to the category being deleted'
+      using errcode = '22023';
+  end if;
+
+  if v_target_id is not null then
+    update items
+    set category_id = v_target_id
+    where category_id = p_category_id
+      and user_id = v_user_id;
+
+    get diagnostics v_moved_items = row_count;
+  else
+    v_moved_items := 0;
+  end if;
+
+  -- Fails with 23503 if items (without a target) or subcategories remain
+  delete from categories
+  where id = p_category_id
+    and user_id = v_user_id;
+
+  return query select v_target_id, v_moved_items;
+end;
+$$;
+
+-- Add comment explaining function purpose
+comment on function delete_category is 'Atomically moves all items of p_category_id to p_reassign_to (or, with p_use_fallback, to an "Uncategorized" category created on demand) and deletes the category. Returns the target category and the number of moved items. Raises P0002 if the category does not exist, 23503 if the target does not exist or the category still has items or subcategories, and 22023 if the target is the category itself.';
@@ -0,0 +1,50 @@
+-- =====================================================
+-- Migration: Item Location Filter
+-- Created: 2026-03-10
+-- Description: Filters the item list by site and room in the database
+--   instead of passing resolved container IDs back in the request, including:
+--   - filter_items function (base query of the item list)
+-- =====================================================
+
+-- =====================================================
+-- 1. FUNCTIONS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 Function to list items located in the given sites and rooms
+-- Returns items rows, so the API can embed relations and apply the
+-- remaining filters, sorting and pagination on top of the call.
+-- Both filters combine with AND logic; NULL skips a filter. Nested
+-- containers carry the room of their parent, so items in them match.
+-- Has no SET clause so the planner can inline the function and push
+-- the outer filters, ordering and limit down into it (tables are
+-- schema-qualified instead).
+-- Runs as the caller (security invoker), so RLS policies apply.
+-- -----------------------------------------------------
+create or replace function filter_items(
+  p_site_ids uuid[] default null,
+  p_room_ids uuid[] default null
+)
+returns setof items
+language sql
+stable
+security invoker
+as $$
+  select i.*
+  from public.items i
+  where i.user_id = auth.uid()
+    and (
+      (p_site_ids is null and p_room_ids is null)
+      or exists (
+        select 1
+        from public.containers c
+        join public.rooms r on r.id = c.room_id
+        where c.id = i.container_id
+          and (p_site_ids is null or r.site_id = any(p_site_ids))
+          and (p_room_ids is null or r.id = any(p_room_ids))
+      )
+    );
+$$;
+
+-- Add comment explaining function purpose
+comment on function filter_items is 'Returns the items of the current user located in any of p_site_ids and any of p_room_ids (NULL skips a filter). Used as the base query of the item list.';
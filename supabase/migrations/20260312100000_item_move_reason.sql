@@ -0,0 +1,110 @@
+-- =====================================================
+-- Migration: Item Move Reason
+-- Created: 2026-03-12
+-- Description: Makes the movement history writable by the trigger only
+--   and records the move reason in the same transaction, including:
+--   - record_item_movement trigger function (security definer, reads
+--     the reason from the app.move_reason setting)
+--   - move_item function (moves an item with a reason)
+--   - removal of the INSERT and UPDATE policies on item_movements
+-- =====================================================
+
+-- =====================================================
+-- 1. FUNCTIONS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 Function to record a container change
+-- Runs as the function owner (security definer) so it can write to
+-- item_movements, which has no insert policy for users.
+-- The reason is taken from the transaction-local app.move_reason
+-- setting (set by move_item); plain updates record no reason.
+-- -----------------------------------------------------
+create or replace function record_item_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into item_movements (
+    user_id,
+    item_id,
+    from_container_id,
+    from_container_name,
+    to_container_id,
+    to_container_name,
+    reason
+  )
+  select
+    new.user_id,
+    new.id,
+    old.container_id,
+    from_container.name,
+    new.container_id,
+    to_container.name,
+    nullif(current_setting('app.move_reason', true), '')
+  from containers from_container, containers to_container
+  where from_container.id = old.container_id
+    and to_container.id = new.container_id;
+
+  return null;
+end;
+$$;
+
+-- Add comment explaining function purpose
+comment on function record_item_movement is 'Trigger function inserting an item_movements row with the old and new container (and the reason from app.move_reason, if set) when items.container_id changes.';
+
+-- -----------------------------------------------------
+-- 1.2 Function to move an item into another container with a reason
+-- The reason is passed to record_item_movement through a setting
+-- local to this transaction, so it cannot leak into other updates.
+-- Runs as the caller (security invoker), so RLS policies apply.
+-- -----------------------------------------------------
+create or replace function move_item(
+  p_item_id uuid,
+  p_container_id uuid,
+  p_reason text default null
+)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  perform set_config('app.move_reason', coalesce(p_reason, ''), true);
+
+  update items
+  set container_id = p_container_id
+  where id = p_item_id
+    and user_id = v_user_id;
+
+  if not found then
+    raise exception 'Item not found'
+      using errcode = 'P0002';
+  end if;
+end;
+$$;
+
+-- Add comment explaining function purpose
+comment on function move_item is 'Moves an item into p_container_id and records p_reason in the movement written by record_item_movement. Raises P0002 if the item does not exist.';
+
+comment on column item_movements.reason is 'Optional reason for the move, passed by move_item in the same transaction.';
+
+-- =====================================================
+-- 2. ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 2.1 Item Movements Table Policies
+-- Movements are written by the security definer trigger function only,
+-- so users cannot fake or rewrite their history.
+-- -----------------------------------------------------
+drop policy "Users can insert own item movements" on item_movements;
+drop policy "Users can update own item movements" on item_movements;
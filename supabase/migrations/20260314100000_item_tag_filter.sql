@@ -0,0 +1,78 @@
+-- =====================================================
+-- Migration: Item Tag Filter
+-- Created: 2026-03-14
+-- Description: Filters the item list by tags in the database instead of
+--   passing resolved item IDs back in the request, including:
+--   - filter_items function extended with tag filters
+-- =====================================================
+
+-- =====================================================
+-- 1. FUNCTIONS
+-- =====================================================
+
+-- The signature changes, so the previous version is dropped first
+drop function filter_items(uuid[], uuid[]);
+
+-- -----------------------------------------------------
+-- 1.1 Function to list items matching location and tag filters
+-- Returns items rows, so the API can embed relations and apply the
+-- remaining filters, sorting and pagination on top of the call.
+-- All filters combine with AND logic; NULL skips a filter. Nested
+-- containers carry the room of their parent, so items in them match.
+-- Items need any of p_tag_ids, or all of them with p_match_all_tags.
+-- Has no SET clause so the planner can inline the function and push
+-- the outer filters, ordering and limit down into it (tables are
+-- schema-qualified instead).
+-- Runs as the caller (security invoker), so RLS policies apply.
+-- -----------------------------------------------------
+create or replace function filter_items(
+  p_site_ids uuid[] default null,
+  p_room_ids uuid[] default null,
+  p_tag_ids uuid[] default null,
+  p_match_all_tags boolean default false
+)
+returns setof items
+language sql
+stable
+security invoker
+as $$
+  select i.*
+  from public.items i
+  where i.user_id = auth.uid()
+    and (
+      (p_site_ids is null and p_room_ids is null)
+      or exists (
+        select 1
+        from public.containers c
+        join public.rooms r on r.id = c.room_id
+        where c.id = i.container_id
+          and (p_site_ids is null or r.site_id = any(p_site_ids))
+          and (p_room_ids is null or r.id = any(p_room_ids))
+      )
+    )
+    and (
+      p_tag_ids is null
+      or (
+        not p_match_all_tags
+        and exists (
+          select 1
+          from public.item_tags it
+          where it.item_id = i.id
+            and it.tag_id = any(p_tag_ids)
+        )
+      )
+      or (
+        p_match_all_tags
+        and i.id in (
+          select it.item_id
+          from public.item_tags it
+          where it.tag_id = any(p_tag_ids)
+          group by it.item_id
+          having count(*) = (select count(distinct tag_id) from unnest(p_tag_ids) as tag_id)
+        )
+      )
+    );
+$$;
+
+-- Add comment explaining function purpose
+comment on function filter_items is 'Returns the items of the current user located in any of p_site_ids and any of p_room_ids, carrying any (or with p_match_all_tags all) of p_tag_ids. NULL skips a filter. Used as the base query of the item list.';
@@ -0,0 +1,103 @@
+-- =====================================================
+-- Migration: Item Name Prefix Search
+-- Created: 2026-03-18
+-- Description: Makes the item list name search use idx_items_user_name,
+--   including:
+--   - idx_items_user_name rebuilt with text_pattern_ops
+--   - filter_items function extended with a name prefix filter
+-- =====================================================
+
+-- =====================================================
+-- 1. INDEXES
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 Case-insensitive item name prefix search per user
+-- text_pattern_ops compares byte-wise, so the range condition in
+-- filter_items can use the index whatever the database collation.
+-- -----------------------------------------------------
+drop index idx_items_user_name;
+create index idx_items_user_name on items(user_id, lower(name) text_pattern_ops);
+
+-- =====================================================
+-- 2. FUNCTIONS
+-- =====================================================
+
+-- The signature changes, so the previous version is dropped first
+drop function filter_items(uuid[], uuid[], uuid[], boolean);
+
+-- -----------------------------------------------------
+-- 2.1 Function to list items matching location, tag and name filters
+-- Returns items rows, so the API can embed relations and apply the
+-- remaining filters, sorting and pagination on top of the call.
+-- All filters combine with AND logic; NULL skips a filter. Nested
+-- containers carry the room of their parent, so items in them match.
+-- Items need any of p_tag_ids, or all of them with p_match_all_tags.
+-- p_search matches the start of the name, case-insensitively. The
+-- pattern is a parameter, so LIKE cannot use the index; the range on
+-- lower(name) can (idx_items_user_name), starts_with keeps it exact.
+-- Has no SET clause so the planner can inline the function and push
+-- the outer filters, ordering and limit down into it (tables are
+-- schema-qualified instead).
+-- Runs as the caller (security invoker), so RLS policies apply.
+-- -----------------------------------------------------
+create or replace function filter_items(
+  p_site_ids uuid[] default null,
+  p_room_ids uuid[] default null,
+  p_tag_ids uuid[] default null,
+  p_match_all_tags boolean default false,
+  p_search text default null
+)
+returns setof items
+language sql
+stable
+security invoker
+as $$
+  select i.*
+  from public.items i
+  where i.user_id = auth.uid()
+    and (
+      (p_site_ids is null and p_room_ids is null)
+      or exists (
+        select 1
+        from public.containers c
+        join public.rooms r on r.id = c.room_id
+        where c.id = i.container_id
+          and (p_site_ids is null or r.site_id = any(p_site_ids))
+          and (p_room_ids is null or r.id = any(p_room_ids))
+      )
+    )
+    and (
+      p_tag_ids is null
+      or (
+        not p_match_all_tags
+        and exists (
+          select 1
+          from public.item_tags it
+          where it.item_id = i.id
+            and it.tag_id = any(p_tag_ids)
+        )
+      )
+      or (
+        p_match_all_tags
+        and i.id in (
+          select it.item_id
+          from public.item_tags it
+          where it.tag_id = any(p_tag_ids)
+          group by it.item_id
+          having count(*) = (select count(distinct tag_id) from unnest(p_tag_ids) as tag_id)
+        )
+      )
+    )
+    and (
+      p_search is null
+      or (
+        lower(i.name) ~>=~ lower(p_search)
+        and lower(i.name) ~<~ lower(p_search) || chr(1114111)
+        and starts_with(lower(i.name), lower(p_search))
+      )
+    );
+$$;
+
+-- Add comment explaining function purpose
+comment on function filter_items is 'Returns the items of the current user located in any of p_site_ids and any of p_room_ids, carrying any (or with p_match_all_tags all) of p_tag_ids, with a name starting with p_search (case-insensitive). NULL skips a filter. Used as the base query of the item list.';
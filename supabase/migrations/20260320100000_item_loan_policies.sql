@@ -0,0 +1,181 @@
+-- =====================================================
+-- Migration: Item Loan Policies
+-- Created: 2026-03-20
+-- Description: Makes the loan history writable by the loan functions
+--   only, including:
+--   - sync_item_loans trigger function (security definer)
+--   - checkout_item and checkin_item functions (security definer)
+--   - removal of the INSERT, UPDATE and DELETE policies on item_loans
+-- =====================================================
+
+-- =====================================================
+-- 1. FUNCTIONS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 Function to keep loans in line with items.is_in
+-- Replaces the version from the item loans migration; the body is
+-- unchanged. Runs as the function owner (security definer) so it can
+-- write to item_loans, which has no write policies for users. It only
+-- fires for item rows the caller was allowed to insert or update.
+-- -----------------------------------------------------
+create or replace function sync_item_loans()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not new.is_in and (tg_op = 'INSERT' or old.is_in) then
+    insert into item_loans (user_id, item_id)
+    select new.user_id, new.id
+    where not exists (
+      select 1 from item_loans where item_id = new.id and checked_in_at is null
+    );
+  elsif new.is_in and tg_op = 'UPDATE' and not old.is_in then
+    update item_loans
+    set checked_in_at = now()
+    where item_id = new.id
+      and checked_in_at is null;
+  end if;
+
+  return null;
+end;
+$$;
+
+-- Add comment explaining function purpose
+comment on function sync_item_loans is 'Trigger function opening or closing item_loans rows when items.is_in changes outside the check-out/check-in functions.';
+
+-- -----------------------------------------------------
+-- 1.2 Function to check an item out
+-- Replaces the version from the item loans migration. Runs as the
+-- function owner (security definer) so it can write to item_loans;
+-- the item is looked up by auth.uid(), so only own items qualify.
+-- -----------------------------------------------------
+create or replace function checkout_item(
+  p_item_id uuid,
+  p_borrower text default null,
+  p_due_date date default null,
+  p_note text default null
+)
+returns item_loans
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  item_is_in boolean;
+  loan item_loans;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  select is_in
+  into item_is_in
+  from items
+  where id = p_item_id
+    and user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'Item not found'
+      using errcode = 'P0002';
+  end if;
+
+  if not item_is_in then
+    raise exception 'Item is already checked out'
+      using errcode = '55000';
+  end if;
+
+  insert into item_loans (user_id, item_id, borrower, due_date, note)
+  values (v_user_id, p_item_id, p_borrower, p_due_date, p_note)
+  returning * into loan;
+
+  update items
+  set is_in = false
+  where id = p_item_id
+    and user_id = v_user_id;
+
+  return loan;
+end;
+$$;
+
+-- Add comment explaining function purpose
+comment on function checkout_item is 'Atomically opens a loan for an item that is in storage and sets items.is_in to false. Returns the new loan.';
+
+-- -----------------------------------------------------
+-- 1.3 Function to check an item back in
+-- Replaces the version from the item loans migration. Runs as the
+-- function owner (security definer) so it can write to item_loans;
+-- the item is looked up by auth.uid(), so only own items qualify.
+-- -----------------------------------------------------
+create or replace function checkin_item(
+  p_item_id uuid,
+  p_note text default null
+)
+returns item_loans
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  item_is_in boolean;
+  loan item_loans;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  select is_in
+  into item_is_in
+  from items
+  where id = p_item_id
+    and user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'Item not found'
+      using errcode = 'P0002';
+  end if;
+
+  if item_is_in then
+    raise exception 'Item is not checked out'
+      using errcode = '55000';
+  end if;
+
+  update item_loans
+  set checked_in_at = now(),
+      return_note = p_note
+  where item_id = p_item_id
+    and user_id = v_user_id
+    and checked_in_at is null
+  returning * into loan;
+
+  update items
+  set is_in = true
+  where id = p_item_id
+    and user_id = v_user_id;
+
+  return loan;
+end;
+$$;
+
+-- Add comment explaining function purpose
+comment on function checkin_item is 'Atomically closes the open loan of a checked-out item and sets items.is_in to true. Returns the closed loan.';
+
+-- =====================================================
+-- 2. ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 2.1 Item Loans Table Policies
+-- Loans are written by the security definer functions only, so users
+-- cannot rewrite or delete their loan history. Loans are still removed
+-- together with the item (ON DELETE CASCADE).
+-- -----------------------------------------------------
+drop policy "Users can insert own item loans" on item_loans;
+drop policy "Users can update own item loans" on item_loans;
+drop policy "Users can delete own item loans" on item_loans;
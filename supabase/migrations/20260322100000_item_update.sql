@@ -0,0 +1,70 @@
+-- =====================================================
+-- Migration: Item Update
+-- Created: 2026-03-22
+-- Description: Applies item field changes and a move with a reason in
+--   one transaction, including:
+--   - update_item function (partial update with an optional move reason)
+--   - removal of the move_item function it replaces
+-- =====================================================
+
+-- =====================================================
+-- 1. FUNCTIONS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 Function to update an item
+-- p_changes holds the changed columns only (name, description,
+-- category_id, container_id, is_in, quantity, barcode); columns not in
+-- it keep their value, JSON null clears a nullable column.
+-- The reason is passed to record_item_movement through a setting
+-- local to this transaction, so it cannot leak into other updates.
+-- Runs as the caller (security invoker), so RLS policies apply.
+-- -----------------------------------------------------
+create or replace function update_item(
+  p_item_id uuid,
+  p_changes jsonb,
+  p_move_reason text default null
+)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  perform set_config('app.move_reason', coalesce(p_move_reason, ''), true);
+
+  update items
+  set name = case when p_changes ? 'name' then p_changes ->> 'name' else name end,
+      description = case when p_changes ? 'description' then p_changes ->> 'description' else description end,
+      category_id = case when p_changes ? 'category_id' then (p_changes ->> 'category_id')::uuid else category_id end,
+      container_id = case when p_changes ? 'container_id' then (p_changes ->> 'container_id')::uuid else container_id end,
+      is_in = case when p_changes ? 'is_in' then (p_changes ->> 'is_in')::boolean else is_in end,
+      quantity = case when p_changes ? 'quantity' then (p_changes ->> 'quantity')::integer else quantity end,
+      barcode = case when p_changes ? 'barcode' then p_changes ->> 'barcode' else barcode end
+  where id = p_item_id
+    and user_id = v_user_id;
+
+  if not found then
+    raise exception 'Item not found'
+      using errcode = 'P0002';
+  end if;
+end;
+$$;
+
+-- Add comment explaining function purpose
+comment on function update_item is 'Applies the column changes in p_changes to an item in one statement and records p_move_reason in the movement written by record_item_movement. Raises P0002 if the item does not exist.';
+
+comment on column item_movements.reason is 'Optional reason for the move, passed by update_item in the same transaction.';
+
+-- -----------------------------------------------------
+-- 1.2 Remove move_item
+-- Replaced by update_item, which moves an item together with its
+-- other changes.
+-- -----------------------------------------------------
+drop function move_item(uuid, uuid, text);
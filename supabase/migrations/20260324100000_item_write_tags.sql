@@ -0,0 +1,139 @@
+-- =====================================================
+-- Migration: Item Write Tags
+-- Created: 2026-03-24
+-- Description: Writes an item and its tags in one transaction, including:
+--   - create_item function (inserts an item with its tags)
+--   - update_item function extended with the tag set
+--   - removal of the set_item_tags function they replace
+-- =====================================================
+
+-- =====================================================
+-- 1. FUNCTIONS
+-- =====================================================
+
+-- -----------------------------------------------------
+-- 1.1 Function to create an item with its tags
+-- p_item holds the columns of the new item (name, description,
+-- category_id, container_id, is_in, quantity, barcode).
+-- Tags that do not belong to the caller are ignored (the application
+-- validates them first).
+-- Runs as the caller (security invoker), so RLS policies apply.
+-- -----------------------------------------------------
+create or replace function create_item(
+  p_item jsonb,
+  p_tag_ids uuid[] default '{}'
+)
+returns items
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  new_item items;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  insert into items (user_id, name, description, category_id, container_id, is_in, quantity, barcode)
+  values (
+    v_user_id,
+    p_item ->> 'name',
+    p_item ->> 'description',
+    (p_item ->> 'category_id')::uuid,
+    (p_item ->> 'container_id')::uuid,
+    coalesce((p_item ->> 'is_in')::boolean, true),
+    (p_item ->> 'quantity')::integer,
+    p_item ->> 'barcode'
+  )
+  returning * into new_item;
+
+  insert into item_tags (item_id, tag_id, user_id)
+  select new_item.id, t.id, v_user_id
+  from tags t
+  where t.id = any (p_tag_ids)
+    and t.user_id = v_user_id;
+
+  return new_item;
+end;
+$$;
+
+-- Add comment explaining function purpose
+comment on function create_item is 'Inserts an item from the columns in p_item together with the tags in p_tag_ids (tags of other users are ignored) in one transaction. Returns the new item.';
+
+-- The signature changes, so the previous version is dropped first
+drop function update_item(uuid, jsonb, text);
+
+-- -----------------------------------------------------
+-- 1.2 Function to update an item and its tags
+-- p_changes holds the changed columns only (name, description,
+-- category_id, container_id, is_in, quantity, barcode); columns not in
+-- it keep their value, JSON null clears a nullable column.
+-- p_tag_ids is the complete new tag set; NULL keeps the tags. Tags that
+-- do not belong to the caller are ignored (the application validates
+-- them first).
+-- The reason is passed to record_item_movement through a setting
+-- local to this transaction, so it cannot leak into other updates.
+-- Runs as the caller (security invoker), so RLS policies apply.
+-- -----------------------------------------------------
+create or replace function update_item(
+  p_item_id uuid,
+  p_changes jsonb,
+  p_tag_ids uuid[] default null,
+  p_move_reason text default null
+)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  perform set_config('app.move_reason', coalesce(p_move_reason, ''), true);
+
+  update items
+  set name = case when p_changes ? 'name' then p_changes ->> 'name' else name end,
+      description = case when p_changes ? 'description' then p_changes ->> 'description' else description end,
+      category_id = case when p_changes ? 'category_id' then (p_changes ->> 'category_id')::uuid else category_id end,
+      container_id = case when p_changes ? 'container_id' then (p_changes ->> 'container_id')::uuid else container_id end,
+      is_in = case when p_changes ? 'is_in' then (p_changes ->> 'is_in')::boolean else is_in end,
+      quantity = case when p_changes ? 'quantity' then (p_changes ->> 'quantity')::integer else quantity end,
+      barcode = case when p_changes ? 'barcode' then p_changes ->> 'barcode' else barcode end
+  where id = p_item_id
+    and user_id = v_user_id;
+
+  if not found then
+    raise exception 'Item not found'
+      using errcode = 'P0002';
+  end if;
+
+  if p_tag_ids is not null then
+    delete from item_tags
+    where item_id = p_item_id
+      and tag_id <> all (p_tag_ids);
+
+    insert into item_tags (item_id, tag_id, user_id)
+    select p_item_id, t.id, v_user_id
+    from tags t
+    where t.id = any (p_tag_ids)
+      and t.user_id = v_user_id
+    on conflict do nothing;
+  end if;
+end;
+$$;
+
+-- Add comment explaining function purpose
+comment on function update_item is 'Applies the column changes in p_changes to an item and replaces its tags with p_tag_ids (unless NULL) in one transaction, recording p_move_reason in the movement written by record_item_movement. Raises P0002 if the item does not exist.';
+
+-- -----------------------------------------------------
+-- 1.3 Remove set_item_tags
+-- Replaced by create_item and update_item, which assign tags in the
+-- same transaction as the item write.
+-- -----------------------------------------------------
+drop function set_item_tags(uuid, uuid[]);